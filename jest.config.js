@@ -4,6 +4,10 @@ export default {
   transform: {
     '^.+\\.ts$': 'ts-jest',
   },
+  // Sources import each other with the .js extension of the compiled ESM output
+  moduleNameMapper: {
+    '^(\\.{1,2}/.*)\\.js$': '$1',
+  },
   testMatch: [
     '<rootDir>/tests/**/*.test.ts',
   ],
@@ -0,0 +1,190 @@
+import type {
+  AnalysisPathStep,
+  ControlFlowEdge,
+  SourceLocation,
+  SourceRange
+} from '../types/index.js';
+
+type PlistValue = string | number | boolean | PlistValue[] | { [key: string]: PlistValue };
+
+interface PlistFrame {
+  tag: string;
+  value?: PlistValue;
+  key?: string;
+  text: string;
+}
+
+export interface AnalyzerReport {
+  checker: string; // e.g. core.NullDereference
+  category: string; // Bug category, e.g. Logic error
+  message: string;
+  location: SourceLocation;
+  path: AnalysisPathStep[];
+  edges: ControlFlowEdge[];
+}
+
+/**
+ * Reads the property list written by `clang --analyze -analyzer-output=plist-multi-file`.
+ * Each report's path is flattened: events of called functions follow the call with a greater
+ * depth, and control pieces carry the edges between statements. Locations refer to the
+ * report's file table by index; range ends point at the last character, not past it.
+ */
+export class AnalyzerPlistParser {
+  private static readonly TOKEN_PATTERN = /<(\/?)([A-Za-z]+)[^>]*?(\/?)>|([^<]+)/g;
+
+  static parse(xml: string): AnalyzerReport[] {
+    const root = this.parsePlist(xml);
+    const files = this.list(root, 'files').map((file) => (typeof file === 'string' ? this.normalizePath(file) : ''));
+
+    return this.list(root, 'diagnostics').map((diagnostic) => {
+      const path: AnalysisPathStep[] = [];
+      const edges: ControlFlowEdge[] = [];
+
+      for (const piece of this.list(diagnostic, 'path')) {
+        const kind = this.text(piece, 'kind');
+        if (kind === 'event') {
+          const step: AnalysisPathStep = {
+            ...this.location(this.field(piece, 'location'), files),
+            message: this.text(piece, 'message'),
+            depth: this.number(piece, 'depth'),
+          };
+          const ranges = this.list(piece, 'ranges').map((range) => this.range(range, files));
+          if (ranges.length > 0) step.ranges = ranges;
+          path.push(step);
+        } else if (kind === 'control') {
+          for (const edge of this.list(piece, 'edges')) {
+            edges.push({
+              from: this.range(this.field(edge, 'start'), files),
+              to: this.range(this.field(edge, 'end'), files),
+            });
+          }
+        }
+      }
+
+      return {
+        checker: this.text(diagnostic, 'check_name'),
+        category: this.text(diagnostic, 'category'),
+        message: this.text(diagnostic, 'description'),
+        location: this.location(this.field(diagnostic, 'location'), files),
+        path,
+        edges,
+      };
+    });
+  }
+
+  /**
+   * The plist's values as nested arrays and objects; dict entries are key elements followed by a value
+   */
+  private static parsePlist(xml: string): PlistValue | undefined {
+    const stack: PlistFrame[] = [];
+    let root: PlistValue | undefined;
+
+    const complete = (frame: PlistFrame): void => {
+      const parent = stack[stack.length - 1];
+      if (frame.tag === 'key') {
+        if (parent) parent.key = this.decode(frame.text);
+        return;
+      }
+
+      let value: PlistValue;
+      switch (frame.tag) {
+        case 'dict':
+        case 'array':
+          value = frame.value ?? [];
+          break;
+        case 'integer':
+        case 'real':
+          value = Number(frame.text.trim());
+          break;
+        case 'true':
+        case 'false':
+          value = frame.tag === 'true';
+          break;
+        default:
+          value = this.decode(frame.text);
+      }
+
+      if (!parent) {
+        root = value;
+      } else if (Array.isArray(parent.value)) {
+        parent.value.push(value);
+      } else if (parent.value !== undefined && typeof parent.value === 'object' && parent.key !== undefined) {
+        parent.value[parent.key] = value;
+        parent.key = undefined;
+      }
+    };
+
+    for (const [, closing, tag, selfClosing, text] of xml.matchAll(this.TOKEN_PATTERN)) {
+      if (text !== undefined) {
+        if (stack.length > 0) stack[stack.length - 1].text += text;
+      } else if (tag === 'plist') {
+        continue;
+      } else if (closing) {
+        const frame = stack.pop();
+        if (frame) complete(frame);
+      } else {
+        const frame: PlistFrame = { tag, text: '', value: tag === 'dict' ? {} : tag === 'array' ? [] : undefined };
+        if (selfClosing) {
+          complete(frame);
+        } else {
+          stack.push(frame);
+        }
+      }
+    }
+
+    return root;
+  }
+
+  private static decode(text: string): string {
+    const entities: Record<string, string> = { lt: '<', gt: '>', amp: '&', apos: "'", quot: '"' };
+    return text.replace(/&(#x[0-9A-Fa-f]+|#\d+|\w+);/g, (entity, name: string) => {
+      if (name.startsWith('#x')) return String.fromCodePoint(parseInt(name.substring(2), 16));
+      if (name.startsWith('#')) return String.fromCodePoint(parseInt(name.substring(1), 10));
+      return entities[name] ?? entity;
+    });
+  }
+
+  private static location(value: PlistValue | undefined, files: string[]): SourceLocation {
+    const file = files[this.number(value, 'file')];
+    const location: SourceLocation = { line: this.number(value, 'line'), column: this.number(value, 'col') };
+    return file ? { file, ...location } : location;
+  }
+
+  private static range(value: PlistValue | undefined, files: string[]): SourceRange {
+    const [start, end] = Array.isArray(value) ? value : [];
+    const last = this.location(end ?? start, files);
+    return { start: this.location(start, files), end: { ...last, column: last.column + 1 } };
+  }
+
+  private static normalizePath(fullPath: string): string {
+    if (fullPath.startsWith('./')) {
+      return fullPath.substring(2);
+    }
+
+    // System headers are reported by file name only, as in compiler diagnostics
+    if (fullPath.startsWith('/')) {
+      return fullPath.substring(fullPath.lastIndexOf('/') + 1);
+    }
+
+    return fullPath;
+  }
+
+  private static field(value: PlistValue | undefined, key: string): PlistValue | undefined {
+    return value !== undefined && typeof value === 'object' && !Array.isArray(value) ? value[key] : undefined;
+  }
+
+  private static text(value: PlistValue | undefined, key: string): string {
+    const field = this.field(value, key);
+    return typeof field === 'string' ? field : '';
+  }
+
+  private static number(value: PlistValue | undefined, key: string): number {
+    const field = this.field(value, key);
+    return typeof field === 'number' ? field : 0;
+  }
+
+  private static list(value: PlistValue | undefined, key: string): PlistValue[] {
+    const field = this.field(value, key);
+    return Array.isArray(field) ? field : [];
+  }
+}
\ No newline at end of file
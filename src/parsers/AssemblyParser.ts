@@ -0,0 +1,193 @@
+import type { AssemblyBlock, SourceLineRange } from '../types/index.js';
+
+interface AssemblyLocation {
+  file: string | null;
+  line: number | null;
+}
+
+/**
+ * Turns compiler-emitted assembly into blocks of instructions linked to the source lines
+ * that produced them (from `.loc` directives), dropping directives, comments and unused
+ * labels in the same spirit as Compiler Explorer's filters.
+ */
+export class AssemblyParser {
+  private static readonly LABEL_PATTERN = /^([A-Za-z0-9_.$@?]+|"[^"]+"):/;
+  private static readonly FILE_PATTERN = /^\.file\s+(\d+)\s+"([^"]*)"(?:\s+"([^"]*)")?/;
+  private static readonly LOC_PATTERN = /^\.loc\s+(\d+)\s+(\d+)/;
+  private static readonly CODE_SECTION_PATTERN = /^(\.text\b|\.section\s+(\.text|__TEXT,__text)\b)/;
+  private static readonly SECTION_PATTERN = /^(\.text|\.data|\.bss|\.section|\.rodata)\b/;
+  private static readonly IDENTIFIER_PATTERN = /[A-Za-z0-9_.$@?]+/g;
+
+  static parse(asm: string): AssemblyBlock[] {
+    if (!asm) {
+      return [];
+    }
+
+    const files = new Map<number, string>();
+    const lines = asm.split('\n').map((line) => this.stripComment(line).trimEnd());
+
+    // First pass: collect every label referenced by an instruction
+    const referencedLabels = new Set<string>();
+    let inCode = true;
+    for (const rawLine of lines) {
+      const line = rawLine.trim();
+      if (this.SECTION_PATTERN.test(line)) {
+        inCode = this.CODE_SECTION_PATTERN.test(line);
+        continue;
+      }
+      if (!inCode || !line || line.startsWith('.') || this.LABEL_PATTERN.test(line)) {
+        continue;
+      }
+      for (const identifier of line.match(this.IDENTIFIER_PATTERN) || []) {
+        referencedLabels.add(identifier);
+      }
+    }
+
+    // Second pass: group instructions by source location
+    const blocks: AssemblyBlock[] = [];
+    let location: AssemblyLocation = { file: null, line: null };
+    let currentFunction: string | null = null;
+    let currentBlock: AssemblyBlock | null = null;
+    let pendingLabels: string[] = [];
+    inCode = true;
+
+    for (const rawLine of lines) {
+      const line = rawLine.trim();
+      if (!line) continue;
+
+      if (this.SECTION_PATTERN.test(line)) {
+        inCode = this.CODE_SECTION_PATTERN.test(line);
+        continue;
+      }
+
+      const fileMatch = line.match(this.FILE_PATTERN);
+      if (fileMatch) {
+        // `.file N "name"` or, with DWARF 5, `.file N "directory" "name"`
+        const [, fileNumber, first, second] = fileMatch;
+        const fileName = second === undefined ? this.normalizePath(first) : this.normalizePath(second, first);
+        files.set(parseInt(fileNumber, 10), fileName);
+        continue;
+      }
+
+      const locMatch = line.match(this.LOC_PATTERN);
+      if (locMatch) {
+        const sourceLine = parseInt(locMatch[2], 10);
+        location = {
+          file: files.get(parseInt(locMatch[1], 10)) ?? null,
+          // Line 0 marks compiler-generated code without a source position
+          line: sourceLine > 0 ? sourceLine : null,
+        };
+        continue;
+      }
+
+      if (!inCode) continue;
+
+      const labelMatch = line.match(this.LABEL_PATTERN);
+      if (labelMatch) {
+        const label = labelMatch[1];
+        if (this.isFunctionLabel(label)) {
+          currentFunction = label;
+          currentBlock = null;
+          pendingLabels = [];
+          location = { file: null, line: null };
+        } else if (referencedLabels.has(label)) {
+          pendingLabels.push(`${label}:`);
+        }
+        continue;
+      }
+
+      // Remaining directives carry no instructions
+      if (line.startsWith('.')) continue;
+
+      if (
+        !currentBlock ||
+        pendingLabels.length > 0 ||
+        currentBlock.file !== location.file ||
+        currentBlock.startLine !== location.line ||
+        currentBlock.function !== currentFunction
+      ) {
+        currentBlock = {
+          file: location.file,
+          startLine: location.line,
+          endLine: location.line,
+          function: currentFunction,
+          instructions: [],
+        };
+        blocks.push(currentBlock);
+      }
+
+      currentBlock.instructions.push(...pendingLabels, line.replace(/\s+/g, ' '));
+      pendingLabels = [];
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Keep only blocks generated from the requested source lines
+   */
+  static filterByLines(blocks: AssemblyBlock[], range: SourceLineRange): AssemblyBlock[] {
+    return blocks.filter((block) =>
+      block.startLine !== null &&
+      block.endLine !== null &&
+      block.startLine <= range.end &&
+      block.endLine >= range.start &&
+      (!range.file || block.file === range.file)
+    );
+  }
+
+  /**
+   * Render blocks back into a compact assembly listing
+   */
+  static toListing(blocks: AssemblyBlock[]): string {
+    const output: string[] = [];
+    let currentFunction: string | null = null;
+
+    for (const block of blocks) {
+      if (block.function !== currentFunction) {
+        currentFunction = block.function;
+        if (currentFunction) {
+          output.push(`${currentFunction}:`);
+        }
+      }
+      for (const instruction of block.instructions) {
+        output.push(instruction.endsWith(':') ? instruction : `  ${instruction}`);
+      }
+    }
+
+    return output.join('\n');
+  }
+
+  private static stripComment(line: string): string {
+    const trimmed = line.trim();
+    if (/^(#|\/\/|;|@ )/.test(trimmed)) {
+      return '';
+    }
+
+    // Trailing comments are separated by whitespace; `#1` immediates on ARM are not
+    return line.replace(/\s+(#|\/\/|;|@)(\s.*)?$/, '');
+  }
+
+  private static isFunctionLabel(label: string): boolean {
+    // Local labels (.LBB0_1, .Ltmp0, .L.str) are assembler-internal
+    return !label.startsWith('.L') && !label.startsWith('"');
+  }
+
+  private static normalizePath(name: string, directory?: string): string {
+    let fullPath = name;
+    if (directory && directory !== '.' && !name.startsWith('/')) {
+      fullPath = `${directory}/${name}`;
+    }
+
+    if (fullPath.startsWith('./')) {
+      return fullPath.substring(2);
+    }
+
+    // Headers outside the source tree are reported by file name only
+    if (fullPath.startsWith('/')) {
+      return fullPath.substring(fullPath.lastIndexOf('/') + 1);
+    }
+
+    return fullPath;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,99 @@
+import type { SectionSize } from '../types/index.js';
+
+export interface SegmentSizes {
+  file: string;
+  text: number;
+  data: number;
+  bss: number;
+}
+
+export interface FileSymbol {
+  file: string;
+  name: string;
+  size: number;
+  type: string;
+}
+
+/**
+ * Parses the output of `llvm-size` (Berkeley and System V formats) and
+ * `llvm-nm --print-size`, each run over one or more object files
+ */
+export class BinarySizeParser {
+  private static readonly BERKELEY_PATTERN = /^\s*(\d+)\s+(\d+)\s+(\d+)\s+\d+\s+[0-9a-fA-F]+\s+(.+)$/;
+  private static readonly SYSV_HEADER_PATTERN = /^(.+?)\s+:$/;
+  private static readonly SYSV_SECTION_PATTERN = /^(\S+)\s+(\d+)\s+\d+$/;
+  private static readonly NM_HEADER_PATTERN = /^(.+):$/;
+  private static readonly NM_SYMBOL_PATTERN = /^([0-9a-fA-F]+)\s+([0-9a-fA-F]+)\s+(\S)\s+(.+)$/;
+
+  /**
+   * `llvm-size` default output: text, data and bss per file
+   */
+  static parseBerkeley(output: string): SegmentSizes[] {
+    const sizes: SegmentSizes[] = [];
+    for (const line of output.split('\n')) {
+      const match = line.match(this.BERKELEY_PATTERN);
+      if (match) {
+        sizes.push({
+          file: match[4].trim(),
+          text: parseInt(match[1], 10),
+          data: parseInt(match[2], 10),
+          bss: parseInt(match[3], 10),
+        });
+      }
+    }
+    return sizes;
+  }
+
+  /**
+   * `llvm-size -A` output: the sections of each file
+   */
+  static parseSections(output: string): Map<string, SectionSize[]> {
+    const sections = new Map<string, SectionSize[]>();
+    let current: SectionSize[] | null = null;
+
+    for (const line of output.split('\n')) {
+      const headerMatch = line.match(this.SYSV_HEADER_PATTERN);
+      if (headerMatch) {
+        current = [];
+        sections.set(headerMatch[1], current);
+        continue;
+      }
+
+      const sectionMatch = line.match(this.SYSV_SECTION_PATTERN);
+      if (current && sectionMatch && sectionMatch[1] !== 'Total') {
+        current.push({ name: sectionMatch[1], size: parseInt(sectionMatch[2], 10) });
+      }
+    }
+
+    return sections;
+  }
+
+  /**
+   * `llvm-nm --print-size` output; with several inputs each file's symbols follow a
+   * `file:` header, a single input has none
+   */
+  static parseSymbols(output: string, defaultFile: string = ''): FileSymbol[] {
+    const symbols: FileSymbol[] = [];
+    let file = defaultFile;
+
+    for (const line of output.split('\n')) {
+      const symbolMatch = line.match(this.NM_SYMBOL_PATTERN);
+      if (symbolMatch) {
+        symbols.push({
+          file,
+          name: symbolMatch[4],
+          size: parseInt(symbolMatch[2], 16),
+          type: symbolMatch[3],
+        });
+        continue;
+      }
+
+      const headerMatch = line.match(this.NM_HEADER_PATTERN);
+      if (headerMatch) {
+        file = headerMatch[1];
+      }
+    }
+
+    return symbols;
+  }
+}
\ No newline at end of file
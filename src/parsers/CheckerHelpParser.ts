@@ -0,0 +1,39 @@
+import type { CheckerInfo } from '../types/index.js';
+
+/**
+ * Parses `clang -cc1 -analyzer-checker-help` (and `-analyzer-checker-help-alpha`): below the
+ * CHECKERS heading each checker is indented by two spaces and followed by its description,
+ * which starts on the next line for long names and wraps onto further indented lines.
+ */
+export class CheckerHelpParser {
+  private static readonly CHECKER_PATTERN = /^ {2}(\S+)(?:\s+(.*))?$/;
+  private static readonly CONTINUATION_PATTERN = /^ {3,}(\S.*)$/;
+
+  static parse(output: string): CheckerInfo[] {
+    const checkers: CheckerInfo[] = [];
+    let inList = false;
+
+    for (const line of output.split('\n')) {
+      if (line.trim() === 'CHECKERS:') {
+        inList = true;
+        continue;
+      }
+      if (!inList) continue;
+
+      const checkerMatch = line.match(this.CHECKER_PATTERN);
+      if (checkerMatch) {
+        const name = checkerMatch[1];
+        checkers.push({ name, description: (checkerMatch[2] || '').trim(), alpha: name.startsWith('alpha.') });
+        continue;
+      }
+
+      const continuationMatch = line.match(this.CONTINUATION_PATTERN);
+      const current = checkers[checkers.length - 1];
+      if (continuationMatch && current) {
+        current.description = `${current.description} ${continuationMatch[1].trim()}`.trim();
+      }
+    }
+
+    return checkers;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,169 @@
+import type {
+  BranchCoverage,
+  CoverageRange,
+  CoverageSummary,
+  CoverageTotals,
+  FileCoverage,
+  LineCoverage
+} from '../types/index.js';
+
+// [line, column, count, hasCount, isRegionEntry, isGapRegion]; the gap flag is missing before LLVM 11
+type RawSegment = [number, number, number, boolean, boolean, boolean?];
+
+// [line, column, endLine, endColumn, trueCount, falseCount, fileId, expandedFileId, kind]
+type RawBranch = [number, number, number, number, number, number, number, number, number];
+
+interface RawSummary {
+  count: number;
+  covered: number;
+  percent: number;
+}
+
+interface RawFile {
+  filename: string;
+  segments?: RawSegment[];
+  branches?: RawBranch[];
+  summary?: Partial<Record<'lines' | 'functions' | 'regions' | 'branches', RawSummary>>;
+}
+
+interface RawExport {
+  type?: string;
+  data?: Array<{ files?: RawFile[] }>;
+}
+
+interface Segment {
+  line: number;
+  column: number;
+  count: number;
+  hasCount: boolean;
+  isRegionEntry: boolean;
+  isGapRegion: boolean;
+}
+
+/**
+ * Parses `llvm-cov export -format=text` (JSON) into per-file coverage. Line counts are derived
+ * from the coverage segments the way `llvm-cov show` computes them; uncovered regions are the
+ * stretches between segments that never executed.
+ */
+export class CoverageReportParser {
+  static parse(json: string): FileCoverage[] {
+    const parsed = JSON.parse(json) as RawExport;
+    if (parsed.type !== 'llvm.coverage.json.export') {
+      throw new Error('Not an llvm-cov export');
+    }
+
+    return (parsed.data || [])
+      .flatMap((entry) => entry.files || [])
+      .map((file) => this.parseFile(file));
+  }
+
+  /**
+   * Combined summaries of a set of files, e.g. the user's sources without system headers
+   */
+  static totals(files: FileCoverage[]): CoverageTotals {
+    const sum = (key: keyof CoverageTotals): CoverageSummary => {
+      const count = files.reduce((total, file) => total + file[key].count, 0);
+      const covered = files.reduce((total, file) => total + file[key].covered, 0);
+      return this.createSummary(count, covered);
+    };
+    return { lines: sum('lines'), functions: sum('functions'), regions: sum('regions'), branches: sum('branches') };
+  }
+
+  private static parseFile(file: RawFile): FileCoverage {
+    const segments = (file.segments || []).map(([line, column, count, hasCount, isRegionEntry, isGapRegion]) => ({
+      line,
+      column,
+      count,
+      hasCount,
+      isRegionEntry,
+      isGapRegion: isGapRegion === true,
+    }));
+    const summary = (key: keyof CoverageTotals): CoverageSummary => {
+      const raw = file.summary?.[key];
+      return raw ? this.createSummary(raw.count, raw.covered) : this.createSummary(0, 0);
+    };
+
+    return {
+      file: file.filename,
+      lines: summary('lines'),
+      functions: summary('functions'),
+      regions: summary('regions'),
+      branches: summary('branches'),
+      lineCounts: this.getLineCounts(segments),
+      branchCounts: (file.branches || []).map(([line, column, endLine, endColumn, trueCount, falseCount]): BranchCoverage => ({
+        line,
+        column,
+        endLine,
+        endColumn,
+        trueCount,
+        falseCount,
+      })),
+      uncoveredRegions: this.getUncoveredRegions(segments),
+    };
+  }
+
+  /**
+   * A line has code if a region starts on it or one continues onto it from the line before; its
+   * count is the highest of those regions. Lines that start a skipped region (#if 0) have none.
+   */
+  private static getLineCounts(segments: Segment[]): LineCoverage[] {
+    const counts: LineCoverage[] = [];
+    if (segments.length === 0) {
+      return counts;
+    }
+
+    const isRegionStart = (segment: Segment): boolean =>
+      !segment.isGapRegion && segment.hasCount && segment.isRegionEntry;
+    let wrapped: Segment | undefined;
+    let index = 0;
+
+    for (let line = segments[0].line; line <= segments[segments.length - 1].line; line++) {
+      const lineSegments: Segment[] = [];
+      while (index < segments.length && segments[index].line === line) {
+        lineSegments.push(segments[index++]);
+      }
+
+      const starts = lineSegments.filter(isRegionStart);
+      const skipped = lineSegments.length > 0 && !lineSegments[0].hasCount && lineSegments[0].isRegionEntry;
+      if (!skipped && (wrapped?.hasCount || starts.length > 0)) {
+        const count = Math.max(wrapped?.count ?? 0, ...starts.map((segment) => segment.count));
+        counts.push({ line, count });
+      }
+
+      if (lineSegments.length > 0) {
+        wrapped = lineSegments[lineSegments.length - 1];
+      }
+    }
+
+    return counts;
+  }
+
+  /**
+   * Runs of never executed segments, from the first one that is not a gap (whitespace and
+   * braces between statements) to the segment that ends the run
+   */
+  private static getUncoveredRegions(segments: Segment[]): CoverageRange[] {
+    const regions: CoverageRange[] = [];
+    let start: Segment | undefined;
+
+    for (const segment of segments) {
+      const uncovered = segment.hasCount && segment.count === 0;
+      if (uncovered) {
+        if (!start && !segment.isGapRegion) start = segment;
+        continue;
+      }
+
+      if (start) {
+        regions.push({ line: start.line, column: start.column, endLine: segment.line, endColumn: segment.column });
+        start = undefined;
+      }
+    }
+
+    return regions;
+  }
+
+  private static createSummary(count: number, covered: number): CoverageSummary {
+    // Rounded like llvm-cov report; nothing to cover counts as 0% there as well
+    return { count, covered, percent: count > 0 ? Math.round((covered / count) * 10000) / 100 : 0 };
+  }
+}
\ No newline at end of file
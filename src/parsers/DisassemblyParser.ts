@@ -0,0 +1,95 @@
+import type { DisassembledFunction, DisassembledInstruction } from '../types/index.js';
+
+/**
+ * Parses `llvm-objdump -d -r --demangle` output into functions with their encoded instructions
+ * and relocations. With `-l -S` the source position printed before a run of instructions is
+ * attached to each of them; the source text itself is left to the listing.
+ */
+export class DisassemblyParser {
+  private static readonly SECTION_PATTERN = /^Disassembly of section (.+):$/;
+  private static readonly FUNCTION_PATTERN = /^([0-9a-f]+) <(.+)>:$/;
+  private static readonly INSTRUCTION_PATTERN = /^\s*([0-9a-f]+):\s([^\t]*)\t(.*)$/;
+  private static readonly RELOCATION_PATTERN = /^\s+([0-9a-f]+):\s+(R_\S+)\s+(.*)$/;
+  private static readonly LOCATION_PATTERN = /^; (.+):(\d+)$/;
+
+  static parse(output: string): DisassembledFunction[] {
+    const functions: DisassembledFunction[] = [];
+    let section = '';
+    let current: DisassembledFunction | null = null;
+    let location: { file: string; line: number } | null = null;
+
+    for (const line of output.split('\n')) {
+      const sectionMatch = line.match(this.SECTION_PATTERN);
+      if (sectionMatch) {
+        section = sectionMatch[1];
+        current = null;
+        continue;
+      }
+
+      const functionMatch = line.match(this.FUNCTION_PATTERN);
+      if (functionMatch) {
+        current = { name: functionMatch[2], section, address: parseInt(functionMatch[1], 16), size: 0, instructions: [] };
+        functions.push(current);
+        location = null;
+        continue;
+      }
+
+      if (!current) continue;
+
+      const locationMatch = line.match(this.LOCATION_PATTERN);
+      if (locationMatch) {
+        location = { file: this.normalizePath(locationMatch[1]), line: parseInt(locationMatch[2], 10) };
+        continue;
+      }
+
+      const relocationMatch = line.match(this.RELOCATION_PATTERN);
+      const previous = current.instructions[current.instructions.length - 1];
+      if (relocationMatch && previous) {
+        previous.relocations.push({
+          offset: parseInt(relocationMatch[1], 16),
+          type: relocationMatch[2],
+          symbol: relocationMatch[3].trim(),
+        });
+        continue;
+      }
+
+      const instructionMatch = line.match(this.INSTRUCTION_PATTERN);
+      if (instructionMatch) {
+        const instruction: DisassembledInstruction = {
+          address: parseInt(instructionMatch[1], 16),
+          bytes: instructionMatch[2].trim(),
+          instruction: instructionMatch[3].trim().replace(/\s+/g, ' '),
+          relocations: [],
+        };
+        if (location) {
+          instruction.file = location.file;
+          instruction.line = location.line;
+        }
+        current.instructions.push(instruction);
+        current.size = instruction.address + this.byteCount(instruction.bytes) - current.address;
+      }
+    }
+
+    return functions;
+  }
+
+  /**
+   * Encodings are printed as bytes (x86: "0f af ff") or, on some targets, as 16 or 32 bit words
+   */
+  private static byteCount(bytes: string): number {
+    return bytes.split(/\s+/).reduce((total, word) => total + word.length / 2, 0);
+  }
+
+  private static normalizePath(fullPath: string): string {
+    if (fullPath.startsWith('./')) {
+      return fullPath.substring(2);
+    }
+
+    // Headers outside the source tree are reported by file name only, as in assembly listings
+    if (fullPath.startsWith('/')) {
+      return fullPath.substring(fullPath.lastIndexOf('/') + 1);
+    }
+
+    return fullPath;
+  }
+}
\ No newline at end of file
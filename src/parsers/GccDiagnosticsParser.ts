@@ -0,0 +1,150 @@
+import type { DiagnosticMessage, FixIt } from '../types/index.js';
+
+/**
+ * Parses GCC's textual diagnostics (`-fno-diagnostics-show-caret -fdiagnostics-parseable-fixits`)
+ * into the structure read from Clang's serialized diagnostics. Notes, and the include and
+ * template instantiation context GCC prints before a diagnostic, become its children.
+ */
+export class GccDiagnosticsParser {
+  private static readonly DIAGNOSTIC_PATTERN =
+    /^(.+?):(?:(\d+):(?:(\d+):)?)? (fatal error|error|warning|note): (.*)$/;
+  private static readonly CONTEXT_PATTERN = /^(.+?):(\d+):(?:(\d+):)?\s+((?:required|recursively required) .*)$/;
+  private static readonly INSTANTIATION_PATTERN = /^(.+?): (In instantiation of .*):$/;
+  private static readonly INCLUDE_PATTERN = /^(?:In file included|\s+) from (.+?):(\d+)(?::(\d+))?[,:]$/;
+  private static readonly FUNCTION_PATTERN = /^(.+?): (In (?:member |static member )?function|At global scope|In lambda function|In constructor|In destructor)/;
+  private static readonly FIXIT_PATTERN = /^fix-it:"((?:[^"\\]|\\.)*)":\{(\d+):(\d+)-(\d+):(\d+)\}:"((?:[^"\\]|\\.)*)"$/;
+  private static readonly OPTION_PATTERN = / \[(-W[^\]\s]+)\]$/;
+  private static readonly DRIVER_PATTERN = /^(cc1|cc1plus|collect2|lto1|as|ld|gcc|g\+\+|c\+\+|cc)(-\d+(\.\d+)*)?$/;
+
+  static parse(stderr: string): DiagnosticMessage[] {
+    const diagnostics: DiagnosticMessage[] = [];
+    let parent: DiagnosticMessage | null = null;
+    let last: DiagnosticMessage | null = null;
+    // Context printed before the diagnostic it belongs to
+    let context: DiagnosticMessage[] = [];
+
+    for (const line of stderr.split('\n')) {
+      const fixItMatch = line.match(this.FIXIT_PATTERN);
+      if (fixItMatch) {
+        if (last) {
+          last.fixIts = [...(last.fixIts || []), this.createFixIt(fixItMatch)];
+        }
+        continue;
+      }
+
+      const includeMatch = line.match(this.INCLUDE_PATTERN);
+      if (includeMatch) {
+        context.push(this.createNote(includeMatch[1], includeMatch[2], includeMatch[3], 'in file included from here'));
+        continue;
+      }
+
+      if (this.FUNCTION_PATTERN.test(line)) {
+        continue;
+      }
+
+      const instantiationMatch = line.match(this.INSTANTIATION_PATTERN);
+      if (instantiationMatch) {
+        context.push(this.createNote(instantiationMatch[1], undefined, undefined, instantiationMatch[2]));
+        continue;
+      }
+
+      const contextMatch = line.match(this.CONTEXT_PATTERN);
+      if (contextMatch) {
+        context.push(this.createNote(contextMatch[1], contextMatch[2], contextMatch[3], contextMatch[4]));
+        continue;
+      }
+
+      const diagnosticMatch = line.match(this.DIAGNOSTIC_PATTERN);
+      if (!diagnosticMatch) {
+        continue;
+      }
+
+      const [, file, lineNumber, column, severity, text] = diagnosticMatch;
+      const diagnostic = this.createNote(file, lineNumber, column, text);
+      diagnostic.severity = severity === 'note' ? 'note' : severity === 'warning' ? 'warning' : 'error';
+
+      const optionMatch = text.match(this.OPTION_PATTERN);
+      if (optionMatch) {
+        diagnostic.message = text.slice(0, optionMatch.index);
+        // -Werror=unused-variable is reported like Clang's -Wunused-variable
+        diagnostic.option = optionMatch[1].replace(/^-Werror=/, '-W');
+      }
+
+      if (diagnostic.severity === 'note' && parent) {
+        parent.children = [...(parent.children || []), ...context, diagnostic];
+      } else {
+        if (context.length > 0) diagnostic.children = context;
+        diagnostics.push(diagnostic);
+        parent = diagnostic.severity === 'note' ? null : diagnostic;
+      }
+      context = [];
+      last = diagnostic;
+    }
+
+    return diagnostics;
+  }
+
+  private static createNote(
+    file: string,
+    line: string | undefined,
+    column: string | undefined,
+    message: string
+  ): DiagnosticMessage {
+    return {
+      // Driver and linker messages have no source location
+      file: this.DRIVER_PATTERN.test(file) ? undefined : this.normalizePath(file),
+      line: line ? parseInt(line, 10) : 0,
+      column: column ? parseInt(column, 10) : 0,
+      message,
+      severity: 'note',
+    };
+  }
+
+  private static createFixIt(match: RegExpMatchArray): FixIt {
+    const [, file, startLine, startColumn, endLine, endColumn, replacement] = match;
+    const normalizedFile = this.normalizePath(this.unescape(file));
+    return {
+      range: {
+        start: { file: normalizedFile, line: parseInt(startLine, 10), column: parseInt(startColumn, 10) },
+        end: { file: normalizedFile, line: parseInt(endLine, 10), column: parseInt(endColumn, 10) },
+      },
+      replacement: this.unescape(replacement),
+    };
+  }
+
+  /**
+   * Undo the C-style escaping of fix-it strings: \\, \", \n, \t and octal escapes for other
+   * non-printable bytes
+   */
+  private static unescape(text: string): string {
+    const bytes: number[] = [];
+    const escapes: Record<string, number> = { n: 0x0a, t: 0x09, '\\': 0x5c, '"': 0x22 };
+    const encoded = Buffer.from(text, 'utf8');
+
+    for (let index = 0; index < encoded.length; index++) {
+      const byte = encoded[index];
+      if (byte !== 0x5c || index + 1 >= encoded.length) {
+        bytes.push(byte);
+        continue;
+      }
+
+      const next = String.fromCharCode(encoded[index + 1]);
+      const octal = encoded.subarray(index + 1, index + 4).toString('latin1').match(/^[0-7]{3}/);
+      if (octal) {
+        bytes.push(parseInt(octal[0], 8));
+        index += 3;
+      } else if (escapes[next] !== undefined) {
+        bytes.push(escapes[next]);
+        index++;
+      } else {
+        bytes.push(byte);
+      }
+    }
+
+    return Buffer.from(bytes).toString('utf8');
+  }
+
+  private static normalizePath(filePath: string): string {
+    return filePath.startsWith('./') ? filePath.substring(2) : filePath;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,215 @@
+import type {
+  InstructionThroughput,
+  ResourcePressure,
+  ThroughputBottleneck,
+  ThroughputRegion
+} from '../types/index.js';
+
+type Section = 'info' | 'resources' | 'pressure' | 'instructionPressure' | null;
+
+/**
+ * Parses the default text report of `llvm-mca --bottleneck-analysis`: per code region the
+ * summary, the bottleneck analysis, instruction info and resource pressure views. Tables are
+ * read by their header columns, since flags such as MayLoad are blank when not set.
+ */
+export class McaOutputParser {
+  private static readonly REGION_PATTERN = /^\[\d+\] Code Region(?: - (.*))?$/;
+  private static readonly SUMMARY_PATTERN =
+    /^(Iterations|Instructions|Total Cycles|Total uOps|Dispatch Width|uOps Per Cycle|IPC|Block RThroughput):\s+([\d.]+)$/;
+  private static readonly BACKEND_PRESSURE_PATTERN = /^Cycles with backend pressure increase \[ ([\d.]+)% \]$/;
+  private static readonly BOTTLENECK_PATTERN = /^\s*(-\s+)?(.+?):?\s+\[ ([\d.]+)% \]$/;
+  private static readonly LEGEND_PATTERN = /^\[(\d+)\]: (.+)$/;
+  private static readonly RESOURCE_PATTERN = /^(\[\d+(?:\.\d+)?\])\s+- (\S+)/;
+  private static readonly COLUMN_PATTERN = /\[[\d.]+\]/g;
+
+  private static readonly SECTIONS: Record<string, Section> = {
+    'Instruction Info:': 'info',
+    'Resources:': 'resources',
+    'Resource pressure per iteration:': 'pressure',
+    'Resource pressure by instruction:': 'instructionPressure',
+  };
+
+  static parse(output: string): ThroughputRegion[] {
+    // Reports with LLVM-MCA-BEGIN/END markers have a header per region, others are one region
+    const chunks: Array<{ name: string | null; lines: string[] }> = [];
+    for (const line of output.split('\n')) {
+      const regionMatch = line.match(this.REGION_PATTERN);
+      if (regionMatch) {
+        chunks.push({ name: regionMatch[1] ?? null, lines: [] });
+      } else if (chunks.length === 0) {
+        chunks.push({ name: null, lines: [line] });
+      } else {
+        chunks[chunks.length - 1].lines.push(line);
+      }
+    }
+
+    return chunks
+      .filter((chunk) => chunk.lines.some((line) => this.SUMMARY_PATTERN.test(line)))
+      .map((chunk) => this.parseRegion(chunk.name, chunk.lines));
+  }
+
+  private static parseRegion(name: string | null, lines: string[]): ThroughputRegion {
+    const summary = new Map<string, number>();
+    let bottleneck: ThroughputBottleneck | null = null;
+    let inResourceBottlenecks = false;
+    const infoColumns = new Map<string, number>(); // Legend name to column number
+    const resourceNames = new Map<string, string>(); // Column label to resource
+    const instructions: InstructionThroughput[] = [];
+    let resourcePressure: ResourcePressure[] = [];
+    let section: Section = null;
+    let header: string | null = null;
+    let pressureRow = 0;
+
+    for (const line of lines) {
+      const title = line.trim();
+      if (title in this.SECTIONS) {
+        section = this.SECTIONS[title];
+        header = null;
+        continue;
+      }
+      if (title === '') {
+        // A blank line ends a table, not the section of the legend before it
+        if (header) section = null;
+        continue;
+      }
+      if (title.endsWith(':') && !title.startsWith('[')) {
+        section = null;
+      }
+
+      const summaryMatch = line.match(this.SUMMARY_PATTERN);
+      if (summaryMatch) {
+        summary.set(summaryMatch[1], parseFloat(summaryMatch[2]));
+        continue;
+      }
+
+      const backendMatch = line.match(this.BACKEND_PRESSURE_PATTERN);
+      if (backendMatch) {
+        bottleneck = {
+          backendPressure: parseFloat(backendMatch[1]),
+          resourcePressure: 0,
+          resources: [],
+          registerDependencies: 0,
+          memoryDependencies: 0,
+        };
+        continue;
+      }
+
+      const bottleneckMatch = bottleneck && section === null ? line.match(this.BOTTLENECK_PATTERN) : null;
+      if (bottleneck && bottleneckMatch) {
+        const [, listed, label, percentText] = bottleneckMatch;
+        const percent = parseFloat(percentText);
+        if (label === 'Resource Pressure') {
+          bottleneck.resourcePressure = percent;
+          inResourceBottlenecks = true;
+        } else if (label === 'Data Dependencies') {
+          inResourceBottlenecks = false;
+        } else if (label === 'Register Dependencies') {
+          bottleneck.registerDependencies = percent;
+        } else if (label === 'Memory Dependencies') {
+          bottleneck.memoryDependencies = percent;
+        } else if (listed && inResourceBottlenecks) {
+          bottleneck.resources.push({ resource: label, percent });
+        }
+        continue;
+      }
+
+      switch (section) {
+        case 'info': {
+          const legendMatch = line.match(this.LEGEND_PATTERN);
+          if (legendMatch) {
+            infoColumns.set(legendMatch[2], parseInt(legendMatch[1], 10));
+          } else if (!header) {
+            header = line;
+          } else {
+            instructions.push(this.parseInstructionInfo(line, header, infoColumns));
+          }
+          break;
+        }
+        case 'resources': {
+          const resourceMatch = line.match(this.RESOURCE_PATTERN);
+          if (resourceMatch) {
+            resourceNames.set(resourceMatch[1], resourceMatch[2]);
+          }
+          break;
+        }
+        case 'pressure':
+          if (!header) {
+            header = line;
+          } else {
+            resourcePressure = this.parsePressure(line, header, resourceNames)
+              .sort((a, b) => b.cycles - a.cycles);
+          }
+          break;
+        case 'instructionPressure':
+          if (!header) {
+            header = line;
+          } else if (pressureRow < instructions.length) {
+            instructions[pressureRow++].resources = this.parsePressure(line, header, resourceNames);
+          }
+          break;
+      }
+    }
+
+    const value = (key: string): number => summary.get(key) ?? 0;
+    return {
+      name,
+      iterations: value('Iterations'),
+      instructions: value('Instructions'),
+      totalCycles: value('Total Cycles'),
+      totalUops: value('Total uOps'),
+      dispatchWidth: value('Dispatch Width'),
+      uopsPerCycle: value('uOps Per Cycle'),
+      ipc: value('IPC'),
+      blockRThroughput: value('Block RThroughput'),
+      bottleneck,
+      resourcePressure,
+      instructionInfo: instructions,
+    };
+  }
+
+  /**
+   * A row of the instruction info view; each legend column is the text below its `[n]` header
+   */
+  private static parseInstructionInfo(
+    line: string,
+    header: string,
+    columns: Map<string, number>
+  ): InstructionThroughput {
+    const cell = (legend: string): string => {
+      const column = columns.get(legend);
+      if (column === undefined) return '';
+      const start = header.indexOf(`[${column}]`);
+      const next = header.indexOf('[', start + 1);
+      return line.substring(start, next === -1 ? header.indexOf('Instructions:') : next).trim();
+    };
+    const number = (legend: string): number => parseFloat(cell(legend)) || 0;
+
+    return {
+      instruction: this.getInstruction(line, header),
+      uops: number('#uOps'),
+      latency: number('Latency'),
+      reciprocalThroughput: number('RThroughput'),
+      mayLoad: cell('MayLoad') !== '',
+      mayStore: cell('MayStore') !== '',
+      hasSideEffects: cell('HasSideEffects (U)') !== '',
+      resources: [],
+    };
+  }
+
+  /**
+   * A row of a resource pressure view: one value or `-` per resource column, busy resources only
+   */
+  private static parsePressure(line: string, header: string, resourceNames: Map<string, string>): ResourcePressure[] {
+    const labels = header.match(this.COLUMN_PATTERN) || [];
+    const values = line.trim().split(/\s+/).slice(0, labels.length);
+
+    return labels.flatMap((label, index) => {
+      const cycles = parseFloat(values[index]);
+      return cycles > 0 ? [{ resource: resourceNames.get(label) || label, cycles }] : [];
+    });
+  }
+
+  private static getInstruction(line: string, header: string): string {
+    return line.substring(header.indexOf('Instructions:')).trim().replace(/\s+/g, ' ');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,117 @@
+import type { PassInfo, PassKind } from '../types/index.js';
+
+export interface PassDump {
+  pass: string;
+  unit: string;
+  ir: string;
+}
+
+export interface ChangedPasses {
+  initial: string; // The module before the first pass
+  dumps: PassDump[]; // The module after each pass that changed it, in order
+  passesRun: number;
+  messages: string; // Anything outside the dumps, such as errors
+}
+
+/**
+ * Parses the output of LLVM's `opt`: the pass registry printed by `-print-passes`, and the
+ * IR dumps `-print-changed -print-module-scope` writes to stderr before and after every pass
+ */
+export class OptOutputParser {
+  private static readonly SECTION_PATTERN =
+    /^(Module|CGSCC|Function|LoopNest|Loop) (passes|passes with params|analyses|alias analyses):$/;
+  private static readonly PARAMETERIZED_PATTERN = /^([\w.-]+)<(.*)>$/;
+  private static readonly HEADER_PATTERN =
+    /^\*\*\* IR (?:Dump At Start|Dump After (.+?) on (.+?)( omitted because no change| filtered out)?|Deleted After (.+?) on (.+?)|Pass .+ (?:ignored|filtered out)) \*\*\*$/;
+  // Diagnostics and crash reports of opt, e.g. "opt: warning: ..."; no IR line starts like these
+  private static readonly MESSAGE_PATTERN =
+    /^(?:(?:\S+: )*(?:error|warning|note|remark): |LLVM ERROR: |PLEASE submit a bug report|Stack dump:)/;
+
+  private static readonly KINDS: Record<string, PassKind> = {
+    Module: 'module',
+    CGSCC: 'cgscc',
+    Function: 'function',
+    LoopNest: 'loop-nest',
+    Loop: 'loop',
+  };
+
+  static parsePasses(output: string): PassInfo[] {
+    const passes: PassInfo[] = [];
+    let section: RegExpMatchArray | null = null;
+
+    for (const line of output.split('\n')) {
+      const sectionMatch = line.match(this.SECTION_PATTERN);
+      if (sectionMatch) {
+        section = sectionMatch;
+        continue;
+      }
+
+      const entry = line.trim();
+      if (!section || !line.startsWith(' ') || entry === '') {
+        continue;
+      }
+
+      const [, kind, category] = section;
+      const pass: PassInfo = { name: entry, kind: this.KINDS[kind], analysis: category.includes('analyses') };
+      // Parameter lists are printed as name<first;second>; other names may contain brackets (print<domtree>)
+      const parameterMatch = category === 'passes with params' ? entry.match(this.PARAMETERIZED_PATTERN) : null;
+      if (parameterMatch) {
+        pass.name = parameterMatch[1];
+        pass.parameters = parameterMatch[2].split(';').filter(Boolean);
+      }
+      passes.push(pass);
+    }
+
+    return passes;
+  }
+
+  static parseChanges(stderr: string): ChangedPasses {
+    const result: ChangedPasses = { initial: '', dumps: [], passesRun: 0, messages: '' };
+    // The dump the lines after the latest header belong to, if any
+    let target: PassDump | 'initial' | null = null;
+    let lines: string[] = [];
+    const messages: string[] = [];
+
+    const flush = (): void => {
+      const text = lines.join('\n').trim();
+      if (target === 'initial') {
+        result.initial = text;
+      } else if (target) {
+        target.ir = text;
+      }
+      lines = [];
+    };
+
+    for (const line of stderr.split('\n')) {
+      const headerMatch = line.match(this.HEADER_PATTERN);
+      if (!headerMatch) {
+        // A message ends the dump; the lines up to the next header belong to it
+        if (target && this.MESSAGE_PATTERN.test(line)) {
+          flush();
+          target = null;
+        }
+        (target ? lines : messages).push(line);
+        continue;
+      }
+
+      flush();
+      const [, pass, unit, skipped, deletedPass] = headerMatch;
+      target = null;
+
+      if (line.startsWith('*** IR Dump At Start')) {
+        target = 'initial';
+      } else if (pass && !skipped) {
+        const dump: PassDump = { pass, unit, ir: '' };
+        result.dumps.push(dump);
+        result.passesRun++;
+        target = dump;
+      } else if (skipped === ' omitted because no change' || deletedPass) {
+        result.passesRun++;
+      }
+    }
+
+    flush();
+    result.messages = messages.join('\n').trim();
+    return result;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,158 @@
+import type { OptimizationRemark, OptimizationRemarkGroup, RemarkKind } from '../types/index.js';
+
+interface RemarkDocument {
+  tag: string;
+  fields: Record<string, string>;
+  args: string[];
+}
+
+/**
+ * Reads the YAML optimization records written by `clang -fsave-optimization-record`. The
+ * remark serializer only emits a small subset of YAML: one tagged mapping per remark, flow
+ * mappings for debug locations and a sequence of single-key mappings whose values, joined
+ * in order, form the message that `-Rpass` would print.
+ */
+export class OptimizationRemarkParser {
+  private static readonly KINDS: Record<string, RemarkKind | undefined> = {
+    Passed: 'passed',
+    Missed: 'missed',
+    Analysis: 'analysis',
+    AnalysisFPCommute: 'analysis',
+    AnalysisAliasing: 'analysis',
+    Failure: 'failure',
+  };
+
+  private static readonly DOCUMENT_START_PATTERN = /^--- !(\w+)\s*$/;
+  private static readonly FIELD_PATTERN = /^(\w+):(?:\s+(.*))?$/;
+  private static readonly ARGUMENT_PATTERN = /^ {2}- (\w+):(?:\s+(.*))?$/;
+  private static readonly FLOW_ENTRY_PATTERN = /(\w+):\s*('(?:[^']|'')*'|"(?:[^"\\]|\\.)*"|[^,}]*)/g;
+
+  static parse(yaml: string): OptimizationRemark[] {
+    const documents: RemarkDocument[] = [];
+    let document: RemarkDocument | null = null;
+
+    for (const line of yaml.split('\n')) {
+      const startMatch = line.match(this.DOCUMENT_START_PATTERN);
+      if (startMatch) {
+        document = { tag: startMatch[1], fields: {}, args: [] };
+        documents.push(document);
+        continue;
+      }
+
+      if (!document) continue;
+
+      if (line.trimEnd() === '...') {
+        document = null;
+        continue;
+      }
+
+      // Arguments may carry their own location on an indented line, which is not needed here
+      const argumentMatch = line.match(this.ARGUMENT_PATTERN);
+      if (argumentMatch) {
+        document.args.push(this.parseScalar(argumentMatch[2] || ''));
+        continue;
+      }
+
+      const fieldMatch = line.match(this.FIELD_PATTERN);
+      if (fieldMatch) {
+        document.fields[fieldMatch[1]] = (fieldMatch[2] || '').trim();
+      }
+    }
+
+    return documents
+      .map((entry) => this.createRemark(entry))
+      .filter((remark): remark is OptimizationRemark => remark !== null);
+  }
+
+  /**
+   * Group remarks by the source line they refer to, in file and line order; remarks without
+   * a location come last
+   */
+  static groupByLine(remarks: OptimizationRemark[]): OptimizationRemarkGroup[] {
+    const groups = new Map<string, OptimizationRemarkGroup>();
+    for (const remark of remarks) {
+      const key = remark.file !== undefined ? `${remark.file}:${remark.line}` : '';
+      let group = groups.get(key);
+      if (!group) {
+        group = remark.file !== undefined ? { file: remark.file, line: remark.line, remarks: [] } : { remarks: [] };
+        groups.set(key, group);
+      }
+      group.remarks.push(remark);
+    }
+
+    for (const group of groups.values()) {
+      group.remarks.sort((a, b) => (a.column || 0) - (b.column || 0));
+    }
+
+    return [...groups.values()].sort((a, b) => {
+      if (a.file === undefined || b.file === undefined) {
+        return (a.file === undefined ? 1 : 0) - (b.file === undefined ? 1 : 0);
+      }
+      return a.file.localeCompare(b.file) || (a.line || 0) - (b.line || 0);
+    });
+  }
+
+  private static createRemark(document: RemarkDocument): OptimizationRemark | null {
+    const kind = this.KINDS[document.tag];
+    if (!kind) {
+      return null;
+    }
+
+    const remark: OptimizationRemark = {
+      kind,
+      pass: this.parseScalar(document.fields.Pass || ''),
+      name: this.parseScalar(document.fields.Name || ''),
+      function: this.parseScalar(document.fields.Function || ''),
+      message: document.args.join(''),
+    };
+
+    if (document.fields.DebugLoc) {
+      const location = this.parseFlowMapping(document.fields.DebugLoc);
+      if (location.File) {
+        remark.file = this.normalizePath(location.File);
+        remark.line = parseInt(location.Line, 10) || 0;
+        remark.column = parseInt(location.Column, 10) || 0;
+      }
+    }
+
+    if (document.fields.Hotness) {
+      remark.hotness = parseInt(document.fields.Hotness, 10);
+    }
+
+    return remark;
+  }
+
+  private static parseFlowMapping(value: string): Record<string, string> {
+    const mapping: Record<string, string> = {};
+    const inner = value.replace(/^\{/, '').replace(/\}$/, '');
+    for (const match of inner.matchAll(this.FLOW_ENTRY_PATTERN)) {
+      mapping[match[1]] = this.parseScalar(match[2]);
+    }
+    return mapping;
+  }
+
+  private static parseScalar(value: string): string {
+    const trimmed = value.trim();
+    if (trimmed.length >= 2 && trimmed.startsWith("'") && trimmed.endsWith("'")) {
+      return trimmed.slice(1, -1).replace(/''/g, "'");
+    }
+    if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+      return this.unescapeDoubleQuoted(trimmed.slice(1, -1));
+    }
+    return trimmed;
+  }
+
+  private static unescapeDoubleQuoted(value: string): string {
+    const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '0': '\0', '"': '"', '\\': '\\', '/': '/' };
+    return value.replace(/\\(x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|.)/g, (_, escape: string) => {
+      if (escape.length > 1) {
+        return String.fromCharCode(parseInt(escape.substring(1), 16));
+      }
+      return escapes[escape] ?? escape;
+    });
+  }
+
+  private static normalizePath(filePath: string): string {
+    return filePath.startsWith('./') ? filePath.substring(2) : filePath;
+  }
+}
\ No newline at end of file
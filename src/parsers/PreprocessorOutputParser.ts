@@ -0,0 +1,89 @@
+import type { MacroDefinition } from '../types/index.js';
+
+export interface PreprocessedOutput {
+  text: string;
+  macros: MacroDefinition[];
+}
+
+/**
+ * Splits `clang -E -dD` output into the expanded translation unit and the history of macro
+ * definitions. Line markers (`# 12 "file.h" 1 3`) tell where each directive came from, which
+ * separates user macros from the compiler's built-ins and system headers.
+ */
+export class PreprocessorOutputParser {
+  private static readonly LINE_MARKER_PATTERN = /^# (\d+) "((?:[^"\\]|\\.)*)"(?: [1-4])*$/;
+  private static readonly DEFINE_PATTERN = /^#define ([A-Za-z_][A-Za-z0-9_]*)(\(([^)]*)\))?(?: (.*))?$/;
+  private static readonly UNDEF_PATTERN = /^#undef ([A-Za-z_][A-Za-z0-9_]*)$/;
+
+  static parse(output: string, keepLineMarkers: boolean = false): PreprocessedOutput {
+    const text: string[] = [];
+    const macros: MacroDefinition[] = [];
+    let file = '';
+    let line = 1;
+
+    for (const rawLine of output.split('\n')) {
+      const markerMatch = rawLine.match(this.LINE_MARKER_PATTERN);
+      if (markerMatch) {
+        line = parseInt(markerMatch[1], 10);
+        file = this.normalizePath(markerMatch[2].replace(/\\(.)/g, '$1'));
+        if (keepLineMarkers) text.push(rawLine);
+        continue;
+      }
+
+      const defineMatch = rawLine.match(this.DEFINE_PATTERN);
+      if (defineMatch) {
+        const [, name, functionLike, parameters, body] = defineMatch;
+        const macro: MacroDefinition = { name, body: (body || '').trim(), file, line };
+        if (functionLike) {
+          macro.parameters = parameters ? parameters.split(',').map((parameter) => parameter.trim()) : [];
+        }
+        macros.push(macro);
+      } else {
+        const undefMatch = rawLine.match(this.UNDEF_PATTERN);
+        if (undefMatch) {
+          macros.push({ name: undefMatch[1], body: '', file, line, undefined: true });
+        } else {
+          text.push(rawLine);
+        }
+      }
+
+      line++;
+    }
+
+    let expanded = text.join('\n');
+    if (!keepLineMarkers) {
+      // Without markers the blank lines that kept line numbers in sync carry no information
+      expanded = expanded.replace(/\n([ \t]*\n){2,}/g, '\n\n').trim();
+    }
+
+    return { text: expanded, macros };
+  }
+
+  /**
+   * Macros still defined at the end of the translation unit, in order of their last definition
+   */
+  static finalMacros(history: MacroDefinition[]): MacroDefinition[] {
+    const defined = new Map<string, MacroDefinition>();
+    for (const macro of history) {
+      defined.delete(macro.name);
+      if (!macro.undefined) {
+        defined.set(macro.name, macro);
+      }
+    }
+    return [...defined.values()];
+  }
+
+  /**
+   * Defined in the source tree or with -D, rather than by the compiler or a system header
+   */
+  static isUserMacro(macro: MacroDefinition): boolean {
+    if (macro.file === '<command line>') {
+      return true;
+    }
+    return macro.file !== '' && !macro.file.startsWith('<') && !macro.file.startsWith('/');
+  }
+
+  private static normalizePath(filePath: string): string {
+    return filePath.startsWith('./') ? filePath.substring(2) : filePath;
+  }
+}
\ No newline at end of file
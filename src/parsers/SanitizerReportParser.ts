@@ -0,0 +1,242 @@
+import type { SanitizerKind, SanitizerReport, StackFrame } from '../types/index.js';
+
+/**
+ * Parses AddressSanitizer, UndefinedBehaviorSanitizer, ThreadSanitizer, LeakSanitizer and
+ * MemorySanitizer reports from a program's stderr into typed objects.
+ */
+export class SanitizerReportParser {
+  private static readonly SANITIZER_NAMES: Record<string, SanitizerKind> = {
+    AddressSanitizer: 'address',
+    LeakSanitizer: 'leak',
+    ThreadSanitizer: 'thread',
+    MemorySanitizer: 'memory',
+    UndefinedBehaviorSanitizer: 'undefined',
+  };
+
+  // Maps UBSan runtime error messages to the -fsanitize check that produced them
+  private static readonly UBSAN_KINDS: Array<[RegExp, string]> = [
+    [/^signed integer overflow/, 'signed-integer-overflow'],
+    [/^unsigned integer overflow/, 'unsigned-integer-overflow'],
+    [/division by zero/, 'integer-divide-by-zero'],
+    [/^(shift exponent|left shift of)/, 'shift'],
+    [/out of bounds for type/, 'array-bounds'],
+    [/null pointer/, 'null'],
+    [/misaligned address/, 'alignment'],
+    [/outside the range of representable values/, 'float-cast-overflow'],
+    [/is not a valid value for type/, 'invalid-value'],
+    [/reached the end of a value-returning function/, 'return'],
+    [/reached an unreachable program point/, 'unreachable'],
+    [/(pointer overflow|applying (non-)?zero offset)/, 'pointer-overflow'],
+    [/^(member call on|member access within|downcast of|upcast of)/, 'vptr'],
+    [/variable length array bound/, 'vla-bound'],
+    [/^passing zero to/, 'builtin'],
+  ];
+
+  private static readonly ERROR_PATTERN =
+    /^(?:==\d+==)?(?:ERROR|WARNING): (AddressSanitizer|LeakSanitizer|ThreadSanitizer|MemorySanitizer): (.+)$/;
+  private static readonly UBSAN_PATTERN = /^(.+?):(\d+):(\d+): runtime error: (.+)$/;
+  private static readonly LEAK_PATTERN =
+    /^(Direct|Indirect) leak of (\d+) byte\(s\) in (\d+) object\(s\) allocated from:$/;
+  private static readonly FRAME_PATTERN = /^#(\d+)\s+(.*)$/;
+  private static readonly ASAN_ACCESS_PATTERN = /^(READ|WRITE) of size (\d+) at (0x[0-9a-fA-F]+)/;
+  private static readonly TSAN_ACCESS_PATTERN =
+    /^(Previous )?(?:[Aa]tomic )?([Rr]ead|[Ww]rite) of size (\d+) at (0x[0-9a-fA-F]+) by (.+):$/;
+  private static readonly FREED_PATTERN = /^freed by thread .* here:$/;
+  private static readonly ALLOCATED_PATTERN =
+    /^((previously )?allocated by thread .* here:|Uninitialized value was created by .*)$/;
+
+  static parse(stderr: string): SanitizerReport[] {
+    if (!stderr) {
+      return [];
+    }
+
+    const reports: SanitizerReport[] = [];
+    let current: SanitizerReport | null = null;
+    let frames: StackFrame[] | null = null;
+    // LeakSanitizer prints one header followed by a section per leak
+    let inLeakReport = false;
+
+    for (const rawLine of stderr.split('\n')) {
+      const line = rawLine.trim();
+      if (!line || /^=+$/.test(line)) continue;
+
+      const errorMatch = line.match(this.ERROR_PATTERN);
+      if (errorMatch) {
+        const [, sanitizerName, headline] = errorMatch;
+        if (sanitizerName === 'LeakSanitizer' && headline.startsWith('detected memory leaks')) {
+          inLeakReport = true;
+          current = null;
+          frames = null;
+          continue;
+        }
+
+        inLeakReport = false;
+        current = this.createReport(this.SANITIZER_NAMES[sanitizerName], headline);
+        reports.push(current);
+        frames = current.stack;
+        continue;
+      }
+
+      const ubsanMatch = line.match(this.UBSAN_PATTERN);
+      if (ubsanMatch) {
+        const [, file, lineNumber, column, message] = ubsanMatch;
+        inLeakReport = false;
+        current = {
+          sanitizer: 'undefined',
+          kind: this.classifyUndefinedBehavior(message),
+          message,
+          file: this.normalizePath(file),
+          line: parseInt(lineNumber, 10),
+          column: parseInt(column, 10),
+          stack: [],
+        };
+        reports.push(current);
+        frames = current.stack;
+        continue;
+      }
+
+      const leakMatch = inLeakReport ? line.match(this.LEAK_PATTERN) : null;
+      if (leakMatch) {
+        const [, leakType, bytes, objects] = leakMatch;
+        current = {
+          sanitizer: 'leak',
+          kind: `${leakType.toLowerCase()}-leak`,
+          message: `${leakType} leak of ${bytes} byte(s) in ${objects} object(s)`,
+          leakedBytes: parseInt(bytes, 10),
+          stack: [],
+        };
+        reports.push(current);
+        frames = current.stack;
+        continue;
+      }
+
+      if (line.startsWith('SUMMARY:')) {
+        current = null;
+        frames = null;
+        continue;
+      }
+
+      if (!current) continue;
+
+      const frameMatch = line.match(this.FRAME_PATTERN);
+      if (frameMatch) {
+        frames?.push(this.parseFrame(parseInt(frameMatch[1], 10), frameMatch[2]));
+        if (current.file === undefined && frames === current.stack) {
+          const userFrame = current.stack.find((frame) => frame.file && frame.line);
+          current.file = userFrame?.file;
+          current.line = userFrame?.line;
+          current.column = userFrame?.column;
+        }
+        continue;
+      }
+
+      frames = this.handleSectionLine(current, line) ?? frames;
+    }
+
+    return reports;
+  }
+
+  /**
+   * Interpret a non-frame line inside a report; returns the stack that following frames belong to
+   */
+  private static handleSectionLine(report: SanitizerReport, line: string): StackFrame[] | null {
+    const asanAccess = line.match(this.ASAN_ACCESS_PATTERN);
+    if (asanAccess) {
+      report.accessType = asanAccess[1] === 'READ' ? 'read' : 'write';
+      report.accessSize = parseInt(asanAccess[2], 10);
+      report.address = asanAccess[3];
+      return report.stack;
+    }
+
+    const tsanAccess = line.match(this.TSAN_ACCESS_PATTERN);
+    if (tsanAccess && !tsanAccess[1] && report.accessType === undefined) {
+      report.accessType = tsanAccess[2].toLowerCase() === 'read' ? 'read' : 'write';
+      report.accessSize = parseInt(tsanAccess[3], 10);
+      report.address = tsanAccess[4];
+      return report.stack;
+    }
+
+    if (this.FREED_PATTERN.test(line)) {
+      report.freeStack = [];
+      return report.freeStack;
+    }
+
+    if (this.ALLOCATED_PATTERN.test(line)) {
+      report.allocationStack = [];
+      return report.allocationStack;
+    }
+
+    if (/ is located /.test(line) || line.startsWith('Location is ')) {
+      report.description = line;
+      return null;
+    }
+
+    // Any other section header (previous access, thread creation, ...) introduces a related stack
+    if (line.endsWith(':')) {
+      const related = { description: line.slice(0, -1), frames: [] as StackFrame[] };
+      report.relatedStacks = [...(report.relatedStacks || []), related];
+      return related.frames;
+    }
+
+    return null;
+  }
+
+  private static createReport(sanitizer: SanitizerKind, headline: string): SanitizerReport {
+    // e.g. "heap-buffer-overflow on address 0x602000000014 at pc ..." or "data race (pid=42)"
+    const kind = headline
+      .replace(/^attempting /, '')
+      .split(/ on (unknown )?address | on 0x| \(pid=|:| in thread/)[0]
+      .trim()
+      .toLowerCase()
+      .replace(/\s+/g, '-');
+    const addressMatch = headline.match(/address (0x[0-9a-fA-F]+)|on (0x[0-9a-fA-F]+)/);
+
+    return {
+      sanitizer,
+      kind,
+      message: headline.replace(/\s*\(pid=\d+\)/, '').replace(/ at pc 0x.*$/, ''),
+      address: addressMatch ? addressMatch[1] || addressMatch[2] : undefined,
+      stack: [],
+    };
+  }
+
+  private static parseFrame(index: number, text: string): StackFrame {
+    const frame: StackFrame = { index };
+    let rest = text;
+
+    // ASan/UBSan: "0x4f5a1c in main source.cpp:5:10"
+    const addressMatch = rest.match(/^(0x[0-9a-fA-F]+)(?:\s+in\s+|\s+|$)/);
+    if (addressMatch) {
+      frame.address = addressMatch[1];
+      rest = rest.substring(addressMatch[0].length);
+    }
+
+    // Trailing "(module+0x1234)" for frames without or alongside debug info
+    const moduleMatch = rest.match(/\s*\(([^()]+)\+0x[0-9a-fA-F]+\)$/);
+    if (moduleMatch) {
+      frame.module = this.normalizePath(moduleMatch[1]);
+      rest = rest.substring(0, rest.length - moduleMatch[0].length);
+    }
+
+    const locationMatch = rest.match(/^(.*?)\s+(\S+?):(\d+)(?::(\d+))?$/);
+    if (locationMatch) {
+      frame.function = locationMatch[1] || undefined;
+      frame.file = this.normalizePath(locationMatch[2]);
+      frame.line = parseInt(locationMatch[3], 10);
+      frame.column = locationMatch[4] ? parseInt(locationMatch[4], 10) : undefined;
+    } else if (rest) {
+      frame.function = rest;
+    }
+
+    return frame;
+  }
+
+  private static classifyUndefinedBehavior(message: string): string {
+    const match = this.UBSAN_KINDS.find(([pattern]) => pattern.test(message));
+    return match ? match[1] : 'undefined-behavior';
+  }
+
+  private static normalizePath(filePath: string): string {
+    return filePath.startsWith('./') ? filePath.substring(2) : filePath;
+  }
+}
\ No newline at end of file
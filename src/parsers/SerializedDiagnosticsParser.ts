@@ -0,0 +1,358 @@
+import type { DiagnosticMessage, FixIt, SourceLocation, SourceRange } from '../types/index.js';
+
+// LLVM bitstream abbreviation operand, see llvm/Bitstream/BitCodes.h
+type AbbreviationOperand =
+  | { kind: 'literal'; value: number }
+  | { kind: 'fixed' | 'vbr'; width: number }
+  | { kind: 'array' | 'char6' | 'blob' };
+
+interface BitstreamRecord {
+  code: number;
+  fields: number[];
+  blob?: Buffer;
+}
+
+const CHAR6_ALPHABET = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789._';
+
+/**
+ * Minimal reader for the LLVM bitstream container used by Clang's serialized diagnostics
+ */
+class BitstreamCursor {
+  private position = 0;
+
+  constructor(private readonly data: Buffer, startByte: number) {
+    this.position = startByte * 8;
+  }
+
+  atEnd(): boolean {
+    return this.position >= this.data.length * 8;
+  }
+
+  readBits(width: number): number {
+    if (this.position + width > this.data.length * 8) {
+      throw new Error('Unexpected end of serialized diagnostics');
+    }
+
+    // Values may exceed 32 bits (file sizes, timestamps), so avoid bitwise arithmetic
+    let value = 0;
+    for (let bit = 0; bit < width; bit++) {
+      const byte = this.data[this.position >> 3];
+      if ((byte >> (this.position & 7)) & 1) {
+        value += 2 ** bit;
+      }
+      this.position++;
+    }
+    return value;
+  }
+
+  readVBR(width: number): number {
+    const continuation = 2 ** (width - 1);
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const chunk = this.readBits(width);
+      value += (chunk % continuation) * scale;
+      if (chunk < continuation) return value;
+      scale *= continuation;
+    }
+  }
+
+  alignTo32Bits(): void {
+    this.position = Math.ceil(this.position / 32) * 32;
+  }
+
+  readAbbreviation(): AbbreviationOperand[] {
+    const operands: AbbreviationOperand[] = [];
+    const count = this.readVBR(5);
+    for (let i = 0; i < count; i++) {
+      if (this.readBits(1)) {
+        operands.push({ kind: 'literal', value: this.readVBR(8) });
+        continue;
+      }
+
+      const encoding = this.readBits(3);
+      switch (encoding) {
+        case 1:
+          operands.push({ kind: 'fixed', width: this.readVBR(5) });
+          break;
+        case 2:
+          operands.push({ kind: 'vbr', width: this.readVBR(5) });
+          break;
+        case 3:
+          operands.push({ kind: 'array' });
+          break;
+        case 4:
+          operands.push({ kind: 'char6' });
+          break;
+        case 5:
+          operands.push({ kind: 'blob' });
+          break;
+        default:
+          throw new Error(`Unknown abbreviation encoding: ${encoding}`);
+      }
+    }
+    return operands;
+  }
+
+  readRecord(abbreviationId: number, abbreviations: AbbreviationOperand[][]): BitstreamRecord {
+    if (abbreviationId === 3) {
+      // UNABBREV_RECORD: code, operand count and operands as VBR6
+      const code = this.readVBR(6);
+      const count = this.readVBR(6);
+      const fields: number[] = [];
+      for (let i = 0; i < count; i++) {
+        fields.push(this.readVBR(6));
+      }
+      return { code, fields };
+    }
+
+    const operands = abbreviations[abbreviationId - 4];
+    if (!operands) {
+      throw new Error(`Unknown abbreviation id: ${abbreviationId}`);
+    }
+
+    const values: number[] = [];
+    let blob: Buffer | undefined;
+    for (let i = 0; i < operands.length; i++) {
+      const operand = operands[i];
+      if (operand.kind === 'array') {
+        const elementOperand = operands[++i];
+        const length = this.readVBR(6);
+        for (let element = 0; element < length; element++) {
+          values.push(this.readScalar(elementOperand));
+        }
+      } else if (operand.kind === 'blob') {
+        const length = this.readVBR(6);
+        this.alignTo32Bits();
+        const start = this.position >> 3;
+        blob = this.data.subarray(start, start + length);
+        this.position += length * 8;
+        this.alignTo32Bits();
+      } else {
+        values.push(this.readScalar(operand));
+      }
+    }
+
+    return { code: values[0], fields: values.slice(1), blob };
+  }
+
+  private readScalar(operand: AbbreviationOperand): number {
+    switch (operand.kind) {
+      case 'literal':
+        return operand.value;
+      case 'fixed':
+        return this.readBits(operand.width);
+      case 'vbr':
+        return this.readVBR(operand.width);
+      case 'char6':
+        return CHAR6_ALPHABET.charCodeAt(this.readBits(6));
+      default:
+        throw new Error(`Invalid array element encoding: ${operand.kind}`);
+    }
+  }
+}
+
+/**
+ * Decodes the `.dia` files written by `clang --serialize-diagnostics`. Unlike the textual
+ * output they keep source ranges, the warning option, the category, and attach notes
+ * (including include, macro and template backtraces) to the diagnostic they belong to.
+ */
+export class SerializedDiagnosticsParser {
+  private static readonly MAGIC = 'DIAG';
+  private static readonly TOP_LEVEL_ABBREVIATION_WIDTH = 2;
+
+  // Standard abbreviation ids
+  private static readonly END_BLOCK = 0;
+  private static readonly ENTER_SUBBLOCK = 1;
+  private static readonly DEFINE_ABBREV = 2;
+
+  // Block ids, see clang/Frontend/SerializedDiagnostics.h
+  private static readonly BLOCKINFO_BLOCK = 0;
+  private static readonly DIAG_BLOCK = 9;
+
+  // Record codes
+  private static readonly BLOCKINFO_SETBID = 1;
+  private static readonly RECORD_DIAG = 2;
+  private static readonly RECORD_SOURCE_RANGE = 3;
+  private static readonly RECORD_DIAG_FLAG = 4;
+  private static readonly RECORD_CATEGORY = 5;
+  private static readonly RECORD_FILENAME = 6;
+  private static readonly RECORD_FIXIT = 7;
+
+  private static readonly SEVERITIES: Record<number, DiagnosticMessage['severity'] | undefined> = {
+    1: 'note',
+    2: 'warning',
+    3: 'error',
+    4: 'error', // fatal
+    5: 'note', // remark
+  };
+
+  static parse(data: Buffer): DiagnosticMessage[] {
+    if (data.length < 4 || data.toString('latin1', 0, 4) !== this.MAGIC) {
+      throw new Error('Not a serialized diagnostics file');
+    }
+
+    const state: ParserState = {
+      cursor: new BitstreamCursor(data, 4),
+      blockInfo: new Map(),
+      files: new Map(),
+      flags: new Map(),
+      categories: new Map(),
+    };
+
+    const diagnostics: DiagnosticMessage[] = [];
+    while (!state.cursor.atEnd()) {
+      const abbreviationId = state.cursor.readBits(this.TOP_LEVEL_ABBREVIATION_WIDTH);
+      if (abbreviationId !== this.ENTER_SUBBLOCK) {
+        throw new Error(`Unexpected top-level abbreviation id: ${abbreviationId}`);
+      }
+      this.readBlock(state, diagnostics);
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Read a block after its ENTER_SUBBLOCK id; finished diagnostics are appended to `output`
+   */
+  private static readBlock(state: ParserState, output: DiagnosticMessage[]): void {
+    const { cursor } = state;
+    const blockId = cursor.readVBR(8);
+    const abbreviationWidth = cursor.readVBR(4);
+    cursor.alignTo32Bits();
+    cursor.readBits(32); // block length in words
+
+    const abbreviations = [...(state.blockInfo.get(blockId) || [])];
+    let blockInfoTarget: number | null = null;
+    let diagnostic: DiagnosticMessage | null = null;
+    // Notes are nested blocks; include stack notes precede the parent's own record
+    const children: DiagnosticMessage[] = [];
+
+    for (;;) {
+      const abbreviationId = cursor.readBits(abbreviationWidth);
+
+      if (abbreviationId === this.END_BLOCK) {
+        cursor.alignTo32Bits();
+        if (diagnostic) {
+          if (children.length > 0) diagnostic.children = children;
+          output.push(diagnostic);
+        } else {
+          output.push(...children);
+        }
+        return;
+      }
+
+      if (abbreviationId === this.ENTER_SUBBLOCK) {
+        this.readBlock(state, children);
+        continue;
+      }
+
+      if (abbreviationId === this.DEFINE_ABBREV) {
+        const operands = cursor.readAbbreviation();
+        if (blockId === this.BLOCKINFO_BLOCK && blockInfoTarget !== null) {
+          const shared = state.blockInfo.get(blockInfoTarget) || [];
+          state.blockInfo.set(blockInfoTarget, [...shared, operands]);
+        } else {
+          abbreviations.push(operands);
+        }
+        continue;
+      }
+
+      const record = cursor.readRecord(abbreviationId, abbreviations);
+      if (blockId === this.BLOCKINFO_BLOCK) {
+        if (record.code === this.BLOCKINFO_SETBID) blockInfoTarget = record.fields[0];
+        continue;
+      }
+
+      switch (record.code) {
+        case this.RECORD_FILENAME:
+          state.files.set(record.fields[0], this.blobText(record));
+          break;
+        case this.RECORD_DIAG_FLAG:
+          state.flags.set(record.fields[0], this.blobText(record));
+          break;
+        case this.RECORD_CATEGORY:
+          state.categories.set(record.fields[0], this.blobText(record));
+          break;
+        case this.RECORD_DIAG:
+          if (blockId === this.DIAG_BLOCK) diagnostic = this.createDiagnostic(state, record);
+          break;
+        case this.RECORD_SOURCE_RANGE:
+          if (diagnostic) {
+            diagnostic.ranges = [...(diagnostic.ranges || []), this.readRange(state, record.fields)];
+          }
+          break;
+        case this.RECORD_FIXIT:
+          if (diagnostic) {
+            const fixIt: FixIt = { range: this.readRange(state, record.fields), replacement: this.blobText(record) };
+            diagnostic.fixIts = [...(diagnostic.fixIts || []), fixIt];
+          }
+          break;
+      }
+    }
+  }
+
+  private static createDiagnostic(state: ParserState, record: BitstreamRecord): DiagnosticMessage | null {
+    // [severity, file, line, column, offset, category, flag, message length] + message blob
+    const [severityLevel, , , , , categoryId, flagId] = record.fields;
+    const severity = this.SEVERITIES[severityLevel];
+    if (!severity) {
+      return null;
+    }
+
+    const location = this.readLocation(state, record.fields, 1);
+    const diagnostic: DiagnosticMessage = {
+      file: location.file,
+      line: location.line,
+      column: location.column,
+      message: this.blobText(record),
+      severity,
+    };
+
+    const flag = state.flags.get(flagId);
+    if (flag) {
+      diagnostic.option = severityLevel === 5 ? `-R${flag}` : `-W${flag}`;
+    }
+
+    const category = state.categories.get(categoryId);
+    if (category) {
+      diagnostic.category = category;
+    }
+
+    return diagnostic;
+  }
+
+  private static readRange(state: ParserState, fields: number[]): SourceRange {
+    return {
+      start: this.readLocation(state, fields, 0),
+      end: this.readLocation(state, fields, 4),
+    };
+  }
+
+  private static readLocation(state: ParserState, fields: number[], offset: number): SourceLocation {
+    // [file id, line, column, byte offset]; file id 0 means no location. The offset is not
+    // adjusted for the length of the last token in token ranges, so only columns are used
+    const file = state.files.get(fields[offset]);
+    return {
+      file: file !== undefined ? this.normalizePath(file) : undefined,
+      line: fields[offset + 1] || 0,
+      column: fields[offset + 2] || 0,
+    };
+  }
+
+  private static blobText(record: BitstreamRecord): string {
+    return record.blob ? record.blob.toString('utf8') : '';
+  }
+
+  private static normalizePath(filePath: string): string {
+    return filePath.startsWith('./') ? filePath.substring(2) : filePath;
+  }
+}
+
+interface ParserState {
+  cursor: BitstreamCursor;
+  blockInfo: Map<number, AbbreviationOperand[][]>;
+  files: Map<number, string>;
+  flags: Map<number, string>;
+  categories: Map<number, string>;
+}
\ No newline at end of file
@@ -0,0 +1,135 @@
+import type { TestCaseResult, TestFailure } from '../types/index.js';
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+/**
+ * Parses the JUnit XML written by GoogleTest (`--gtest_output=xml`), Catch2 (`-r junit`) and
+ * doctest (`--reporters=junit`). Only GoogleTest records where a test case is defined; the
+ * location of a failure is taken from its text, which each framework starts or ends with
+ * `file:line` or `file(line):`.
+ */
+export class TestReportParser {
+  private static readonly TOKEN_PATTERN =
+    /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<[?!][\s\S]*?>|<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+  private static readonly ATTRIBUTE_PATTERN = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  private static readonly LOCATION_PATTERN =
+    /^\s*([\w./+-]+\.(?:c|cc|cpp|cxx|c\+\+|h|hh|hpp|hxx|inl))(?::(\d+)|\((\d+)\)):?\s*$/m;
+
+  static parse(xml: string): TestCaseResult[] {
+    const results: TestCaseResult[] = [];
+    const visit = (element: XmlElement): void => {
+      if (element.name === 'testcase') {
+        results.push(this.createTestCase(element));
+        return;
+      }
+      element.children.forEach(visit);
+    };
+    visit(this.parseXml(xml));
+    return results;
+  }
+
+  private static createTestCase(element: XmlElement): TestCaseResult {
+    const { name, classname, time, file, line, status, result } = element.attributes;
+    const failures = element.children
+      .filter((child) => child.name === 'failure' || child.name === 'error')
+      .map((child) => this.createFailure(child));
+
+    // GoogleTest marks disabled tests `status="notrun"` and GTEST_SKIP() `result="skipped"`
+    const skipped = element.children.some((child) => child.name === 'skipped')
+      || status === 'notrun'
+      || result === 'skipped'
+      || result === 'suppressed';
+
+    const testCase: TestCaseResult = {
+      name: name || '',
+      status: failures.length > 0 ? 'failed' : skipped ? 'skipped' : 'passed',
+      failures,
+    };
+    if (classname) testCase.suite = classname;
+    if (time !== undefined && !isNaN(parseFloat(time))) testCase.time = parseFloat(time);
+    if (file) testCase.file = this.normalizePath(file);
+    if (line) testCase.line = parseInt(line, 10);
+
+    return testCase;
+  }
+
+  private static createFailure(element: XmlElement): TestFailure {
+    const text = element.text.trim();
+    const locationMatch = text.match(this.LOCATION_PATTERN);
+
+    // The text is the complete report; without one the message attribute is all there is
+    let message = text || element.attributes.message || '';
+    if (locationMatch && locationMatch.index !== undefined) {
+      message = (text.slice(0, locationMatch.index) + text.slice(locationMatch.index + locationMatch[0].length))
+        .split('\n')
+        .map((line) => line.trimEnd())
+        .join('\n')
+        .trim();
+    }
+
+    const failure: TestFailure = { message: message || element.attributes.message || '' };
+    if (locationMatch) {
+      failure.file = this.normalizePath(locationMatch[1]);
+      failure.line = parseInt(locationMatch[2] || locationMatch[3], 10);
+    }
+    return failure;
+  }
+
+  /**
+   * A minimal non-validating XML reader: elements, attributes, text and CDATA. Processing
+   * instructions, comments and doctype declarations are skipped.
+   */
+  private static parseXml(xml: string): XmlElement {
+    const root: XmlElement = { name: '', attributes: {}, children: [], text: '' };
+    const stack: XmlElement[] = [root];
+
+    for (const match of xml.matchAll(this.TOKEN_PATTERN)) {
+      const [, cdata, closing, name, attributes, selfClosing, text] = match;
+      const current = stack[stack.length - 1];
+
+      if (cdata !== undefined) {
+        current.text += cdata;
+      } else if (text !== undefined) {
+        current.text += this.decodeEntities(text);
+      } else if (name === undefined) {
+        continue;
+      } else if (closing) {
+        // Tolerate truncated reports from a crashed run: close up to the matching element
+        const index = stack.map((element) => element.name).lastIndexOf(name);
+        if (index > 0) stack.length = index;
+      } else {
+        const element: XmlElement = { name, attributes: this.parseAttributes(attributes), children: [], text: '' };
+        current.children.push(element);
+        if (!selfClosing) stack.push(element);
+      }
+    }
+
+    return root;
+  }
+
+  private static parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const [, name, doubleQuoted, singleQuoted] of source.matchAll(this.ATTRIBUTE_PATTERN)) {
+      attributes[name] = this.decodeEntities(doubleQuoted ?? singleQuoted);
+    }
+    return attributes;
+  }
+
+  private static decodeEntities(text: string): string {
+    const named: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+    return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, code: string) => {
+      if (code.startsWith('#x')) return String.fromCodePoint(parseInt(code.slice(2), 16));
+      if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10));
+      return named[code] ?? entity;
+    });
+  }
+
+  private static normalizePath(filePath: string): string {
+    return filePath.startsWith('./') ? filePath.substring(2) : filePath;
+  }
+}
\ No newline at end of file
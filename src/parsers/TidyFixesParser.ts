@@ -0,0 +1,242 @@
+type YamlValue = string | YamlValue[] | { [key: string]: YamlValue };
+
+interface YamlLine {
+  indent: number;
+  text: string;
+}
+
+export interface TidyReplacement {
+  filePath: string;
+  offset: number; // Bytes
+  length: number;
+  text: string;
+}
+
+export interface TidyMessage {
+  message: string;
+  filePath: string; // Empty for diagnostics without a location
+  fileOffset: number;
+  replacements: TidyReplacement[];
+  ranges: Array<{ filePath: string; offset: number; length: number }>;
+}
+
+export interface TidyDiagnostic {
+  check: string; // e.g. modernize-use-nullptr; compiler diagnostics are clang-diagnostic-*
+  level: 'error' | 'warning';
+  message: TidyMessage;
+  notes: TidyMessage[];
+}
+
+/**
+ * Reads the fixes file written by `clang-tidy --export-fixes`: a YAML document with one entry per
+ * diagnostic, its notes, replacements and ranges as byte offsets. LLVM's YAML writer only emits
+ * block mappings and sequences of plain, single-quoted or double-quoted (escaped) scalars,
+ * which is the subset read here. Text containing a line break is written single-quoted across
+ * several lines, with a blank line for each line break.
+ */
+export class TidyFixesParser {
+  private static readonly KEY_PATTERN = /^([A-Za-z]\w*):(?:\s+([\s\S]*))?$/;
+
+  // Indentation, an optional sequence dash and key, then the start of a quoted scalar
+  private static readonly QUOTED_VALUE_PATTERN = /^(\s*(?:-\s+)?(?:[A-Za-z]\w*:\s+)?)(['"])(.*)$/;
+
+  static parse(yaml: string): TidyDiagnostic[] {
+    const lines: YamlLine[] = this.joinQuotedScalars(yaml.split('\n'))
+      .filter((line) => line.trim() !== '' && !/^(---|\.\.\.)\s*$/.test(line) && !line.trimStart().startsWith('#'))
+      .map((line) => ({ indent: line.length - line.trimStart().length, text: line.trim() }));
+    if (lines.length === 0) {
+      return [];
+    }
+
+    const [document] = this.parseBlock(lines, 0, lines[0].indent);
+    const diagnostics = this.field(document, 'Diagnostics');
+    if (!Array.isArray(diagnostics)) {
+      return [];
+    }
+
+    return diagnostics.map((entry) => ({
+      check: this.text(entry, 'DiagnosticName'),
+      level: this.text(entry, 'Level') === 'Error' ? 'error' : 'warning',
+      message: this.parseMessage(this.field(entry, 'DiagnosticMessage')),
+      notes: this.list(entry, 'Notes').map((note) => this.parseMessage(note)),
+    }));
+  }
+
+  private static parseMessage(value: YamlValue | undefined): TidyMessage {
+    return {
+      message: this.text(value, 'Message'),
+      filePath: this.text(value, 'FilePath'),
+      fileOffset: this.number(value, 'FileOffset'),
+      replacements: this.list(value, 'Replacements').map((replacement) => ({
+        filePath: this.text(replacement, 'FilePath'),
+        offset: this.number(replacement, 'Offset'),
+        length: this.number(replacement, 'Length'),
+        text: this.text(replacement, 'ReplacementText'),
+      })),
+      ranges: this.list(value, 'Ranges').map((range) => ({
+        filePath: this.text(range, 'FilePath'),
+        offset: this.number(range, 'FileOffset'),
+        length: this.number(range, 'Length'),
+      })),
+    };
+  }
+
+  /**
+   * Join quoted scalars that span several lines into one line each, folding the line breaks as
+   * YAML does: a single break becomes a space and each blank line a newline. A double-quoted line
+   * ending in a backslash continues without a space.
+   */
+  private static joinQuotedScalars(rawLines: string[]): string[] {
+    const joined: string[] = [];
+    for (let index = 0; index < rawLines.length; index++) {
+      const quotedMatch = rawLines[index].match(this.QUOTED_VALUE_PATTERN);
+      if (!quotedMatch || this.closingQuote(quotedMatch[3], quotedMatch[2]) !== -1) {
+        joined.push(rawLines[index]);
+        continue;
+      }
+
+      const [, prefix, quote, firstPart] = quotedMatch;
+      const parts = [firstPart.trimEnd()];
+      while (++index < rawLines.length) {
+        parts.push(rawLines[index].trim());
+        if (this.closingQuote(parts[parts.length - 1], quote) !== -1) {
+          break;
+        }
+      }
+      joined.push(`${prefix}${quote}${this.foldLines(parts, quote)}`);
+    }
+    return joined;
+  }
+
+  private static foldLines(parts: string[], quote: string): string {
+    let value = parts[0];
+    let blankLines = 0;
+    for (const part of parts.slice(1)) {
+      if (part === '') {
+        blankLines++;
+        continue;
+      }
+      if (quote === '"' && /(^|[^\\])(\\\\)*\\$/.test(value)) {
+        // Escaped line break
+        value = value.slice(0, -1);
+      } else {
+        value += blankLines > 0 ? '\n'.repeat(blankLines) : ' ';
+      }
+      blankLines = 0;
+      value += part;
+    }
+    return value;
+  }
+
+  /**
+   * Index of the quote that ends a scalar in the given text, or -1 if it continues on the next line
+   */
+  private static closingQuote(text: string, quote: string): number {
+    for (let index = 0; index < text.length; index++) {
+      if (quote === '"' && text[index] === '\\') {
+        index++;
+      } else if (text[index] === quote) {
+        if (quote === "'" && text[index + 1] === "'") {
+          index++;
+        } else {
+          return index;
+        }
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * A block mapping or sequence starting at the given line; returns the value and the next line.
+   * The first line of a sequence item is rewritten in place to the mapping it starts.
+   */
+  private static parseBlock(lines: YamlLine[], start: number, indent: number): [YamlValue, number] {
+    if (this.isSequenceItem(lines[start])) {
+      const items: YamlValue[] = [];
+      let index = start;
+      while (index < lines.length && lines[index].indent === indent && this.isSequenceItem(lines[index])) {
+        const rest = lines[index].text.substring(1).trim();
+        if (rest === '') {
+          // The item starts on the next, deeper indented line
+          index++;
+          if (index < lines.length && lines[index].indent > indent) {
+            const [item, next] = this.parseBlock(lines, index, lines[index].indent);
+            items.push(item);
+            index = next;
+          }
+        } else if (this.KEY_PATTERN.test(rest)) {
+          // The item's first key sits on the dash line, its other keys are aligned with it
+          lines[index] = { indent: indent + 2, text: rest };
+          const [item, next] = this.parseBlock(lines, index, indent + 2);
+          items.push(item);
+          index = next;
+        } else {
+          items.push(this.parseScalar(rest));
+          index++;
+        }
+      }
+      return [items, index];
+    }
+
+    const mapping: { [key: string]: YamlValue } = {};
+    let index = start;
+    while (index < lines.length && lines[index].indent === indent && !this.isSequenceItem(lines[index])) {
+      const keyMatch = lines[index].text.match(this.KEY_PATTERN);
+      if (!keyMatch) {
+        index++;
+        continue;
+      }
+
+      const [, key, value] = keyMatch;
+      index++;
+      if (value !== undefined && value.trim() !== '') {
+        mapping[key] = value.trim() === '[]' ? [] : this.parseScalar(value.trim());
+      } else if (index < lines.length && lines[index].indent > indent) {
+        [mapping[key], index] = this.parseBlock(lines, index, lines[index].indent);
+      } else if (index < lines.length && lines[index].indent === indent && this.isSequenceItem(lines[index])) {
+        // A sequence may start at the indentation of its key
+        [mapping[key], index] = this.parseBlock(lines, index, indent);
+      } else {
+        mapping[key] = '';
+      }
+    }
+    return [mapping, index];
+  }
+
+  private static isSequenceItem(line: YamlLine): boolean {
+    return line.text === '-' || line.text.startsWith('- ');
+  }
+
+  private static parseScalar(value: string): string {
+    if (value.startsWith("'") && value.endsWith("'") && value.length >= 2) {
+      return value.slice(1, -1).replace(/''/g, "'");
+    }
+
+    if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+      const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '0': '\0', '"': '"', '\\': '\\', '/': '/' };
+      return value.slice(1, -1).replace(/\\(x[0-9A-Fa-f]{2}|u[0-9A-Fa-f]{4}|.)/g, (_, escape: string) =>
+        escape.length > 1 ? String.fromCharCode(parseInt(escape.substring(1), 16)) : (escapes[escape] ?? escape)
+      );
+    }
+
+    return value;
+  }
+
+  private static field(value: YamlValue | undefined, key: string): YamlValue | undefined {
+    return value !== undefined && typeof value === 'object' && !Array.isArray(value) ? value[key] : undefined;
+  }
+
+  private static text(value: YamlValue | undefined, key: string): string {
+    const field = this.field(value, key);
+    return typeof field === 'string' ? field : '';
+  }
+
+  private static number(value: YamlValue | undefined, key: string): number {
+    return parseInt(this.text(value, key), 10) || 0;
+  }
+
+  private static list(value: YamlValue | undefined, key: string): YamlValue[] {
+    const field = this.field(value, key);
+    return Array.isArray(field) ? field : [];
+  }
+}
\ No newline at end of file
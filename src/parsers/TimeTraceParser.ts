@@ -0,0 +1,125 @@
+import type { TimeTraceEntry, TimeTraceSummary } from '../types/index.js';
+
+interface TraceEvent {
+  name?: string;
+  ph?: string;
+  ts?: number;
+  dur?: number;
+  id?: number | string;
+  args?: { detail?: string };
+}
+
+interface TimedEvent {
+  name: string;
+  detail?: string;
+  duration: number; // Microseconds
+}
+
+/**
+ * Summarizes the Chrome trace event JSON written by `clang -ftime-trace` into the compiler
+ * phases and the most expensive headers and template instantiations
+ */
+export class TimeTraceParser {
+  // Pipeline phases in execution order
+  private static readonly PHASES = [
+    'Frontend',
+    'PerformPendingInstantiations',
+    'Backend',
+    'Optimizer',
+    'CodeGenPasses',
+  ];
+
+  private static readonly TEMPLATE_EVENTS = ['InstantiateClass', 'InstantiateFunction'];
+
+  static parse(trace: string, file: string, limit: number = 10): TimeTraceSummary {
+    const data = JSON.parse(trace) as { traceEvents?: TraceEvent[] };
+    const events = this.resolveDurations(data.traceEvents || []);
+
+    const total = events.find((event) => event.name === 'ExecuteCompiler');
+    const phases = this.aggregate(events.filter((event) => this.PHASES.includes(event.name)), (event) => event.name)
+      .sort((a, b) => this.PHASES.indexOf(a.name) - this.PHASES.indexOf(b.name));
+    const headers = this.aggregate(
+      events.filter((event) => event.name === 'Source'),
+      (event) => event.detail && this.normalizePath(event.detail)
+    );
+    const templates = this.aggregate(
+      events.filter((event) => this.TEMPLATE_EVENTS.includes(event.name)),
+      (event) => event.detail
+    );
+
+    return {
+      file,
+      totalTimeMs: this.toMilliseconds(total?.duration || 0),
+      phases,
+      headers: this.top(headers, limit),
+      templates: this.top(templates, limit),
+    };
+  }
+
+  /**
+   * Complete events carry their duration; headers are recorded as async begin/end pairs
+   * (Clang 17 and later), which are joined here. The per-name "Total" events are skipped.
+   */
+  private static resolveDurations(events: TraceEvent[]): TimedEvent[] {
+    const resolved: TimedEvent[] = [];
+    const open = new Map<string, TraceEvent>();
+
+    for (const event of events) {
+      if (!event.name || event.name.startsWith('Total ')) continue;
+
+      switch (event.ph) {
+        case 'X':
+          resolved.push({ name: event.name, detail: event.args?.detail, duration: event.dur || 0 });
+          break;
+        case 'b':
+          open.set(`${event.name}:${event.id}`, event);
+          break;
+        case 'e': {
+          const begin = open.get(`${event.name}:${event.id}`);
+          if (begin) {
+            open.delete(`${event.name}:${event.id}`);
+            resolved.push({
+              name: event.name,
+              detail: begin.args?.detail,
+              duration: (event.ts || 0) - (begin.ts || 0),
+            });
+          }
+          break;
+        }
+      }
+    }
+
+    return resolved;
+  }
+
+  private static aggregate(events: TimedEvent[], key: (event: TimedEvent) => string | undefined): TimeTraceEntry[] {
+    const entries = new Map<string, { duration: number; count: number }>();
+    for (const event of events) {
+      const name = key(event);
+      if (!name) continue;
+
+      const entry = entries.get(name) || { duration: 0, count: 0 };
+      entry.duration += event.duration;
+      entry.count++;
+      entries.set(name, entry);
+    }
+
+    return [...entries].map(([name, { duration, count }]) => ({
+      name,
+      durationMs: this.toMilliseconds(duration),
+      count,
+    }));
+  }
+
+  private static top(entries: TimeTraceEntry[], limit: number): TimeTraceEntry[] {
+    return [...entries].sort((a, b) => b.durationMs - a.durationMs).slice(0, limit);
+  }
+
+  private static toMilliseconds(microseconds: number): number {
+    return Math.round(microseconds) / 1000;
+  }
+
+  private static normalizePath(filePath: string): string {
+    return filePath.startsWith('./') ? filePath.substring(2) : filePath;
+  }
+}
\ No newline at end of file
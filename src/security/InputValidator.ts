@@ -1,5 +1,28 @@
 import { z } from 'zod';
-import type { LanguageStandard, OptimizationLevel, WarningLevel } from '../types/index.js';
+import type {
+  AnalysisMode,
+  AnalyzerConfig,
+  AssemblySyntax,
+  CheckerInfo,
+  IRDumpFormat,
+  InliningMode,
+  InterproceduralAnalysis,
+  LanguageStandard,
+  LibraryInfo,
+  LibraryName,
+  MacroDump,
+  OptimizationLevel,
+  OutputMode,
+  PassInfo,
+  RemarkKind,
+  SanitizerKind,
+  SourceFiles,
+  SourceInput,
+  SourceLineRange,
+  TargetTriple,
+  TestFramework,
+  WarningLevel
+} from '../types/index.js';
 
 export interface ValidationResult {
   success: boolean;
@@ -24,6 +47,97 @@ export class InputValidator {
     '-D', '-I', '-L', '-l', '-W', '-f', '-m'
   ];
 
+  private static readonly MAX_SOURCE_FILES = 64;
+  private static readonly TRANSLATION_UNIT_PATTERN = /\.(c|cc|cpp|cxx|c\+\+)$/;
+
+  // Files the tools write into the work directory next to the sources
+  private static readonly GENERATED_FILES = new Set([
+    'main', 'main.o', 'main.ll', 'main.s', 'coverage.profraw', 'coverage.profdata', 'input.ll', 'optimized.ll',
+    'preprocessed.i', 'test_report.xml', 'mcp_test_main.cpp', 'function.s', 'fixes.yaml',
+  ]);
+
+  // Outputs written per source file: objects, diagnostics, analyzer reports, traces and remarks
+  private static readonly GENERATED_SUFFIXES = ['.o', '.dia', '.plist', '.time-trace.json', '.opt.yaml'];
+  private static readonly MAX_PROGRAM_ARGS = 64;
+  private static readonly MAX_PROGRAM_ARG_LENGTH = 4096;
+  private static readonly MAX_TEST_FILTER_LENGTH = 256;
+  private static readonly MAX_REMARK_PASSES_LENGTH = 256;
+  private static readonly MAX_PASS_PIPELINE_LENGTH = 2048;
+  private static readonly MAX_FUNCTION_NAME_LENGTH = 1024;
+  private static readonly MAX_SIMULATION_ITERATIONS = 10000;
+  private static readonly MAX_ANALYZER_NODES = 1000000;
+  private static readonly MAX_TIDY_CHECKS = 64;
+  private static readonly MAX_TIDY_CHECK_OPTIONS = 64;
+  private static readonly MAX_TIDY_OPTION_VALUE_LENGTH = 1024;
+
+  // clang-tidy check modules; a check is named <module>-<check>, e.g. bugprone-use-after-move
+  private static readonly TIDY_CHECK_MODULES = [
+    'abseil', 'altera', 'android', 'boost', 'bugprone', 'cert', 'clang-analyzer', 'clang-diagnostic',
+    'concurrency', 'cppcoreguidelines', 'darwin', 'fuchsia', 'google', 'hicpp', 'linuxkernel', 'llvm',
+    'llvmlibc', 'misc', 'modernize', 'mpi', 'objc', 'openmp', 'performance', 'portability',
+    'readability', 'zircon',
+  ];
+
+  // Nest a pipeline for another IR unit: function(instcombine), repeat<2>(...)
+  private static readonly PASS_ADAPTORS = ['module', 'cgscc', 'function', 'loop', 'loop-mssa', 'repeat', 'devirt'];
+
+  // Standard optimization pipelines, selected as default<O2>
+  private static readonly PASS_PIPELINES = ['default', 'thinlto-pre-link', 'thinlto', 'lto-pre-link', 'lto'];
+
+  // Variables that would let a program influence the dynamic loader or tool lookup
+  private static readonly BLOCKED_ENV_PATTERNS = [/^LD_/, /^PATH$/];
+
+  // Cross-compilation targets and the CPUs that may be selected for each (first is the default)
+  private static readonly TARGET_CPUS: Record<TargetTriple, string[]> = {
+    'x86_64-linux-gnu': ['x86-64', 'x86-64-v2', 'x86-64-v3', 'x86-64-v4', 'skylake', 'znver3'],
+    'x86_64-linux-musl': ['x86-64', 'x86-64-v2', 'x86-64-v3', 'x86-64-v4', 'skylake', 'znver3'],
+    'aarch64-linux-gnu': ['generic', 'cortex-a53', 'cortex-a72', 'cortex-a76', 'neoverse-n1', 'neoverse-v1'],
+    'aarch64-none-elf': ['generic', 'cortex-a53', 'cortex-a72', 'cortex-r82'],
+    'armv7a-linux-gnueabihf': ['generic', 'cortex-a7', 'cortex-a9', 'cortex-a15'],
+    'thumbv7m-none-eabi': ['cortex-m3'],
+    'thumbv7em-none-eabihf': ['cortex-m4', 'cortex-m7'],
+    'riscv64-linux-gnu': ['generic-rv64', 'sifive-u74', 'sifive-x280'],
+    'riscv64-unknown-elf': ['generic-rv64', 'sifive-s76', 'sifive-u74'],
+    'riscv32-unknown-elf': ['generic-rv32', 'sifive-e31', 'sifive-e76'],
+    'wasm32-unknown-unknown': ['generic', 'mvp', 'bleeding-edge'],
+    'wasm32-wasi': ['generic', 'mvp', 'bleeding-edge'],
+  };
+
+  // Header-only libraries vendored into the image under MCP_LIBRARY_DIR (see Dockerfile)
+  private static readonly LIBRARIES: Record<LibraryName, LibraryInfo> = {
+    fmt: {
+      name: 'fmt',
+      version: '10.2.1',
+      description: 'Formatting library, the basis of std::format',
+      header: 'fmt/format.h',
+      defines: ['FMT_HEADER_ONLY'],
+    },
+    nlohmann_json: {
+      name: 'nlohmann_json',
+      version: '3.11.3',
+      description: 'JSON for Modern C++',
+      header: 'nlohmann/json.hpp',
+    },
+    'range-v3': {
+      name: 'range-v3',
+      version: '0.12.0',
+      description: 'Range library for C++14/17/20, the basis of std::ranges',
+      header: 'range/v3/all.hpp',
+    },
+    catch2: {
+      name: 'catch2',
+      version: '2.13.10',
+      description: 'Unit testing framework (single header)',
+      header: 'catch2/catch.hpp',
+    },
+    doctest: {
+      name: 'doctest',
+      version: '2.4.11',
+      description: 'Lightweight unit testing framework (single header)',
+      header: 'doctest/doctest.h',
+    },
+  };
+
   static validateSourceCode(source: string): ValidationResult {
     if (typeof source !== 'string') {
       return { success: false, error: 'Source code must be a string' };
@@ -62,10 +176,133 @@ export class InputValidator {
     return { success: true, sanitized: source };
   }
 
+  static validateSourceInput(source: SourceInput): ValidationResult {
+    if (source.files !== undefined && source.sourceCode !== undefined) {
+      return { success: false, error: 'Provide either source code or files, not both' };
+    }
+
+    if (source.files !== undefined) {
+      return this.validateSourceFiles(source.files, source.entryPoints);
+    }
+
+    if (source.entryPoints !== undefined) {
+      return { success: false, error: 'Entry points require files' };
+    }
+
+    if (source.sourceCode === undefined) {
+      return { success: false, error: 'Either source code or files must be provided' };
+    }
+
+    return this.validateSourceCode(source.sourceCode);
+  }
+
+  static validateSourceFiles(files: SourceFiles, entryPoints?: string[]): ValidationResult {
+    if (typeof files !== 'object' || files === null || Array.isArray(files)) {
+      return { success: false, error: 'Files must be an object mapping paths to contents' };
+    }
+
+    const paths = Object.keys(files);
+    if (paths.length === 0) {
+      return { success: false, error: 'Files cannot be empty' };
+    }
+
+    if (paths.length > this.MAX_SOURCE_FILES) {
+      return { 
+        success: false, 
+        error: `Too many files. Maximum is ${this.MAX_SOURCE_FILES}` 
+      };
+    }
+
+    let totalSize = 0;
+    for (const filePath of paths) {
+      const pathResult = this.validateRelativePath(filePath);
+      if (!pathResult.success) return pathResult;
+
+      const generated = this.GENERATED_FILES.has(filePath)
+        || this.GENERATED_SUFFIXES.some((suffix) => filePath.endsWith(suffix) && filePath.slice(0, -suffix.length) in files);
+      if (generated) {
+        return { success: false, error: `File name is reserved for generated output: ${filePath}` };
+      }
+
+      const contents = files[filePath];
+      if (typeof contents !== 'string') {
+        return { success: false, error: `Contents of ${filePath} must be a string` };
+      }
+
+      // Empty headers are legitimate; only non-empty files go through the source checks
+      if (contents.length > 0) {
+        const sourceResult = this.validateSourceCode(contents);
+        if (!sourceResult.success) return sourceResult;
+      }
+      totalSize += contents.length;
+    }
+
+    if (totalSize > this.MAX_SOURCE_SIZE) {
+      return { 
+        success: false, 
+        error: `Files exceed maximum total size of ${this.MAX_SOURCE_SIZE} bytes` 
+      };
+    }
+
+    if (entryPoints !== undefined) {
+      if (!Array.isArray(entryPoints) || entryPoints.length === 0) {
+        return { success: false, error: 'Entry points must be a non-empty array' };
+      }
+
+      for (const entryPoint of entryPoints) {
+        if (typeof entryPoint !== 'string' || !(entryPoint in files)) {
+          return { success: false, error: `Entry point not found in files: ${entryPoint}` };
+        }
+      }
+    } else if (!paths.some(filePath => this.isTranslationUnit(filePath))) {
+      return { success: false, error: 'Files must contain at least one C/C++ translation unit' };
+    }
+
+    return { success: true, sanitized: files };
+  }
+
+  static isTranslationUnit(filePath: string): boolean {
+    return this.TRANSLATION_UNIT_PATTERN.test(filePath);
+  }
+
+  static validateRelativePath(filePath: string): ValidationResult {
+    if (typeof filePath !== 'string' || filePath.length === 0) {
+      return { success: false, error: 'File paths must be non-empty strings' };
+    }
+
+    const segments = filePath.split('/');
+    if (filePath.startsWith('/') || segments.some(segment => segment === '..' || segment === '')) {
+      return { 
+        success: false, 
+        error: `Invalid file path: ${filePath}. Absolute paths and traversal not allowed` 
+      };
+    }
+
+    // Only allow alphanumeric, underscore, dash, dot, plus and slash
+    if (!/^[A-Za-z0-9_.+/-]+$/.test(filePath)) {
+      return { 
+        success: false, 
+        error: `Invalid file path format: ${filePath}` 
+      };
+    }
+
+    // Paths are passed to the compiler as arguments, where a leading dash would make an option
+    if (segments.some(segment => segment.startsWith('-'))) {
+      return { 
+        success: false, 
+        error: `Invalid file path: ${filePath}. Path segments cannot start with a dash` 
+      };
+    }
+
+    return { success: true, sanitized: filePath };
+  }
+
   static validateLanguageStandard(language: string): ValidationResult {
     const validStandards: LanguageStandard[] = [
       'c89', 'c99', 'c11', 'c17', 'c23',
-      'c++98', 'c++03', 'c++11', 'c++14', 'c++17', 'c++20', 'c++23'
+      'gnu89', 'gnu99', 'gnu11', 'gnu17', 'gnu23',
+      'c++98', 'c++03', 'c++11', 'c++14', 'c++17', 'c++20', 'c++23',
+      'gnu++98', 'gnu++03', 'gnu++11', 'gnu++14', 'gnu++17', 'gnu++20', 'gnu++23'
     ];
 
     if (!validStandards.includes(language as LanguageStandard)) {
@@ -104,6 +341,217 @@ export class InputValidator {
     return { success: true, sanitized: warnings };
   }
 
+  static validateOutputMode(mode: string): ValidationResult {
+    const validModes: OutputMode[] = ['object', 'llvm-ir', 'assembly', 'disassemble'];
+
+    if (!validModes.includes(mode as OutputMode)) {
+      return { 
+        success: false, 
+        error: `Invalid output mode. Must be one of: ${validModes.join(', ')}` 
+      };
+    }
+
+    return { success: true, sanitized: mode };
+  }
+
+  static validateAssemblySyntax(syntax: string): ValidationResult {
+    const validSyntaxes: AssemblySyntax[] = ['att', 'intel'];
+
+    if (!validSyntaxes.includes(syntax as AssemblySyntax)) {
+      return { 
+        success: false, 
+        error: `Invalid assembly syntax. Must be one of: ${validSyntaxes.join(', ')}` 
+      };
+    }
+
+    return { success: true, sanitized: syntax };
+  }
+
+  static validateMacroDump(macros: string): ValidationResult {
+    const validModes: MacroDump[] = ['none', 'final', 'history'];
+
+    if (!validModes.includes(macros as MacroDump)) {
+      return { 
+        success: false, 
+        error: `Invalid macro dump mode. Must be one of: ${validModes.join(', ')}` 
+      };
+    }
+
+    return { success: true, sanitized: macros };
+  }
+
+  static validateIR(ir: string): ValidationResult {
+    if (typeof ir !== 'string' || ir.trim().length === 0) {
+      return { success: false, error: 'LLVM IR must be a non-empty string' };
+    }
+
+    if (ir.length > this.MAX_SOURCE_SIZE) {
+      return { 
+        success: false, 
+        error: `LLVM IR exceeds maximum size of ${this.MAX_SOURCE_SIZE} bytes` 
+      };
+    }
+
+    return { success: true, sanitized: ir };
+  }
+
+  /**
+   * Check a new pass manager pipeline against the passes opt provides: names separated by
+   * commas, optional <parameters>, and adaptors nesting a pipeline in parentheses
+   */
+  static validatePassPipeline(pipeline: string, passes: PassInfo[]): ValidationResult {
+    if (typeof pipeline !== 'string' || pipeline.length === 0) {
+      return { success: false, error: 'Pass pipeline must be a non-empty string' };
+    }
+
+    if (pipeline.length > this.MAX_PASS_PIPELINE_LENGTH) {
+      return { 
+        success: false, 
+        error: `Pass pipeline too long (max ${this.MAX_PASS_PIPELINE_LENGTH} characters)` 
+      };
+    }
+
+    if (!/^[A-Za-z0-9_.,;=<>()-]+$/.test(pipeline)) {
+      return { success: false, error: 'Invalid characters in pass pipeline' };
+    }
+
+    const elementPattern = /([A-Za-z0-9_.-]+)(?:<([A-Za-z0-9_.;=-]*)>)?(\()?/y;
+    const malformed = (index: number): ValidationResult => ({
+      success: false,
+      error: `Malformed pass pipeline at character ${index + 1}`,
+    });
+    let depth = 0;
+    let index = 0;
+
+    for (;;) {
+      elementPattern.lastIndex = index;
+      const match = elementPattern.exec(pipeline);
+      if (!match) return malformed(index);
+      const [element, name, parameters, nested] = match;
+      index += element.length;
+
+      if (nested) {
+        if (!this.PASS_ADAPTORS.includes(name)) {
+          return { success: false, error: `Unknown pass adaptor: ${name}` };
+        }
+        depth++;
+        continue;
+      }
+
+      const result = this.validatePassName(name, parameters, passes);
+      if (!result.success) return result;
+
+      while (pipeline[index] === ')') {
+        if (--depth < 0) return malformed(index);
+        index++;
+      }
+      if (index === pipeline.length) break;
+      if (pipeline[index] !== ',') return malformed(index);
+      index++;
+    }
+
+    if (depth !== 0) {
+      return { success: false, error: 'Unbalanced parentheses in pass pipeline' };
+    }
+
+    return { success: true, sanitized: pipeline };
+  }
+
+  static validateIRDumpFormat(format: string): ValidationResult {
+    const validFormats: IRDumpFormat[] = ['diff', 'full'];
+
+    if (!validFormats.includes(format as IRDumpFormat)) {
+      return { 
+        success: false, 
+        error: `Invalid IR dump format. Must be one of: ${validFormats.join(', ')}` 
+      };
+    }
+
+    return { success: true, sanitized: format };
+  }
+
+  static validateFunctionName(name: string): ValidationResult {
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      return { success: false, error: 'Function name must be a non-empty string' };
+    }
+
+    if (name.length > this.MAX_FUNCTION_NAME_LENGTH) {
+      return { 
+        success: false, 
+        error: `Function name too long (max ${this.MAX_FUNCTION_NAME_LENGTH} characters)` 
+      };
+    }
+
+    if (/[\n\0]/.test(name)) {
+      return { success: false, error: 'Invalid function name' };
+    }
+
+    return { success: true, sanitized: name.trim() };
+  }
+
+  static validateSimulationIterations(iterations: number): ValidationResult {
+    if (!Number.isInteger(iterations)) {
+      return { success: false, error: 'Iterations must be an integer' };
+    }
+
+    if (iterations < 1 || iterations > this.MAX_SIMULATION_ITERATIONS) {
+      return { 
+        success: false, 
+        error: `Iterations must be between 1 and ${this.MAX_SIMULATION_ITERATIONS}` 
+      };
+    }
+
+    return { success: true, sanitized: iterations };
+  }
+
+  static validateTarget(target: string, cpu?: string): ValidationResult {
+    const validTargets = Object.keys(this.TARGET_CPUS) as TargetTriple[];
+
+    if (!validTargets.includes(target as TargetTriple)) {
+      return { 
+        success: false, 
+        error: `Invalid target. Must be one of: ${validTargets.join(', ')}` 
+      };
+    }
+
+    const validCpus = this.TARGET_CPUS[target as TargetTriple];
+    if (cpu !== undefined && !validCpus.includes(cpu)) {
+      return { 
+        success: false, 
+        error: `Invalid CPU for target ${target}. Must be one of: ${validCpus.join(', ')}` 
+      };
+    }
+
+    return { success: true, sanitized: target };
+  }
+
+  /**
+   * Supported cross-compilation targets with their selectable CPUs
+   */
+  static getTargetCpus(): Record<TargetTriple, string[]> {
+    return { ...this.TARGET_CPUS };
+  }
+
+  static validateSourceLineRange(range: SourceLineRange): ValidationResult {
+    if (typeof range !== 'object' || range === null) {
+      return { success: false, error: 'Source line range must be an object' };
+    }
+
+    if (!Number.isInteger(range.start) || !Number.isInteger(range.end) || range.start < 1 || range.end < range.start) {
+      return { 
+        success: false, 
+        error: 'Source line range must have integer start >= 1 and end >= start' 
+      };
+    }
+
+    if (range.file !== undefined) {
+      const fileResult = this.validateRelativePath(range.file);
+      if (!fileResult.success) return fileResult;
+    }
+
+    return { success: true, sanitized: range };
+  }
+
   static validateDefines(defines: string[]): ValidationResult {
     if (!Array.isArray(defines)) {
       return { success: false, error: 'Defines must be an array' };
@@ -162,6 +610,31 @@ export class InputValidator {
     return { success: true, sanitized };
   }
 
+  static validateLibraries(libraries: string[]): ValidationResult {
+    if (!Array.isArray(libraries)) {
+      return { success: false, error: 'Libraries must be an array' };
+    }
+
+    const validLibraries = Object.keys(this.LIBRARIES);
+    for (const library of libraries) {
+      if (!validLibraries.includes(library)) {
+        return {
+          success: false,
+          error: `Unknown library: ${library}. Must be one of: ${validLibraries.join(', ')}`,
+        };
+      }
+    }
+
+    return { success: true, sanitized: libraries };
+  }
+
+  /**
+   * Bundled header-only libraries with their versions
+   */
+  static getLibraries(): LibraryInfo[] {
+    return Object.values(this.LIBRARIES).map((library) => ({ ...library }));
+  }
+
   static validateCompilerFlags(flags: string[]): ValidationResult {
     if (!Array.isArray(flags)) {
       return { success: false, error: 'Flags must be an array' };
@@ -231,51 +704,187 @@ export class InputValidator {
     return { success: true, sanitized: timeout };
   }
 
-  static validateCheckers(checkers: string[]): ValidationResult {
+  static validateStdin(stdin: string): ValidationResult {
+    if (typeof stdin !== 'string') {
+      return { success: false, error: 'Stdin must be a string' };
+    }
+
+    if (stdin.length > this.MAX_SOURCE_SIZE) {
+      return { 
+        success: false, 
+        error: `Stdin exceeds maximum size of ${this.MAX_SOURCE_SIZE} bytes` 
+      };
+    }
+
+    return { success: true, sanitized: stdin };
+  }
+
+  static validateProgramArguments(args: string[]): ValidationResult {
+    if (!Array.isArray(args)) {
+      return { success: false, error: 'Program arguments must be an array' };
+    }
+
+    if (args.length > this.MAX_PROGRAM_ARGS) {
+      return { 
+        success: false, 
+        error: `Too many program arguments. Maximum is ${this.MAX_PROGRAM_ARGS}` 
+      };
+    }
+
+    for (const arg of args) {
+      if (typeof arg !== 'string') {
+        return { success: false, error: 'All program arguments must be strings' };
+      }
+
+      if (arg.length > this.MAX_PROGRAM_ARG_LENGTH || arg.includes('\0')) {
+        return { success: false, error: `Invalid program argument: ${arg.substring(0, 32)}` };
+      }
+    }
+
+    return { success: true, sanitized: args };
+  }
+
+  static validateEnvironment(env: Record<string, string>): ValidationResult {
+    if (typeof env !== 'object' || env === null || Array.isArray(env)) {
+      return { success: false, error: 'Environment must be an object' };
+    }
+
+    for (const [name, value] of Object.entries(env)) {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+        return { success: false, error: `Invalid environment variable name: ${name}` };
+      }
+
+      if (this.BLOCKED_ENV_PATTERNS.some(pattern => pattern.test(name))) {
+        return { success: false, error: `Environment variable not allowed: ${name}` };
+      }
+
+      if (typeof value !== 'string' || value.includes('\0')) {
+        return { success: false, error: `Invalid value for environment variable: ${name}` };
+      }
+    }
+
+    return { success: true, sanitized: env };
+  }
+
+  static validateSanitizers(sanitizers: string[]): ValidationResult {
+    if (!Array.isArray(sanitizers)) {
+      return { success: false, error: 'Sanitizers must be an array' };
+    }
+
+    const validSanitizers: SanitizerKind[] = ['address', 'undefined', 'thread', 'leak', 'memory'];
+    for (const sanitizer of sanitizers) {
+      if (!validSanitizers.includes(sanitizer as SanitizerKind)) {
+        return { 
+          success: false, 
+          error: `Invalid sanitizer: ${sanitizer}. Must be one of: ${validSanitizers.join(', ')}` 
+        };
+      }
+    }
+
+    // The runtimes for thread and memory sanitizers cannot be combined with each other or ASan/LSan
+    const exclusive = ['thread', 'memory'].filter(sanitizer => sanitizers.includes(sanitizer));
+    const conflicting = sanitizers.filter(sanitizer => sanitizer !== 'undefined');
+    if (exclusive.length > 0 && new Set(conflicting).size > 1) {
+      return { 
+        success: false, 
+        error: `Sanitizer ${exclusive[0]} can only be combined with undefined` 
+      };
+    }
+
+    return { success: true, sanitized: sanitizers };
+  }
+
+  static validateTestFramework(framework: string): ValidationResult {
+    const validFrameworks: TestFramework[] = ['gtest', 'catch2', 'doctest'];
+    if (!validFrameworks.includes(framework as TestFramework)) {
+      return { 
+        success: false, 
+        error: `Invalid test framework: ${framework}. Must be one of: ${validFrameworks.join(', ')}` 
+      };
+    }
+
+    return { success: true, sanitized: framework };
+  }
+
+  static validateTestFilter(filter: string): ValidationResult {
+    if (typeof filter !== 'string' || filter.length === 0) {
+      return { success: false, error: 'Test filter must be a non-empty string' };
+    }
+
+    if (filter.length > this.MAX_TEST_FILTER_LENGTH) {
+      return { 
+        success: false, 
+        error: `Test filter too long (max ${this.MAX_TEST_FILTER_LENGTH} characters)` 
+      };
+    }
+
+    // The filter becomes a single argument of the test program; it must not read as an option
+    if (filter.startsWith('-') || filter.includes('\0')) {
+      return { success: false, error: 'Invalid test filter' };
+    }
+
+    return { success: true, sanitized: filter };
+  }
+
+  static validateRemarkKinds(kinds: string[]): ValidationResult {
+    if (!Array.isArray(kinds)) {
+      return { success: false, error: 'Remark kinds must be an array' };
+    }
+
+    const validKinds: RemarkKind[] = ['passed', 'missed', 'analysis', 'failure'];
+    for (const kind of kinds) {
+      if (!validKinds.includes(kind as RemarkKind)) {
+        return { 
+          success: false, 
+          error: `Invalid remark kind: ${kind}. Must be one of: ${validKinds.join(', ')}` 
+        };
+      }
+    }
+
+    return { success: true, sanitized: kinds };
+  }
+
+  static validateRemarkPasses(pattern: string): ValidationResult {
+    if (typeof pattern !== 'string' || pattern.length === 0) {
+      return { success: false, error: 'Remark pass filter must be a non-empty string' };
+    }
+
+    if (pattern.length > this.MAX_REMARK_PASSES_LENGTH) {
+      return { 
+        success: false, 
+        error: `Remark pass filter too long (max ${this.MAX_REMARK_PASSES_LENGTH} characters)` 
+      };
+    }
+
+    // Pass names are lowercase identifiers with dashes; allow the usual regex operators only
+    if (!/^[A-Za-z0-9_.*+?|()[\]^$-]+$/.test(pattern)) {
+      return { success: false, error: 'Invalid characters in remark pass filter' };
+    }
+
+    try {
+      new RegExp(pattern);
+    } catch {
+      return { success: false, error: 'Invalid regular expression in remark pass filter' };
+    }
+
+    return { success: true, sanitized: pattern };
+  }
+
+  static validateCheckers(checkers: string[], available: CheckerInfo[]): ValidationResult {
     if (!Array.isArray(checkers)) {
       return { success: false, error: 'Checkers must be an array' };
     }
 
-    const validCheckers = [
-      'core.CallAndMessage',
-      'core.DivideZero',
-      'core.NonNullParamChecker',
-      'core.NullDereference',
-      'core.StackAddressEscape',
-      'core.UndefinedBinaryOperatorResult',
-      'core.VLASize',
-      'core.uninitialized.ArraySubscript',
-      'core.uninitialized.Assign',
-      'core.uninitialized.Branch',
-      'core.uninitialized.CapturedBlockVariable',
-      'core.uninitialized.UndefReturn',
-      'deadcode.DeadStores',
-      'security.insecureAPI.UncheckedReturn',
-      'security.insecureAPI.getpw',
-      'security.insecureAPI.gets',
-      'security.insecureAPI.mkstemp',
-      'security.insecureAPI.mktemp',
-      'security.insecureAPI.rand',
-      'security.insecureAPI.strcpy',
-      'unix.API',
-      'unix.Malloc',
-      'unix.MallocSizeof',
-      'unix.MismatchedDeallocator',
-      'unix.cstring.BadSizeArg',
-      'unix.cstring.NullArg'
-    ];
-
     const sanitized = [];
     for (const checker of checkers) {
       if (typeof checker !== 'string') {
         return { success: false, error: 'All checkers must be strings' };
       }
 
-      if (!validCheckers.includes(checker)) {
-        return { 
-          success: false, 
-          error: `Invalid checker: ${checker}. Must be one of: ${validCheckers.join(', ')}` 
-        };
+      // A package such as cplusplus or optin.performance enables all checkers below it
+      const known = available.some((info) => info.name === checker || info.name.startsWith(`${checker}.`));
+      if (!known) {
+        return { success: false, error: `Unknown checker: ${checker}. See llvm://checkers` };
       }
 
       sanitized.push(checker);
@@ -283,4 +892,122 @@ export class InputValidator {
 
     return { success: true, sanitized };
   }
+
+  static validateAnalyzerConfig(config: AnalyzerConfig): ValidationResult {
+    if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+      return { success: false, error: 'Analyzer config must be an object' };
+    }
+
+    const validModes: AnalysisMode[] = ['shallow', 'deep'];
+    if (config.mode !== undefined && !validModes.includes(config.mode)) {
+      return { success: false, error: `Invalid analysis mode. Must be one of: ${validModes.join(', ')}` };
+    }
+
+    const validIpa: InterproceduralAnalysis[] = ['none', 'basic-inlining', 'inlining', 'dynamic', 'dynamic-bifurcation'];
+    if (config.ipa !== undefined && !validIpa.includes(config.ipa)) {
+      return { success: false, error: `Invalid ipa setting. Must be one of: ${validIpa.join(', ')}` };
+    }
+
+    const validInliningModes: InliningMode[] = ['all', 'noredundancy'];
+    if (config.inliningMode !== undefined && !validInliningModes.includes(config.inliningMode)) {
+      return { success: false, error: `Invalid inlining mode. Must be one of: ${validInliningModes.join(', ')}` };
+    }
+
+    if (config.maxNodes !== undefined) {
+      if (!Number.isInteger(config.maxNodes) || config.maxNodes < 1 || config.maxNodes > this.MAX_ANALYZER_NODES) {
+        return { success: false, error: `Max nodes must be an integer between 1 and ${this.MAX_ANALYZER_NODES}` };
+      }
+    }
+
+    const simplification = config.aggressiveBinaryOperationSimplification;
+    if (simplification !== undefined && typeof simplification !== 'boolean') {
+      return { success: false, error: 'Aggressive binary operation simplification must be a boolean' };
+    }
+
+    return { success: true, sanitized: config };
+  }
+
+  static validateTidyChecks(checks: string[]): ValidationResult {
+    if (!Array.isArray(checks)) {
+      return { success: false, error: 'Checks must be an array' };
+    }
+
+    if (checks.length > this.MAX_TIDY_CHECKS) {
+      return { success: false, error: `Too many checks (max ${this.MAX_TIDY_CHECKS})` };
+    }
+
+    for (const check of checks) {
+      if (typeof check !== 'string') {
+        return { success: false, error: 'All checks must be strings' };
+      }
+
+      // A glob over check names, negated by a leading -; the whole list is passed as one option
+      const pattern = check.startsWith('-') ? check.substring(1) : check;
+      if (!/^[A-Za-z0-9.*-]+$/.test(pattern)) {
+        return { success: false, error: `Invalid check: ${check}` };
+      }
+
+      const known = pattern === '*' || this.TIDY_CHECK_MODULES.some((module) =>
+        pattern.startsWith(`${module}-`) || pattern === `${module}*`
+      );
+      if (!known) {
+        return {
+          success: false,
+          error: `Unknown check: ${check}. Checks start with one of: ${this.TIDY_CHECK_MODULES.join(', ')}`
+        };
+      }
+    }
+
+    return { success: true, sanitized: checks };
+  }
+
+  static validateTidyCheckOptions(options: Record<string, string>): ValidationResult {
+    if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+      return { success: false, error: 'Check options must be an object' };
+    }
+
+    const entries = Object.entries(options);
+    if (entries.length > this.MAX_TIDY_CHECK_OPTIONS) {
+      return { success: false, error: `Too many check options (max ${this.MAX_TIDY_CHECK_OPTIONS})` };
+    }
+
+    for (const [key, value] of entries) {
+      // Options belong to a check: readability-identifier-naming.VariableCase
+      if (!/^[a-z][a-z0-9-]*\.[A-Za-z][A-Za-z0-9]*$/.test(key)) {
+        return { success: false, error: `Invalid check option: ${key}. Expected <check>.<Option>` };
+      }
+
+      if (typeof value !== 'string') {
+        return { success: false, error: `Value of check option ${key} must be a string` };
+      }
+
+      if (value.length > this.MAX_TIDY_OPTION_VALUE_LENGTH || /[\n\0]/.test(value)) {
+        return { success: false, error: `Invalid value for check option ${key}` };
+      }
+    }
+
+    return { success: true, sanitized: options };
+  }
+
+  private static validatePassName(name: string, parameters: string | undefined, passes: PassInfo[]): ValidationResult {
+    // Analyses are only scheduled or invalidated explicitly
+    if (name === 'require' || name === 'invalidate') {
+      const analysis = parameters || '';
+      const known = passes.some((pass) => pass.analysis && pass.name === analysis);
+      return known || (name === 'invalidate' && analysis === 'all')
+        ? { success: true }
+        : { success: false, error: `Unknown analysis: ${analysis}. See llvm://passes` };
+    }
+
+    if (this.PASS_PIPELINES.includes(name)) {
+      return /^O[0-3sz]$/.test(parameters || '')
+        ? { success: true }
+        : { success: false, error: `Pipeline ${name} requires an optimization level, e.g. ${name}<O2>` };
+    }
+
+    // Parameterized passes are listed by name; others may have brackets in their name (print<domtree>)
+    const fullName = parameters === undefined ? name : `${name}<${parameters}>`;
+    const known = passes.some((pass) => !pass.analysis && (pass.parameters ? pass.name === name : pass.name === fullName));
+    return known ? { success: true } : { success: false, error: `Unknown pass: ${fullName}. See llvm://passes` };
+  }
 }
\ No newline at end of file
@@ -1,4 +1,5 @@
 import path from 'path';
+import type { DiagnosticMessage, SourceLocation } from '../types/index.js';
 
 export class OutputSanitizer {
   private static readonly MAX_OUTPUT_SIZE = 10 * 1024 * 1024; // 10MB
@@ -16,25 +17,22 @@ export class OutputSanitizer {
     // Remove absolute paths - replace with relative paths
     let sanitized = output;
 
-    // Common path patterns to sanitize
-    const pathPatterns = [
+    // Common path patterns to sanitize, each with its replacement. Absolute paths must not be
+    // preceded by a path character so that relative paths inside the source tree (src/a/b.cpp)
+    // are left intact.
+    const pathPatterns: Array<[RegExp, string]> = [
       // Unix-style absolute paths
-      /\/[a-zA-Z0-9_./\-]+\/workspace\/([a-zA-Z0-9_./\-]+)/g,
-      /\/tmp\/[a-zA-Z0-9_./\-]+\/([a-zA-Z0-9_./\-]+)/g,
-      /\/[a-zA-Z0-9_./\-]*\/([a-zA-Z0-9_./\-]*\.(cpp|c|h|hpp|cc|cxx))([:\s])/g,
+      [/\/[a-zA-Z0-9_./\-]+\/workspace\/([a-zA-Z0-9_./\-]+)/g, '$1'],
+      [/\/tmp\/[a-zA-Z0-9_./\-]+\/([a-zA-Z0-9_./\-]+)/g, '$1'],
+      [/(?<![a-zA-Z0-9_.-])\/[a-zA-Z0-9_./\-]*\/([a-zA-Z0-9_./\-]*\.(cpp|c|h|hpp|cc|cxx))([:\s])/g, '$1$3'],
       
       // Windows-style paths (if any)
-      /[A-Z]:\\[a-zA-Z0-9_.\\\-]+\\workspace\\([a-zA-Z0-9_.\\\-]+)/g,
-      /[A-Z]:\\[a-zA-Z0-9_.\\\-]+\\([a-zA-Z0-9_.\\\-]*\.(cpp|c|h|hpp|cc|cxx))([:\s])/g,
+      [/[A-Z]:\\[a-zA-Z0-9_.\\\-]+\\workspace\\([a-zA-Z0-9_.\\\-]+)/g, '$1'],
+      [/[A-Z]:\\[a-zA-Z0-9_.\\\-]+\\([a-zA-Z0-9_.\\\-]*\.(cpp|c|h|hpp|cc|cxx))([:\s])/g, '$1$3'],
     ];
 
-    pathPatterns.forEach(pattern => {
-      sanitized = sanitized.replace(pattern, (match, filename, ext, suffix) => {
-        if (suffix) {
-          return `${filename}${ext}${suffix}`;
-        }
-        return filename;
-      });
+    pathPatterns.forEach(([pattern, replacement]) => {
+      sanitized = sanitized.replace(pattern, replacement);
     });
 
     // Remove container-specific information
@@ -147,6 +145,39 @@ export class OutputSanitizer {
     return sanitized;
   }
 
+  static sanitizeDiagnostics(diagnostics: DiagnosticMessage[]): DiagnosticMessage[] {
+    return diagnostics.map((diagnostic) => ({
+      ...diagnostic,
+      file: this.sanitizeDiagnosticFile(diagnostic.file),
+      message: this.sanitizeCompilerOutput(diagnostic.message),
+      ranges: diagnostic.ranges?.map((range) => ({
+        start: this.sanitizeLocation(range.start),
+        end: this.sanitizeLocation(range.end),
+      })),
+      children: diagnostic.children && this.sanitizeDiagnostics(diagnostic.children),
+    }));
+  }
+
+  private static sanitizeLocation(location: SourceLocation): SourceLocation {
+    return { ...location, file: this.sanitizeDiagnosticFile(location.file) };
+  }
+
+  private static sanitizeDiagnosticFile(file?: string): string | undefined {
+    // Files inside the source tree are relative; system headers are reported by name only
+    return file && path.isAbsolute(file) ? path.basename(file) : file;
+  }
+
+  static sanitizeArtifact(artifact: string, workDir: string): string {
+    if (typeof artifact !== 'string') {
+      return '';
+    }
+
+    // IR and assembly reference the work directory in debug info and file directives
+    let sanitized = artifact.split(workDir).join('.');
+    sanitized = this.limitOutputSize(sanitized);
+    return sanitized;
+  }
+
   static sanitizeAST(ast: string): string {
     let sanitized = ast;
     sanitized = this.sanitizeFilePaths(sanitized);
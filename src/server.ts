@@ -8,20 +8,59 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { CompilationTool } from './tools/CompilationTool.js';
+import { ExecutionTool } from './tools/ExecutionTool.js';
 import { StaticAnalysisTool } from './tools/StaticAnalysisTool.js';
 import { ASTTool } from './tools/ASTTool.js';
+import { PreprocessorTool } from './tools/PreprocessorTool.js';
+import { SizeTool } from './tools/SizeTool.js';
+import { TestRunnerTool } from './tools/TestRunnerTool.js';
+import { OptimizerTool } from './tools/OptimizerTool.js';
+import { ThroughputTool } from './tools/ThroughputTool.js';
+import { TidyTool } from './tools/TidyTool.js';
 import { logger } from './utils/logger.js';
+import { toolchains } from './utils/toolchains.js';
 import type { 
   CompilationOptions, 
+  ExecutionOptions,
   StaticAnalysisOptions, 
-  ASTOptions 
+  ASTOptions,
+  PreprocessOptions,
+  SizeOptions,
+  TestOptions,
+  OptimizeOptions,
+  ThroughputOptions,
+  TidyOptions,
+  ASTFormat,
+  AnalysisMode,
+  AssemblySyntax,
+  IRDumpFormat,
+  InliningMode,
+  InterproceduralAnalysis,
+  LanguageStandard,
+  LibraryName,
+  MacroDump,
+  OptimizationLevel,
+  OutputMode,
+  RemarkKind,
+  SanitizerKind,
+  SizeVariant,
+  TargetTriple,
+  TestFramework,
+  WarningLevel
 } from './types/index.js';
 
 export class LLVMMCPServer {
   private server: Server;
   private compilationTool: CompilationTool;
+  private executionTool: ExecutionTool;
   private staticAnalysisTool: StaticAnalysisTool;
   private astTool: ASTTool;
+  private preprocessorTool: PreprocessorTool;
+  private sizeTool: SizeTool;
+  private testRunnerTool: TestRunnerTool;
+  private optimizerTool: OptimizerTool;
+  private throughputTool: ThroughputTool;
+  private tidyTool: TidyTool;
 
   constructor() {
     this.server = new Server(
@@ -39,8 +78,15 @@ export class LLVMMCPServer {
 
     // Initialize tools
     this.compilationTool = new CompilationTool();
+    this.executionTool = new ExecutionTool();
     this.staticAnalysisTool = new StaticAnalysisTool();
     this.astTool = new ASTTool();
+    this.preprocessorTool = new PreprocessorTool();
+    this.sizeTool = new SizeTool();
+    this.testRunnerTool = new TestRunnerTool();
+    this.optimizerTool = new OptimizerTool();
+    this.throughputTool = new ThroughputTool();
+    this.tidyTool = new TidyTool();
 
     this.setupHandlers();
   }
@@ -59,23 +105,783 @@ export class LLVMMCPServer {
                 type: 'string',
                 description: 'C/C++ source code to compile',
               },
+              files: {
+                type: 'object',
+                additionalProperties: { type: 'string' },
+                description: 'Virtual file tree mapping relative paths to contents (alternative to source_code)',
+              },
+              entry_points: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Translation units within files to compile (default: all .c/.cpp files)',
+              },
+              language: {
+                type: 'string',
+                description: 'Language standard; selects C or C++ for every translation unit, gnu* for GNU dialects',
+                enum: [
+                  'c89', 'c99', 'c11', 'c17', 'c23',
+                  'gnu89', 'gnu99', 'gnu11', 'gnu17', 'gnu23',
+                  'c++98', 'c++03', 'c++11', 'c++14', 'c++17', 'c++20', 'c++23',
+                  'gnu++98', 'gnu++03', 'gnu++11', 'gnu++14', 'gnu++17', 'gnu++20', 'gnu++23',
+                ],
+                default: 'c++17',
+              },
+              compiler: {
+                type: 'string',
+                description: 'Toolchain to use, e.g. clang-18 or gcc-13, or a family (clang, gcc) for its default version (see llvm://toolchains)',
+              },
+              optimization: {
+                type: 'string',
+                description: 'Optimization level',
+                enum: ['O0', 'O1', 'O2', 'O3', 'Os', 'Oz', 'Ofast'],
+                default: 'O2',
+              },
+              warnings: {
+                type: 'string',
+                description: 'Warning level',
+                enum: ['none', 'all', 'extra', 'pedantic', 'error'],
+                default: 'pedantic',
+              },
+              defines: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Preprocessor definitions',
+                default: [],
+              },
+              includes: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Additional include paths, relative to the file tree',
+                default: [],
+              },
+              libraries: {
+                type: 'array',
+                items: { type: 'string', enum: ['fmt', 'nlohmann_json', 'range-v3', 'catch2', 'doctest'] },
+                description: 'Bundled header-only libraries to make available (see llvm://libraries)',
+                default: [],
+              },
+              flags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Additional compiler flags',
+                default: [],
+              },
+              compile_only: {
+                type: 'boolean',
+                description: 'Compile only, do not link',
+                default: true,
+              },
+              output_mode: {
+                type: 'string',
+                description: 'Artifact to return: object (discarded), textual LLVM IR, target assembly, or the disassembled object with encodings and relocations (llvm-objdump), per function',
+                enum: ['object', 'llvm-ir', 'assembly', 'disassemble'],
+                default: 'object',
+              },
+              asm_syntax: {
+                type: 'string',
+                description: 'Assembly syntax for output_mode assembly or disassemble',
+                enum: ['att', 'intel'],
+                default: 'att',
+              },
+              asm_filter: {
+                type: 'boolean',
+                description: 'Return assembly as source-mapped blocks with directives, comments and unused labels removed',
+                default: true,
+              },
+              interleave_source: {
+                type: 'boolean',
+                description: 'Compile with debug information and interleave source lines with the disassembly (output_mode disassemble)',
+                default: false,
+              },
+              source_lines: {
+                type: 'object',
+                description: 'Only return assembly generated from this source line range',
+                properties: {
+                  file: { type: 'string', description: 'Source file within the file tree' },
+                  start: { type: 'number', minimum: 1 },
+                  end: { type: 'number', minimum: 1 },
+                },
+                required: ['start', 'end'],
+              },
+              target: {
+                type: 'string',
+                description: 'Cross-compilation target triple; requires compile_only or the llvm-ir, assembly or disassemble output mode',
+                enum: [
+                  'x86_64-linux-gnu',
+                  'x86_64-linux-musl',
+                  'aarch64-linux-gnu',
+                  'aarch64-none-elf',
+                  'armv7a-linux-gnueabihf',
+                  'thumbv7m-none-eabi',
+                  'thumbv7em-none-eabihf',
+                  'riscv64-linux-gnu',
+                  'riscv64-unknown-elf',
+                  'riscv32-unknown-elf',
+                  'wasm32-unknown-unknown',
+                  'wasm32-wasi',
+                ],
+              },
+              cpu: {
+                type: 'string',
+                description: 'CPU for the target (see llvm://compiler-info), e.g. cortex-m4 or sifive-u74',
+              },
+              apply_fixits: {
+                type: 'boolean',
+                description: 'Apply fix-it hints from the compiler and return the patched files with a unified diff',
+                default: false,
+              },
+              time_trace: {
+                type: 'boolean',
+                description: 'Profile compilation with -ftime-trace and return the phases, headers and template instantiations that took longest',
+                default: false,
+              },
+              time_trace_raw: {
+                type: 'boolean',
+                description: 'Also return the raw Chrome trace JSON of each translation unit (requires time_trace)',
+                default: false,
+              },
+              remarks: {
+                type: 'array',
+                items: { type: 'string', enum: ['passed', 'missed', 'analysis', 'failure'] },
+                description: 'Return these kinds of optimization remarks (e.g. why a loop was not vectorized), grouped by source line',
+                default: [],
+              },
+              remark_passes: {
+                type: 'string',
+                description: 'Regular expression selecting the passes to report remarks for, e.g. loop-vectorize|inline',
+              },
+              timeout: {
+                type: 'number',
+                description: 'Compilation timeout in seconds',
+                minimum: 1,
+                maximum: 60,
+                default: 30,
+              },
+            },
+          },
+        },
+        {
+          name: 'execute_cpp',
+          description: 'Compile, link and run C/C++ source code, capturing its output, exit status and timing',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              source_code: {
+                type: 'string',
+                description: 'C/C++ source code to compile and run',
+              },
+              files: {
+                type: 'object',
+                additionalProperties: { type: 'string' },
+                description: 'Virtual file tree mapping relative paths to contents (alternative to source_code)',
+              },
+              entry_points: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Translation units within files to compile (default: all .c/.cpp files)',
+              },
+              language: {
+                type: 'string',
+                description: 'Language standard',
+                enum: [
+                  'c89', 'c99', 'c11', 'c17', 'c23',
+                  'gnu89', 'gnu99', 'gnu11', 'gnu17', 'gnu23',
+                  'c++98', 'c++03', 'c++11', 'c++14', 'c++17', 'c++20', 'c++23',
+                  'gnu++98', 'gnu++03', 'gnu++11', 'gnu++14', 'gnu++17', 'gnu++20', 'gnu++23',
+                ],
+                default: 'c++17',
+              },
+              compiler: {
+                type: 'string',
+                description: 'Toolchain to use, e.g. clang-18 or gcc-13, or a family (clang, gcc) for its default version (see llvm://toolchains)',
+              },
+              optimization: {
+                type: 'string',
+                description: 'Optimization level',
+                enum: ['O0', 'O1', 'O2', 'O3', 'Os', 'Oz', 'Ofast'],
+                default: 'O2',
+              },
+              warnings: {
+                type: 'string',
+                description: 'Warning level',
+                enum: ['none', 'all', 'extra', 'pedantic', 'error'],
+                default: 'pedantic',
+              },
+              defines: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Preprocessor definitions',
+                default: [],
+              },
+              includes: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Additional include paths, relative to the file tree',
+                default: [],
+              },
+              libraries: {
+                type: 'array',
+                items: { type: 'string', enum: ['fmt', 'nlohmann_json', 'range-v3', 'catch2', 'doctest'] },
+                description: 'Bundled header-only libraries to make available (see llvm://libraries)',
+                default: [],
+              },
+              flags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Additional compiler flags',
+                default: [],
+              },
+              timeout: {
+                type: 'number',
+                description: 'Compilation timeout in seconds',
+                minimum: 1,
+                maximum: 60,
+                default: 30,
+              },
+              stdin: {
+                type: 'string',
+                description: 'Data written to the standard input of the program',
+                default: '',
+              },
+              args: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Command line arguments passed to the program',
+                default: [],
+              },
+              env: {
+                type: 'object',
+                additionalProperties: { type: 'string' },
+                description: 'Environment variables for the program (PATH and LD_* are not allowed)',
+                default: {},
+              },
+              run_timeout: {
+                type: 'number',
+                description: 'Program run timeout in seconds',
+                minimum: 1,
+                maximum: 60,
+                default: 10,
+              },
+              sanitizers: {
+                type: 'array',
+                items: { type: 'string', enum: ['address', 'undefined', 'thread', 'leak', 'memory'] },
+                description: 'Build with these sanitizers and return structured sanitizer reports',
+                default: [],
+              },
+              coverage: {
+                type: 'boolean',
+                description: 'Build with source-based coverage (Clang only) and return per-line counts, branch counts, uncovered regions and line/function/region/branch percentages',
+                default: false,
+              },
+            },
+          },
+        },
+        {
+          name: 'run_tests',
+          description: 'Build C++ unit tests against GoogleTest, Catch2 or doctest, run them and return the result of each test case with failure messages and locations',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              source_code: {
+                type: 'string',
+                description: 'C++ source code with the tests',
+              },
+              files: {
+                type: 'object',
+                additionalProperties: { type: 'string' },
+                description: 'Virtual file tree mapping relative paths to contents (alternative to source_code)',
+              },
+              entry_points: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Translation units within files to compile (default: all .c/.cpp files)',
+              },
+              framework: {
+                type: 'string',
+                description: 'Test framework; Catch2 (v2, catch2/catch.hpp) and doctest get a generated main() unless the sources define CATCH_CONFIG_MAIN/RUNNER or DOCTEST_CONFIG_IMPLEMENT, GoogleTest links gtest_main',
+                enum: ['gtest', 'catch2', 'doctest'],
+              },
+              filter: {
+                type: 'string',
+                description: 'Tests to run, in the framework\'s syntax: --gtest_filter pattern, Catch2 test spec or doctest test case pattern',
+              },
+              language: {
+                type: 'string',
+                description: 'Language standard',
+                enum: [
+                  'c++98', 'c++03', 'c++11', 'c++14', 'c++17', 'c++20', 'c++23',
+                  'gnu++98', 'gnu++03', 'gnu++11', 'gnu++14', 'gnu++17', 'gnu++20', 'gnu++23',
+                ],
+                default: 'c++17',
+              },
+              compiler: {
+                type: 'string',
+                description: 'Toolchain to use, e.g. clang-18 or gcc-13, or a family (clang, gcc) for its default version (see llvm://toolchains)',
+              },
+              optimization: {
+                type: 'string',
+                description: 'Optimization level',
+                enum: ['O0', 'O1', 'O2', 'O3', 'Os', 'Oz', 'Ofast'],
+                default: 'O0',
+              },
+              warnings: {
+                type: 'string',
+                description: 'Warning level',
+                enum: ['none', 'all', 'extra', 'pedantic', 'error'],
+                default: 'all',
+              },
+              defines: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Preprocessor definitions',
+                default: [],
+              },
+              includes: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Additional include paths, relative to the file tree',
+                default: [],
+              },
+              libraries: {
+                type: 'array',
+                items: { type: 'string', enum: ['fmt', 'nlohmann_json', 'range-v3', 'catch2', 'doctest'] },
+                description: 'Bundled header-only libraries to make available besides the test framework (see llvm://libraries)',
+                default: [],
+              },
+              flags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Additional compiler flags',
+                default: [],
+              },
+              timeout: {
+                type: 'number',
+                description: 'Compilation timeout in seconds',
+                minimum: 1,
+                maximum: 60,
+                default: 30,
+              },
+              run_timeout: {
+                type: 'number',
+                description: 'Test run timeout in seconds',
+                minimum: 1,
+                maximum: 60,
+                default: 10,
+              },
+              coverage: {
+                type: 'boolean',
+                description: 'Build with source-based coverage (Clang only) and return which lines, branches and regions the tests executed',
+                default: false,
+              },
+            },
+            required: ['framework'],
+          },
+        },
+        {
+          name: 'analyze_cpp',
+          description: 'Perform static analysis on C/C++ code using Clang Static Analyzer. The returned budget reports only whether the timeout cut analysis short, not functions that ran out of max_nodes',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              source_code: {
+                type: 'string',
+                description: 'C/C++ source code to analyze',
+              },
+              files: {
+                type: 'object',
+                additionalProperties: { type: 'string' },
+                description: 'Virtual file tree mapping relative paths to contents (alternative to source_code)',
+              },
+              entry_points: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Translation units within files to compile (default: all .c/.cpp files)',
+              },
+              language: {
+                type: 'string',
+                description: 'Language standard',
+                enum: [
+                  'c89', 'c99', 'c11', 'c17', 'c23',
+                  'gnu89', 'gnu99', 'gnu11', 'gnu17', 'gnu23',
+                  'c++98', 'c++03', 'c++11', 'c++14', 'c++17', 'c++20', 'c++23',
+                  'gnu++98', 'gnu++03', 'gnu++11', 'gnu++14', 'gnu++17', 'gnu++20', 'gnu++23',
+                ],
+                default: 'c++17',
+              },
+              compiler: {
+                type: 'string',
+                description: 'Clang toolchain to use, e.g. clang-18 (see llvm://toolchains); default: the default Clang',
+              },
+              checkers: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Static analysis checkers or packages to enable, e.g. cplusplus.NewDelete or optin.performance.Padding (see llvm://checkers)',
+                default: [],
+              },
+              analyzer_config: {
+                type: 'object',
+                description: 'Analyzer settings that trade depth for speed',
+                properties: {
+                  mode: {
+                    type: 'string',
+                    enum: ['shallow', 'deep'],
+                    description: 'shallow explores fewer paths and inlines less (default: deep)',
+                  },
+                  ipa: {
+                    type: 'string',
+                    enum: ['none', 'basic-inlining', 'inlining', 'dynamic', 'dynamic-bifurcation'],
+                    description: 'How calls are followed into their definitions (default: dynamic-bifurcation)',
+                  },
+                  inlining_mode: {
+                    type: 'string',
+                    enum: ['all', 'noredundancy'],
+                    description: 'noredundancy skips functions already analyzed when inlined (default: noredundancy)',
+                  },
+                  max_nodes: {
+                    type: 'number',
+                    minimum: 1,
+                    maximum: 1000000,
+                    description: 'Exploded graph nodes per top-level function before its remaining paths are dropped; running out is not reported in budget',
+                  },
+                  aggressive_binary_operation_simplification: {
+                    type: 'boolean',
+                    description: 'Solve more symbolic comparisons and arithmetic, at some cost',
+                  },
+                },
+              },
+              defines: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Preprocessor definitions',
+                default: [],
+              },
+              includes: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Additional include paths, relative to the file tree',
+                default: [],
+              },
+              libraries: {
+                type: 'array',
+                items: { type: 'string', enum: ['fmt', 'nlohmann_json', 'range-v3', 'catch2', 'doctest'] },
+                description: 'Bundled header-only libraries to make available (see llvm://libraries)',
+                default: [],
+              },
+              timeout: {
+                type: 'number',
+                description: 'Timeout in seconds for all translation units together; units not reached are skipped and reported as budget.timedOut',
+                minimum: 1,
+                maximum: 60,
+                default: 60,
+              },
+            },
+          },
+        },
+        {
+          name: 'get_ast',
+          description: 'Generate Abstract Syntax Tree (AST) for C/C++ code',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              source_code: {
+                type: 'string',
+                description: 'C/C++ source code',
+              },
+              files: {
+                type: 'object',
+                additionalProperties: { type: 'string' },
+                description: 'Virtual file tree mapping relative paths to contents (alternative to source_code)',
+              },
+              entry_points: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Translation units within files to compile (default: all .c/.cpp files)',
+              },
+              language: {
+                type: 'string',
+                description: 'Language standard',
+                enum: [
+                  'c89', 'c99', 'c11', 'c17', 'c23',
+                  'gnu89', 'gnu99', 'gnu11', 'gnu17', 'gnu23',
+                  'c++98', 'c++03', 'c++11', 'c++14', 'c++17', 'c++20', 'c++23',
+                  'gnu++98', 'gnu++03', 'gnu++11', 'gnu++14', 'gnu++17', 'gnu++20', 'gnu++23',
+                ],
+                default: 'c++17',
+              },
+              compiler: {
+                type: 'string',
+                description: 'Clang toolchain to use, e.g. clang-18 (see llvm://toolchains); default: the default Clang',
+              },
+              includes: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Additional include paths, relative to the file tree',
+                default: [],
+              },
+              libraries: {
+                type: 'array',
+                items: { type: 'string', enum: ['fmt', 'nlohmann_json', 'range-v3', 'catch2', 'doctest'] },
+                description: 'Bundled header-only libraries to make available (see llvm://libraries)',
+                default: [],
+              },
+              format: {
+                type: 'string',
+                description: 'AST output format',
+                enum: ['json', 'dump', 'graphviz'],
+                default: 'dump',
+              },
+            },
+          },
+        },
+        {
+          name: 'preprocess_cpp',
+          description: 'Run the C/C++ preprocessor and return the expanded source and macro definitions',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              source_code: {
+                type: 'string',
+                description: 'C/C++ source code',
+              },
+              files: {
+                type: 'object',
+                additionalProperties: { type: 'string' },
+                description: 'Virtual file tree mapping relative paths to contents (alternative to source_code)',
+              },
+              entry_points: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Translation unit within files to preprocess (exactly one when the tree has several)',
+              },
+              language: {
+                type: 'string',
+                description: 'Language standard',
+                enum: [
+                  'c89', 'c99', 'c11', 'c17', 'c23',
+                  'gnu89', 'gnu99', 'gnu11', 'gnu17', 'gnu23',
+                  'c++98', 'c++03', 'c++11', 'c++14', 'c++17', 'c++20', 'c++23',
+                  'gnu++98', 'gnu++03', 'gnu++11', 'gnu++14', 'gnu++17', 'gnu++20', 'gnu++23',
+                ],
+                default: 'c++17',
+              },
+              compiler: {
+                type: 'string',
+                description: 'Toolchain to use, e.g. clang-18 or gcc-13, or a family (clang, gcc) for its default version (see llvm://toolchains)',
+              },
+              defines: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Preprocessor definitions',
+                default: [],
+              },
+              includes: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Additional include paths, relative to the file tree',
+                default: [],
+              },
+              libraries: {
+                type: 'array',
+                items: { type: 'string', enum: ['fmt', 'nlohmann_json', 'range-v3', 'catch2', 'doctest'] },
+                description: 'Bundled header-only libraries to make available (see llvm://libraries)',
+                default: [],
+              },
+              line_markers: {
+                type: 'boolean',
+                description: 'Keep # line markers in the expanded output',
+                default: false,
+              },
+              macros: {
+                type: 'string',
+                description: 'Macro definitions to return: none, final (defined at the end of the translation unit) or history (every #define and #undef in order)',
+                enum: ['none', 'final', 'history'],
+                default: 'final',
+              },
+              system_macros: {
+                type: 'boolean',
+                description: 'Also return built-in macros and macros from system headers',
+                default: false,
+              },
+              timeout: {
+                type: 'number',
+                description: 'Preprocessing timeout in seconds',
+                minimum: 1,
+                maximum: 60,
+                default: 30,
+              },
+            },
+          },
+        },
+        {
+          name: 'size_cpp',
+          description: 'Compile C/C++ code and report section sizes and the largest symbols, optionally compared with a second set of options',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              source_code: {
+                type: 'string',
+                description: 'C/C++ source code to compile',
+              },
+              files: {
+                type: 'object',
+                additionalProperties: { type: 'string' },
+                description: 'Virtual file tree mapping relative paths to contents (alternative to source_code)',
+              },
+              entry_points: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Translation units within files to compile (default: all .c/.cpp files)',
+              },
+              language: {
+                type: 'string',
+                description: 'Language standard',
+                enum: [
+                  'c89', 'c99', 'c11', 'c17', 'c23',
+                  'gnu89', 'gnu99', 'gnu11', 'gnu17', 'gnu23',
+                  'c++98', 'c++03', 'c++11', 'c++14', 'c++17', 'c++20', 'c++23',
+                  'gnu++98', 'gnu++03', 'gnu++11', 'gnu++14', 'gnu++17', 'gnu++20', 'gnu++23',
+                ],
+                default: 'c++17',
+              },
+              compiler: {
+                type: 'string',
+                description: 'Toolchain to use, e.g. clang-18 or gcc-13, or a family (clang, gcc) for its default version (see llvm://toolchains)',
+              },
+              optimization: {
+                type: 'string',
+                description: 'Optimization level',
+                enum: ['O0', 'O1', 'O2', 'O3', 'Os', 'Oz', 'Ofast'],
+                default: 'O2',
+              },
+              defines: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Preprocessor definitions',
+                default: [],
+              },
+              includes: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Additional include paths, relative to the file tree',
+                default: [],
+              },
+              libraries: {
+                type: 'array',
+                items: { type: 'string', enum: ['fmt', 'nlohmann_json', 'range-v3', 'catch2', 'doctest'] },
+                description: 'Bundled header-only libraries to make available (see llvm://libraries)',
+                default: [],
+              },
+              flags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Additional compiler flags',
+                default: [],
+              },
+              compile_only: {
+                type: 'boolean',
+                description: 'Measure the object files instead of the linked program',
+                default: true,
+              },
+              target: {
+                type: 'string',
+                description: 'Cross-compilation target triple; requires compile_only',
+                enum: [
+                  'x86_64-linux-gnu',
+                  'x86_64-linux-musl',
+                  'aarch64-linux-gnu',
+                  'aarch64-none-elf',
+                  'armv7a-linux-gnueabihf',
+                  'thumbv7m-none-eabi',
+                  'thumbv7em-none-eabihf',
+                  'riscv64-linux-gnu',
+                  'riscv64-unknown-elf',
+                  'riscv32-unknown-elf',
+                  'wasm32-unknown-unknown',
+                  'wasm32-wasi',
+                ],
+              },
+              cpu: {
+                type: 'string',
+                description: 'CPU for the target (see llvm://compiler-info), e.g. cortex-m4 or sifive-u74',
+              },
+              compare_with: {
+                type: 'object',
+                description: 'Options for a second build of the same sources; the response includes its sizes and the differences',
+                properties: {
+                  optimization: {
+                    type: 'string',
+                    enum: ['O0', 'O1', 'O2', 'O3', 'Os', 'Oz', 'Ofast'],
+                  },
+                  defines: { type: 'array', items: { type: 'string' } },
+                  flags: { type: 'array', items: { type: 'string' } },
+                  cpu: { type: 'string' },
+                  compiler: { type: 'string' },
+                },
+              },
+              timeout: {
+                type: 'number',
+                description: 'Compilation timeout in seconds',
+                minimum: 1,
+                maximum: 60,
+                default: 30,
+              },
+            },
+          },
+        },
+        {
+          name: 'optimize_ir',
+          description: 'Run an LLVM opt pass pipeline on C/C++ code or LLVM IR and show how each pass changed the IR',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              source_code: {
+                type: 'string',
+                description: 'C/C++ source code, compiled to IR first',
+              },
+              files: {
+                type: 'object',
+                additionalProperties: { type: 'string' },
+                description: 'Virtual file tree mapping relative paths to contents (alternative to source_code)',
+              },
+              entry_points: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Translation unit within files to compile (exactly one when the tree has several)',
+              },
+              ir: {
+                type: 'string',
+                description: 'Textual LLVM IR to optimize instead of source code',
+              },
+              passes: {
+                type: 'string',
+                description: 'New pass manager pipeline, e.g. "function(sroa,instcombine,loop-mssa(licm))" or "default<O2>" (pass names: see llvm://passes)',
+              },
+              dump: {
+                type: 'string',
+                description: 'How each change is shown: a unified diff against the IR before the pass, or the full module after it; large outputs are cut off and marked truncated',
+                enum: ['diff', 'full'],
+                default: 'diff',
+              },
               language: {
                 type: 'string',
-                description: 'Language standard (c++11, c++14, c++17, c++20, c++23)',
-                enum: ['c89', 'c99', 'c11', 'c17', 'c23', 'c++98', 'c++03', 'c++11', 'c++14', 'c++17', 'c++20', 'c++23'],
+                description: 'Language standard',
+                enum: [
+                  'c89', 'c99', 'c11', 'c17', 'c23',
+                  'gnu89', 'gnu99', 'gnu11', 'gnu17', 'gnu23',
+                  'c++98', 'c++03', 'c++11', 'c++14', 'c++17', 'c++20', 'c++23',
+                  'gnu++98', 'gnu++03', 'gnu++11', 'gnu++14', 'gnu++17', 'gnu++20', 'gnu++23',
+                ],
                 default: 'c++17',
               },
-              optimization: {
+              compiler: {
                 type: 'string',
-                description: 'Optimization level',
-                enum: ['O0', 'O1', 'O2', 'O3', 'Os', 'Oz', 'Ofast'],
-                default: 'O2',
+                description: 'Clang toolchain that compiles the sources to IR and whose opt runs the pipeline, e.g. clang-18 (see llvm://toolchains)',
               },
-              warnings: {
+              optimization: {
                 type: 'string',
-                description: 'Warning level',
-                enum: ['none', 'all', 'extra', 'pedantic', 'error'],
-                default: 'pedantic',
+                description: 'Optimization level of the IR handed to opt; O0 keeps it unoptimized without marking functions optnone',
+                enum: ['O0', 'O1', 'O2', 'O3', 'Os', 'Oz', 'Ofast'],
+                default: 'O0',
               },
               defines: {
                 type: 'array',
@@ -86,7 +892,13 @@ export class LLVMMCPServer {
               includes: {
                 type: 'array',
                 items: { type: 'string' },
-                description: 'Additional include paths',
+                description: 'Additional include paths, relative to the file tree',
+                default: [],
+              },
+              libraries: {
+                type: 'array',
+                items: { type: 'string', enum: ['fmt', 'nlohmann_json', 'range-v3', 'catch2', 'doctest'] },
+                description: 'Bundled header-only libraries to make available (see llvm://libraries)',
                 default: [],
               },
               flags: {
@@ -95,43 +907,68 @@ export class LLVMMCPServer {
                 description: 'Additional compiler flags',
                 default: [],
               },
-              compile_only: {
-                type: 'boolean',
-                description: 'Compile only, do not link',
-                default: true,
-              },
               timeout: {
                 type: 'number',
-                description: 'Compilation timeout in seconds',
+                description: 'Timeout in seconds for compiling and for running opt',
                 minimum: 1,
                 maximum: 60,
                 default: 30,
               },
             },
-            required: ['source_code'],
+            required: ['passes'],
           },
         },
         {
-          name: 'analyze_cpp',
-          description: 'Perform static analysis on C/C++ code using Clang Static Analyzer',
+          name: 'analyze_throughput',
+          description: 'Compile C/C++ code to assembly and simulate it with llvm-mca: IPC, block reciprocal throughput, resource pressure and bottlenecks of marked regions or a whole function',
           inputSchema: {
             type: 'object',
             properties: {
               source_code: {
                 type: 'string',
-                description: 'C/C++ source code to analyze',
+                description: 'C/C++ source code; mark regions with asm volatile("# LLVM-MCA-BEGIN name") and asm volatile("# LLVM-MCA-END")',
+              },
+              files: {
+                type: 'object',
+                additionalProperties: { type: 'string' },
+                description: 'Virtual file tree mapping relative paths to contents (alternative to source_code)',
+              },
+              entry_points: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Translation unit within files to compile (exactly one when the tree has several)',
+              },
+              function: {
+                type: 'string',
+                description: 'Analyze this whole function instead of the marked regions, by name (C++ names with or without parameter types)',
+              },
+              iterations: {
+                type: 'number',
+                description: 'Simulated iterations of each region',
+                minimum: 1,
+                maximum: 10000,
+                default: 100,
               },
               language: {
                 type: 'string',
                 description: 'Language standard',
-                enum: ['c89', 'c99', 'c11', 'c17', 'c23', 'c++98', 'c++03', 'c++11', 'c++14', 'c++17', 'c++20', 'c++23'],
+                enum: [
+                  'c89', 'c99', 'c11', 'c17', 'c23',
+                  'gnu89', 'gnu99', 'gnu11', 'gnu17', 'gnu23',
+                  'c++98', 'c++03', 'c++11', 'c++14', 'c++17', 'c++20', 'c++23',
+                  'gnu++98', 'gnu++03', 'gnu++11', 'gnu++14', 'gnu++17', 'gnu++20', 'gnu++23',
+                ],
                 default: 'c++17',
               },
-              checkers: {
-                type: 'array',
-                items: { type: 'string' },
-                description: 'Static analysis checkers to enable',
-                default: [],
+              compiler: {
+                type: 'string',
+                description: 'Toolchain to use, e.g. clang-18 or gcc-13, or a family (clang, gcc) for its default version (see llvm://toolchains)',
+              },
+              optimization: {
+                type: 'string',
+                description: 'Optimization level',
+                enum: ['O0', 'O1', 'O2', 'O3', 'Os', 'Oz', 'Ofast'],
+                default: 'O2',
               },
               defines: {
                 type: 'array',
@@ -142,37 +979,133 @@ export class LLVMMCPServer {
               includes: {
                 type: 'array',
                 items: { type: 'string' },
-                description: 'Additional include paths',
+                description: 'Additional include paths, relative to the file tree',
+                default: [],
+              },
+              libraries: {
+                type: 'array',
+                items: { type: 'string', enum: ['fmt', 'nlohmann_json', 'range-v3', 'catch2', 'doctest'] },
+                description: 'Bundled header-only libraries to make available (see llvm://libraries)',
+                default: [],
+              },
+              flags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Additional compiler flags',
                 default: [],
               },
+              target: {
+                type: 'string',
+                description: 'Target triple to compile and simulate for (default: the host)',
+                enum: [
+                  'x86_64-linux-gnu',
+                  'x86_64-linux-musl',
+                  'aarch64-linux-gnu',
+                  'aarch64-none-elf',
+                  'armv7a-linux-gnueabihf',
+                  'thumbv7m-none-eabi',
+                  'thumbv7em-none-eabihf',
+                  'riscv64-linux-gnu',
+                  'riscv64-unknown-elf',
+                  'riscv32-unknown-elf',
+                ],
+              },
+              cpu: {
+                type: 'string',
+                description: 'CPU whose scheduling model is simulated, e.g. skylake, znver3 or cortex-a72; requires target (see llvm://compiler-info). Default: the target\'s default CPU, or the host CPU without a target',
+              },
+              timeout: {
+                type: 'number',
+                description: 'Timeout in seconds for compiling and for running llvm-mca',
+                minimum: 1,
+                maximum: 60,
+                default: 30,
+              },
             },
-            required: ['source_code'],
           },
         },
         {
-          name: 'get_ast',
-          description: 'Generate Abstract Syntax Tree (AST) for C/C++ code',
+          name: 'tidy_cpp',
+          description: 'Lint C/C++ code with clang-tidy: findings with their check name, location and fix-its, and optionally the sources with the fixes applied',
           inputSchema: {
             type: 'object',
             properties: {
               source_code: {
                 type: 'string',
-                description: 'C/C++ source code',
+                description: 'C/C++ source code to lint',
+              },
+              files: {
+                type: 'object',
+                additionalProperties: { type: 'string' },
+                description: 'Virtual file tree mapping relative paths to contents (alternative to source_code); findings in headers are reported too',
+              },
+              entry_points: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Translation units within files to lint (default: all .c/.cpp files)',
+              },
+              checks: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Checks to run as globs, e.g. modernize-*, bugprone-*, performance-*, cppcoreguidelines-*; a leading - disables matching checks (default: bugprone-*, performance-*, modernize-* without modernize-use-trailing-return-type)',
+              },
+              check_options: {
+                type: 'object',
+                additionalProperties: { type: 'string' },
+                description: 'Check options as <check>.<Option>: value, e.g. {"readability-identifier-naming.VariableCase": "camelBack"}',
+              },
+              fix: {
+                type: 'boolean',
+                description: 'Apply the fix-its of all findings and return the patched files with a unified diff',
+                default: false,
               },
               language: {
                 type: 'string',
                 description: 'Language standard',
-                enum: ['c89', 'c99', 'c11', 'c17', 'c23', 'c++98', 'c++03', 'c++11', 'c++14', 'c++17', 'c++20', 'c++23'],
+                enum: [
+                  'c89', 'c99', 'c11', 'c17', 'c23',
+                  'gnu89', 'gnu99', 'gnu11', 'gnu17', 'gnu23',
+                  'c++98', 'c++03', 'c++11', 'c++14', 'c++17', 'c++20', 'c++23',
+                  'gnu++98', 'gnu++03', 'gnu++11', 'gnu++14', 'gnu++17', 'gnu++20', 'gnu++23',
+                ],
                 default: 'c++17',
               },
-              format: {
+              compiler: {
                 type: 'string',
-                description: 'AST output format',
-                enum: ['json', 'dump', 'graphviz'],
-                default: 'dump',
+                description: 'Clang toolchain whose clang-tidy runs, e.g. clang-18 (see llvm://toolchains); default: the default Clang',
+              },
+              defines: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Preprocessor definitions',
+                default: [],
+              },
+              includes: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Additional include paths, relative to the file tree',
+                default: [],
+              },
+              libraries: {
+                type: 'array',
+                items: { type: 'string', enum: ['fmt', 'nlohmann_json', 'range-v3', 'catch2', 'doctest'] },
+                description: 'Bundled header-only libraries to make available (see llvm://libraries)',
+                default: [],
+              },
+              flags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Additional compiler flags; warning flags such as -Wall add clang-diagnostic-* findings',
+                default: [],
+              },
+              timeout: {
+                type: 'number',
+                description: 'Timeout in seconds',
+                minimum: 1,
+                maximum: 60,
+                default: 60,
               },
             },
-            required: ['source_code'],
           },
         },
       ],
@@ -190,13 +1123,31 @@ export class LLVMMCPServer {
         {
           uri: 'llvm://compiler-info',
           name: 'Compiler Information',
-          description: 'Information about the LLVM/Clang installation',
+          description: 'Version and default target of each installed toolchain and of the default one, and supported cross-compilation targets',
+          mimeType: 'application/json',
+        },
+        {
+          uri: 'llvm://toolchains',
+          name: 'Installed Toolchains',
+          description: 'Clang and GCC versions selectable with the compiler option, and the default',
+          mimeType: 'application/json',
+        },
+        {
+          uri: 'llvm://libraries',
+          name: 'Bundled Libraries',
+          description: 'Header-only libraries selectable with the libraries option, their versions and headers',
+          mimeType: 'application/json',
+        },
+        {
+          uri: 'llvm://passes',
+          name: 'Optimization Passes',
+          description: 'Passes and analyses of the default toolchain\'s opt that optimize_ir pipelines may use, by IR unit',
           mimeType: 'application/json',
         },
         {
           uri: 'llvm://checkers',
           name: 'Available Static Analysis Checkers',
-          description: 'List of available static analysis checkers',
+          description: 'Checkers of the installed Clang Static Analyzer with their descriptions, including opt-in and experimental (alpha) checkers',
           mimeType: 'application/json',
         },
       ],
@@ -209,10 +1160,24 @@ export class LLVMMCPServer {
       switch (name) {
         case 'compile_cpp':
           return await this.handleCompileCpp(args);
+        case 'execute_cpp':
+          return await this.handleExecuteCpp(args);
+        case 'run_tests':
+          return await this.handleRunTests(args);
         case 'analyze_cpp':
           return await this.handleAnalyzeCpp(args);
         case 'get_ast':
           return await this.handleGetAst(args);
+        case 'preprocess_cpp':
+          return await this.handlePreprocessCpp(args);
+        case 'size_cpp':
+          return await this.handleSizeCpp(args);
+        case 'optimize_ir':
+          return await this.handleOptimizeIr(args);
+        case 'analyze_throughput':
+          return await this.handleAnalyzeThroughput(args);
+        case 'tidy_cpp':
+          return await this.handleTidyCpp(args);
         default:
           throw new Error(`Unknown tool: ${name}`);
       }
@@ -232,6 +1197,8 @@ export class LLVMMCPServer {
                 text: JSON.stringify({
                   c_standards: ['c89', 'c99', 'c11', 'c17', 'c23'],
                   cpp_standards: ['c++98', 'c++03', 'c++11', 'c++14', 'c++17', 'c++20', 'c++23'],
+                  gnu_c_standards: ['gnu89', 'gnu99', 'gnu11', 'gnu17', 'gnu23'],
+                  gnu_cpp_standards: ['gnu++98', 'gnu++03', 'gnu++11', 'gnu++14', 'gnu++17', 'gnu++20', 'gnu++23'],
                 }),
               },
             ],
@@ -242,11 +1209,37 @@ export class LLVMMCPServer {
               {
                 uri,
                 mimeType: 'application/json',
-                text: JSON.stringify({
-                  compiler: 'clang',
-                  version: 'Dynamic (retrieved from container)',
-                  target: 'x86_64-alpine-linux-musl',
-                }),
+                text: JSON.stringify(this.compilationTool.getCompilerInfo()),
+              },
+            ],
+          };
+        case 'llvm://toolchains':
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: 'application/json',
+                text: JSON.stringify({ toolchains: toolchains.list() }),
+              },
+            ],
+          };
+        case 'llvm://libraries':
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: 'application/json',
+                text: JSON.stringify({ libraries: await this.compilationTool.getLibraries() }),
+              },
+            ],
+          };
+        case 'llvm://passes':
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: 'application/json',
+                text: JSON.stringify({ passes: await this.optimizerTool.getPasses() }),
               },
             ],
           };
@@ -256,51 +1249,226 @@ export class LLVMMCPServer {
               {
                 uri,
                 mimeType: 'application/json',
-                text: JSON.stringify({
-                  core: ['core.CallAndMessage', 'core.DivideZero', 'core.NonNullParamChecker'],
-                  deadcode: ['deadcode.DeadStores'],
-                  security: ['security.insecureAPI.UncheckedReturn'],
-                  unix: ['unix.Malloc', 'unix.MallocSizeof'],
-                }),
+                text: JSON.stringify({ checkers: await this.staticAnalysisTool.getCheckers() }),
+              },
+            ],
+          };
+        default:
+          throw new Error(`Unknown resource: ${uri}`);
+      }
+    });
+  }
+
+  private async handleCompileCpp(args: unknown): Promise<{ content: { type: string; text: string }[] }> {
+    try {
+      const validatedArgs = z
+        .object({
+          source_code: z.string().optional(),
+          files: z.record(z.string()).optional(),
+          entry_points: z.array(z.string()).optional(),
+          language: z.string().optional().default('c++17'),
+          compiler: z.string().optional(),
+          optimization: z.string().optional().default('O2'),
+          warnings: z.string().optional().default('pedantic'),
+          defines: z.array(z.string()).optional().default([]),
+          includes: z.array(z.string()).optional().default([]),
+          libraries: z.array(z.string()).optional().default([]),
+          flags: z.array(z.string()).optional().default([]),
+          compile_only: z.boolean().optional().default(true),
+          output_mode: z.string().optional().default('object'),
+          asm_syntax: z.string().optional().default('att'),
+          asm_filter: z.boolean().optional().default(true),
+          interleave_source: z.boolean().optional().default(false),
+          source_lines: z
+            .object({ file: z.string().optional(), start: z.number(), end: z.number() })
+            .optional(),
+          target: z.string().optional(),
+          cpu: z.string().optional(),
+          apply_fixits: z.boolean().optional().default(false),
+          time_trace: z.boolean().optional().default(false),
+          time_trace_raw: z.boolean().optional().default(false),
+          remarks: z.array(z.string()).optional().default([]),
+          remark_passes: z.string().optional(),
+          timeout: z.number().min(1).max(60).optional().default(30),
+        })
+        .parse(args);
+
+      const options: CompilationOptions = {
+        sourceCode: validatedArgs.source_code,
+        files: validatedArgs.files,
+        entryPoints: validatedArgs.entry_points,
+        language: validatedArgs.language as LanguageStandard,
+        compiler: validatedArgs.compiler,
+        optimization: validatedArgs.optimization as OptimizationLevel,
+        warnings: validatedArgs.warnings as WarningLevel,
+        defines: validatedArgs.defines,
+        includes: validatedArgs.includes,
+        libraries: validatedArgs.libraries as LibraryName[],
+        flags: validatedArgs.flags,
+        compileOnly: validatedArgs.compile_only,
+        outputMode: validatedArgs.output_mode as OutputMode,
+        asmSyntax: validatedArgs.asm_syntax as AssemblySyntax,
+        asmFilter: validatedArgs.asm_filter,
+        interleaveSource: validatedArgs.interleave_source,
+        sourceLines: validatedArgs.source_lines,
+        target: validatedArgs.target as TargetTriple,
+        cpu: validatedArgs.cpu,
+        applyFixIts: validatedArgs.apply_fixits,
+        timeTrace: validatedArgs.time_trace,
+        timeTraceRaw: validatedArgs.time_trace_raw,
+        remarks: validatedArgs.remarks as RemarkKind[],
+        remarkPasses: validatedArgs.remark_passes,
+        timeout: validatedArgs.timeout,
+      };
+
+      const result = await this.compilationTool.compile(options);
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('Failed to handle compile_cpp', { error });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: false,
+              error: {
+                code: 'HANDLER_ERROR',
+                message: error instanceof Error ? error.message : 'Unknown error',
+              },
+            }, null, 2),
+          },
+        ],
+      };
+    }
+  }
+
+  private async handleExecuteCpp(args: unknown): Promise<{ content: { type: string; text: string }[] }> {
+    try {
+      const validatedArgs = z
+        .object({
+          source_code: z.string().optional(),
+          files: z.record(z.string()).optional(),
+          entry_points: z.array(z.string()).optional(),
+          language: z.string().optional().default('c++17'),
+          compiler: z.string().optional(),
+          optimization: z.string().optional().default('O2'),
+          warnings: z.string().optional().default('pedantic'),
+          defines: z.array(z.string()).optional().default([]),
+          includes: z.array(z.string()).optional().default([]),
+          libraries: z.array(z.string()).optional().default([]),
+          flags: z.array(z.string()).optional().default([]),
+          timeout: z.number().min(1).max(60).optional().default(30),
+          stdin: z.string().optional().default(''),
+          args: z.array(z.string()).optional().default([]),
+          env: z.record(z.string()).optional().default({}),
+          run_timeout: z.number().min(1).max(60).optional().default(10),
+          sanitizers: z.array(z.string()).optional().default([]),
+          coverage: z.boolean().optional().default(false),
+        })
+        .parse(args);
+
+      const options: ExecutionOptions = {
+        sourceCode: validatedArgs.source_code,
+        files: validatedArgs.files,
+        entryPoints: validatedArgs.entry_points,
+        language: validatedArgs.language as LanguageStandard,
+        compiler: validatedArgs.compiler,
+        optimization: validatedArgs.optimization as OptimizationLevel,
+        warnings: validatedArgs.warnings as WarningLevel,
+        defines: validatedArgs.defines,
+        includes: validatedArgs.includes,
+        libraries: validatedArgs.libraries as LibraryName[],
+        flags: validatedArgs.flags,
+        timeout: validatedArgs.timeout,
+        stdin: validatedArgs.stdin,
+        args: validatedArgs.args,
+        env: validatedArgs.env,
+        runTimeout: validatedArgs.run_timeout,
+        sanitizers: validatedArgs.sanitizers as SanitizerKind[],
+        coverage: validatedArgs.coverage,
+      };
+
+      const result = await this.executionTool.execute(options);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('Failed to handle execute_cpp', { error });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: false,
+              error: {
+                code: 'HANDLER_ERROR',
+                message: error instanceof Error ? error.message : 'Unknown error',
               },
-            ],
-          };
-        default:
-          throw new Error(`Unknown resource: ${uri}`);
-      }
-    });
+            }, null, 2),
+          },
+        ],
+      };
+    }
   }
 
-  private async handleCompileCpp(args: unknown): Promise<{ content: { type: string; text: string }[] }> {
+  private async handleRunTests(args: unknown): Promise<{ content: { type: string; text: string }[] }> {
     try {
       const validatedArgs = z
         .object({
-          source_code: z.string(),
+          source_code: z.string().optional(),
+          files: z.record(z.string()).optional(),
+          entry_points: z.array(z.string()).optional(),
+          framework: z.string(),
+          filter: z.string().optional(),
           language: z.string().optional().default('c++17'),
-          optimization: z.string().optional().default('O2'),
-          warnings: z.string().optional().default('pedantic'),
+          compiler: z.string().optional(),
+          optimization: z.string().optional().default('O0'),
+          warnings: z.string().optional().default('all'),
           defines: z.array(z.string()).optional().default([]),
           includes: z.array(z.string()).optional().default([]),
+          libraries: z.array(z.string()).optional().default([]),
           flags: z.array(z.string()).optional().default([]),
-          compile_only: z.boolean().optional().default(true),
           timeout: z.number().min(1).max(60).optional().default(30),
+          run_timeout: z.number().min(1).max(60).optional().default(10),
+          coverage: z.boolean().optional().default(false),
         })
         .parse(args);
 
-      const options: CompilationOptions = {
+      const options: TestOptions = {
         sourceCode: validatedArgs.source_code,
-        language: validatedArgs.language as any,
-        optimization: validatedArgs.optimization as any,
-        warnings: validatedArgs.warnings as any,
+        files: validatedArgs.files,
+        entryPoints: validatedArgs.entry_points,
+        framework: validatedArgs.framework as TestFramework,
+        filter: validatedArgs.filter,
+        language: validatedArgs.language as LanguageStandard,
+        compiler: validatedArgs.compiler,
+        optimization: validatedArgs.optimization as OptimizationLevel,
+        warnings: validatedArgs.warnings as WarningLevel,
         defines: validatedArgs.defines,
         includes: validatedArgs.includes,
+        libraries: validatedArgs.libraries as LibraryName[],
         flags: validatedArgs.flags,
-        compileOnly: validatedArgs.compile_only,
         timeout: validatedArgs.timeout,
+        runTimeout: validatedArgs.run_timeout,
+        coverage: validatedArgs.coverage,
       };
 
-      const result = await this.compilationTool.compile(options);
-      
+      const result = await this.testRunnerTool.runTests(options);
+
       return {
         content: [
           {
@@ -310,7 +1478,7 @@ export class LLVMMCPServer {
         ],
       };
     } catch (error) {
-      logger.error('Failed to handle compile_cpp', { error });
+      logger.error('Failed to handle run_tests', { error });
       return {
         content: [
           {
@@ -332,20 +1500,48 @@ export class LLVMMCPServer {
     try {
       const validatedArgs = z
         .object({
-          source_code: z.string(),
+          source_code: z.string().optional(),
+          files: z.record(z.string()).optional(),
+          entry_points: z.array(z.string()).optional(),
           language: z.string().optional().default('c++17'),
+          compiler: z.string().optional(),
           checkers: z.array(z.string()).optional().default([]),
+          analyzer_config: z
+            .object({
+              mode: z.string().optional(),
+              ipa: z.string().optional(),
+              inlining_mode: z.string().optional(),
+              max_nodes: z.number().int().min(1).max(1000000).optional(),
+              aggressive_binary_operation_simplification: z.boolean().optional(),
+            })
+            .optional(),
           defines: z.array(z.string()).optional().default([]),
           includes: z.array(z.string()).optional().default([]),
+          libraries: z.array(z.string()).optional().default([]),
+          timeout: z.number().min(1).max(60).optional().default(60),
         })
         .parse(args);
 
+      const analyzerConfig = validatedArgs.analyzer_config;
+
       const options: StaticAnalysisOptions = {
         sourceCode: validatedArgs.source_code,
-        language: validatedArgs.language as any,
+        files: validatedArgs.files,
+        entryPoints: validatedArgs.entry_points,
+        language: validatedArgs.language as LanguageStandard,
+        compiler: validatedArgs.compiler,
         checkers: validatedArgs.checkers,
+        analyzerConfig: analyzerConfig && {
+          mode: analyzerConfig.mode as AnalysisMode,
+          ipa: analyzerConfig.ipa as InterproceduralAnalysis,
+          inliningMode: analyzerConfig.inlining_mode as InliningMode,
+          maxNodes: analyzerConfig.max_nodes,
+          aggressiveBinaryOperationSimplification: analyzerConfig.aggressive_binary_operation_simplification,
+        },
         defines: validatedArgs.defines,
         includes: validatedArgs.includes,
+        libraries: validatedArgs.libraries as LibraryName[],
+        timeout: validatedArgs.timeout,
       };
 
       const result = await this.staticAnalysisTool.analyze(options);
@@ -381,16 +1577,26 @@ export class LLVMMCPServer {
     try {
       const validatedArgs = z
         .object({
-          source_code: z.string(),
+          source_code: z.string().optional(),
+          files: z.record(z.string()).optional(),
+          entry_points: z.array(z.string()).optional(),
           language: z.string().optional().default('c++17'),
+          compiler: z.string().optional(),
+          includes: z.array(z.string()).optional().default([]),
+          libraries: z.array(z.string()).optional().default([]),
           format: z.string().optional().default('dump'),
         })
         .parse(args);
 
       const options: ASTOptions = {
         sourceCode: validatedArgs.source_code,
-        language: validatedArgs.language as any,
-        format: validatedArgs.format as any,
+        files: validatedArgs.files,
+        entryPoints: validatedArgs.entry_points,
+        language: validatedArgs.language as LanguageStandard,
+        compiler: validatedArgs.compiler,
+        includes: validatedArgs.includes,
+        libraries: validatedArgs.libraries as LibraryName[],
+        format: validatedArgs.format as ASTFormat,
       };
 
       const result = await this.astTool.generateAST(options);
@@ -422,7 +1628,356 @@ export class LLVMMCPServer {
     }
   }
 
+  private async handlePreprocessCpp(args: unknown): Promise<{ content: { type: string; text: string }[] }> {
+    try {
+      const validatedArgs = z
+        .object({
+          source_code: z.string().optional(),
+          files: z.record(z.string()).optional(),
+          entry_points: z.array(z.string()).optional(),
+          language: z.string().optional().default('c++17'),
+          compiler: z.string().optional(),
+          defines: z.array(z.string()).optional().default([]),
+          includes: z.array(z.string()).optional().default([]),
+          libraries: z.array(z.string()).optional().default([]),
+          line_markers: z.boolean().optional().default(false),
+          macros: z.string().optional().default('final'),
+          system_macros: z.boolean().optional().default(false),
+          timeout: z.number().min(1).max(60).optional().default(30),
+        })
+        .parse(args);
+
+      const options: PreprocessOptions = {
+        sourceCode: validatedArgs.source_code,
+        files: validatedArgs.files,
+        entryPoints: validatedArgs.entry_points,
+        language: validatedArgs.language as LanguageStandard,
+        compiler: validatedArgs.compiler,
+        defines: validatedArgs.defines,
+        includes: validatedArgs.includes,
+        libraries: validatedArgs.libraries as LibraryName[],
+        lineMarkers: validatedArgs.line_markers,
+        macros: validatedArgs.macros as MacroDump,
+        systemMacros: validatedArgs.system_macros,
+        timeout: validatedArgs.timeout,
+      };
+
+      const result = await this.preprocessorTool.preprocess(options);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('Failed to handle preprocess_cpp', { error });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: false,
+              error: {
+                code: 'HANDLER_ERROR',
+                message: error instanceof Error ? error.message : 'Unknown error',
+              },
+            }, null, 2),
+          },
+        ],
+      };
+    }
+  }
+
+  private async handleSizeCpp(args: unknown): Promise<{ content: { type: string; text: string }[] }> {
+    try {
+      const validatedArgs = z
+        .object({
+          source_code: z.string().optional(),
+          files: z.record(z.string()).optional(),
+          entry_points: z.array(z.string()).optional(),
+          language: z.string().optional().default('c++17'),
+          compiler: z.string().optional(),
+          optimization: z.string().optional().default('O2'),
+          defines: z.array(z.string()).optional().default([]),
+          includes: z.array(z.string()).optional().default([]),
+          libraries: z.array(z.string()).optional().default([]),
+          flags: z.array(z.string()).optional().default([]),
+          compile_only: z.boolean().optional().default(true),
+          target: z.string().optional(),
+          cpu: z.string().optional(),
+          compare_with: z
+            .object({
+              optimization: z.string().optional(),
+              defines: z.array(z.string()).optional(),
+              flags: z.array(z.string()).optional(),
+              cpu: z.string().optional(),
+              compiler: z.string().optional(),
+            })
+            .optional(),
+          timeout: z.number().min(1).max(60).optional().default(30),
+        })
+        .parse(args);
+
+      const options: SizeOptions = {
+        sourceCode: validatedArgs.source_code,
+        files: validatedArgs.files,
+        entryPoints: validatedArgs.entry_points,
+        language: validatedArgs.language as LanguageStandard,
+        compiler: validatedArgs.compiler,
+        optimization: validatedArgs.optimization as OptimizationLevel,
+        defines: validatedArgs.defines,
+        includes: validatedArgs.includes,
+        libraries: validatedArgs.libraries as LibraryName[],
+        flags: validatedArgs.flags,
+        compileOnly: validatedArgs.compile_only,
+        target: validatedArgs.target as TargetTriple,
+        cpu: validatedArgs.cpu,
+        compareWith: validatedArgs.compare_with as SizeVariant,
+        timeout: validatedArgs.timeout,
+      };
+
+      const result = await this.sizeTool.analyzeSize(options);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('Failed to handle size_cpp', { error });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: false,
+              error: {
+                code: 'HANDLER_ERROR',
+                message: error instanceof Error ? error.message : 'Unknown error',
+              },
+            }, null, 2),
+          },
+        ],
+      };
+    }
+  }
+
+  private async handleOptimizeIr(args: unknown): Promise<{ content: { type: string; text: string }[] }> {
+    try {
+      const validatedArgs = z
+        .object({
+          source_code: z.string().optional(),
+          files: z.record(z.string()).optional(),
+          entry_points: z.array(z.string()).optional(),
+          ir: z.string().optional(),
+          passes: z.string(),
+          dump: z.string().optional().default('diff'),
+          language: z.string().optional().default('c++17'),
+          compiler: z.string().optional(),
+          optimization: z.string().optional().default('O0'),
+          defines: z.array(z.string()).optional().default([]),
+          includes: z.array(z.string()).optional().default([]),
+          libraries: z.array(z.string()).optional().default([]),
+          flags: z.array(z.string()).optional().default([]),
+          timeout: z.number().min(1).max(60).optional().default(30),
+        })
+        .parse(args);
+
+      const options: OptimizeOptions = {
+        sourceCode: validatedArgs.source_code,
+        files: validatedArgs.files,
+        entryPoints: validatedArgs.entry_points,
+        ir: validatedArgs.ir,
+        passes: validatedArgs.passes,
+        dump: validatedArgs.dump as IRDumpFormat,
+        language: validatedArgs.language as LanguageStandard,
+        compiler: validatedArgs.compiler,
+        optimization: validatedArgs.optimization as OptimizationLevel,
+        defines: validatedArgs.defines,
+        includes: validatedArgs.includes,
+        libraries: validatedArgs.libraries as LibraryName[],
+        flags: validatedArgs.flags,
+        timeout: validatedArgs.timeout,
+      };
+
+      const result = await this.optimizerTool.optimize(options);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('Failed to handle optimize_ir', { error });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: false,
+              error: {
+                code: 'HANDLER_ERROR',
+                message: error instanceof Error ? error.message : 'Unknown error',
+              },
+            }, null, 2),
+          },
+        ],
+      };
+    }
+  }
+
+  private async handleAnalyzeThroughput(args: unknown): Promise<{ content: { type: string; text: string }[] }> {
+    try {
+      const validatedArgs = z
+        .object({
+          source_code: z.string().optional(),
+          files: z.record(z.string()).optional(),
+          entry_points: z.array(z.string()).optional(),
+          function: z.string().optional(),
+          iterations: z.number().int().min(1).max(10000).optional(),
+          language: z.string().optional().default('c++17'),
+          compiler: z.string().optional(),
+          optimization: z.string().optional().default('O2'),
+          defines: z.array(z.string()).optional().default([]),
+          includes: z.array(z.string()).optional().default([]),
+          libraries: z.array(z.string()).optional().default([]),
+          flags: z.array(z.string()).optional().default([]),
+          target: z.string().optional(),
+          cpu: z.string().optional(),
+          timeout: z.number().min(1).max(60).optional().default(30),
+        })
+        .parse(args);
+
+      const options: ThroughputOptions = {
+        sourceCode: validatedArgs.source_code,
+        files: validatedArgs.files,
+        entryPoints: validatedArgs.entry_points,
+        function: validatedArgs.function,
+        iterations: validatedArgs.iterations,
+        language: validatedArgs.language as LanguageStandard,
+        compiler: validatedArgs.compiler,
+        optimization: validatedArgs.optimization as OptimizationLevel,
+        defines: validatedArgs.defines,
+        includes: validatedArgs.includes,
+        libraries: validatedArgs.libraries as LibraryName[],
+        flags: validatedArgs.flags,
+        target: validatedArgs.target as TargetTriple,
+        cpu: validatedArgs.cpu,
+        timeout: validatedArgs.timeout,
+      };
+
+      const result = await this.throughputTool.analyzeThroughput(options);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('Failed to handle analyze_throughput', { error });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: false,
+              error: {
+                code: 'HANDLER_ERROR',
+                message: error instanceof Error ? error.message : 'Unknown error',
+              },
+            }, null, 2),
+          },
+        ],
+      };
+    }
+  }
+
+  private async handleTidyCpp(args: unknown): Promise<{ content: { type: string; text: string }[] }> {
+    try {
+      const validatedArgs = z
+        .object({
+          source_code: z.string().optional(),
+          files: z.record(z.string()).optional(),
+          entry_points: z.array(z.string()).optional(),
+          checks: z.array(z.string()).optional(),
+          check_options: z.record(z.string()).optional(),
+          fix: z.boolean().optional().default(false),
+          language: z.string().optional().default('c++17'),
+          compiler: z.string().optional(),
+          defines: z.array(z.string()).optional().default([]),
+          includes: z.array(z.string()).optional().default([]),
+          libraries: z.array(z.string()).optional().default([]),
+          flags: z.array(z.string()).optional().default([]),
+          timeout: z.number().min(1).max(60).optional().default(60),
+        })
+        .parse(args);
+
+      const options: TidyOptions = {
+        sourceCode: validatedArgs.source_code,
+        files: validatedArgs.files,
+        entryPoints: validatedArgs.entry_points,
+        checks: validatedArgs.checks,
+        checkOptions: validatedArgs.check_options,
+        fix: validatedArgs.fix,
+        language: validatedArgs.language as LanguageStandard,
+        compiler: validatedArgs.compiler,
+        defines: validatedArgs.defines,
+        includes: validatedArgs.includes,
+        libraries: validatedArgs.libraries as LibraryName[],
+        flags: validatedArgs.flags,
+        timeout: validatedArgs.timeout,
+      };
+
+      const result = await this.tidyTool.tidy(options);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('Failed to handle tidy_cpp', { error });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: false,
+              error: {
+                code: 'HANDLER_ERROR',
+                message: error instanceof Error ? error.message : 'Unknown error',
+              },
+            }, null, 2),
+          },
+        ],
+      };
+    }
+  }
+
   async run(): Promise<void> {
+    // Compilers are probed once; requests select among them by id
+    await toolchains.discover();
+
+    // The analyzer's checkers are listed once, for validation and llvm://checkers
+    await this.staticAnalysisTool.getCheckers().catch((error) => {
+      logger.warn('Failed to list static analysis checkers', { error: error instanceof Error ? error.message : error });
+    });
+
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
     logger.info('LLVM MCP Server running on stdio');
@@ -7,7 +7,7 @@ import type {
   ASTFormat,
   ErrorResponse 
 } from '../types/index.js';
-import { BaseClangTool } from './BaseClangTool.js';
+import { BaseClangTool, DEFAULT_LANGUAGE } from './BaseClangTool.js';
 
 export class ASTTool extends BaseClangTool {
   constructor() {
@@ -25,45 +25,52 @@ export class ASTTool extends BaseClangTool {
           success: false,
           error: {
             code: 'VALIDATION_ERROR',
-            message: validationResult.error!,
+            message: validationResult.error ?? 'Validation failed',
           },
         };
       }
 
-      // Execute AST generation with automatic cleanup
-      const result = await this.executeWithCleanup(
-        options.sourceCode,
-        options.language || 'c++17',
-        async (workDir, sourceFile) => {
-          const astCommand = this.buildASTCommand(options, sourceFile, workDir);
-          logger.debug('Generating AST', { command: astCommand, format: options.format });
-          return await this.executeClang(astCommand, 30, 'AST generation timed out');
-        }
-      );
-
-      let astOutput = '';
-      if (result.success) {
-        astOutput = result.stdout;
-      } else {
-        // Sometimes AST is output to stderr
-        astOutput = result.stderr;
-      }
+      // Execute AST generation with automatic cleanup, unless an identical request was cached
+      let timedOut = false;
+      const response = await this.withCache(
+        'get_ast',
+        options,
+        async (): Promise<ASTResponse> => {
+          const result = await this.executeWithCleanup(
+            options,
+            options.language || DEFAULT_LANGUAGE,
+            async (workDir, sourceFiles) => {
+              const astCommand = this.buildASTCommand(options, sourceFiles, workDir);
+              logger.debug('Generating AST', { command: astCommand, format: options.format });
+              return await this.executeClang(astCommand, 30, 'AST generation timed out', workDir);
+            }
+          );
+          timedOut = result.exitCode === -1;
 
-      // Sanitize AST output
-      const sanitizedAST = OutputSanitizer.sanitizeAST(astOutput);
+          let astOutput = '';
+          if (result.success) {
+            astOutput = result.stdout;
+          } else {
+            // Sometimes AST is output to stderr
+            astOutput = result.stderr;
+          }
 
-      const response: ASTResponse = {
-        success: !!astOutput.trim(),
-        ast: sanitizedAST,
-        format: options.format || 'dump',
-        generationTime: (Date.now() - startTime) / 1000,
-      };
+          return {
+            success: !!astOutput.trim(),
+            // Sanitize AST output
+            ast: OutputSanitizer.sanitizeAST(astOutput),
+            format: options.format || 'dump',
+            generationTime: (Date.now() - startTime) / 1000,
+          };
+        },
+        () => !timedOut
+      );
 
       logger.info('AST generation completed', { 
         success: response.success,
         format: response.format,
         generationTime: response.generationTime,
-        astSize: sanitizedAST.length,
+        astSize: response.ast.length,
       });
 
       return response;
@@ -83,8 +90,8 @@ export class ASTTool extends BaseClangTool {
   }
 
   private validateInputs(options: ASTOptions): ValidationResult {
-    // Validate source code
-    let result = InputValidator.validateSourceCode(options.sourceCode);
+    // Validate source code or file tree
+    let result = InputValidator.validateSourceInput(options);
     if (!result.success) return result;
 
     // Validate language standard
@@ -93,6 +100,18 @@ export class ASTTool extends BaseClangTool {
       if (!result.success) return result;
     }
 
+    // Validate includes
+    if (options.includes) {
+      result = InputValidator.validateIncludes(options.includes);
+      if (!result.success) return result;
+    }
+
+    // Validate bundled libraries
+    if (options.libraries) {
+      result = InputValidator.validateLibraries(options.libraries);
+      if (!result.success) return result;
+    }
+
     // Validate AST format
     if (options.format) {
       const validFormats: ASTFormat[] = ['json', 'dump', 'graphviz'];
@@ -104,24 +123,20 @@ export class ASTTool extends BaseClangTool {
       }
     }
 
+    // Validate compiler selection
+    result = this.validateToolchain(options.compiler, 'AST generation');
+    if (!result.success) return result;
+
     return { success: true };
   }
 
-  private buildASTCommand(options: ASTOptions, sourceFile: string, workDir: string): string[] {
-    const command = ['clang'];
+  private buildASTCommand(options: ASTOptions, sourceFiles: string[], workDir: string): string[] {
+    const language = options.language || DEFAULT_LANGUAGE;
+    const command = [this.getDriver(this.getToolchain(options.compiler), language)];
     const format = options.format || 'dump';
 
-    // Language detection and configuration
-    if (options.language) {
-      if (options.language.startsWith('c++')) {
-        command.push('-x', 'c++', `-std=${options.language}`);
-      } else {
-        command.push('-x', 'c', `-std=${options.language}`);
-      }
-    } else {
-      // Default to C++17
-      command.push('-x', 'c++', '-std=c++17');
-    }
+    // Language and standard
+    command.push(...this.getLanguageFlags(language));
 
     // AST output format
     switch (format) {
@@ -141,11 +156,21 @@ export class ASTTool extends BaseClangTool {
         command.push('-Xclang', '-ast-dump', '-fsyntax-only');
     }
 
+    // Include paths (relative to the source tree)
+    if (options.includes) {
+      for (const include of options.includes) {
+        command.push(`-I${include}`);
+      }
+    }
+
+    // Bundled header-only libraries
+    command.push(...this.getLibraryFlags(options.libraries));
+
     // Disable warnings to focus on AST
     command.push('-w');
 
-    // Source file
-    command.push(sourceFile);
+    // Source files
+    command.push(...sourceFiles);
 
     return command;
   }
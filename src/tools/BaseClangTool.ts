@@ -2,7 +2,28 @@ import { promises as fs } from 'fs';
 import { spawn } from 'child_process';
 import * as path from 'path';
 import { randomUUID } from 'crypto';
+import { constants as osConstants } from 'os';
+import { InputValidator, type ValidationResult } from '../security/InputValidator.js';
+import { OutputSanitizer } from '../security/OutputSanitizer.js';
+import { SerializedDiagnosticsParser } from '../parsers/SerializedDiagnosticsParser.js';
+import { GccDiagnosticsParser } from '../parsers/GccDiagnosticsParser.js';
+import { FixItApplier } from '../utils/fixits.js';
+import { UnifiedDiff } from '../utils/diff.js';
 import { logger } from '../utils/logger.js';
+import { ResultCache, resultCache } from '../utils/cache.js';
+import { toolchains } from '../utils/toolchains.js';
+import type {
+  CompilationDiagnostics,
+  DiagnosticMessage,
+  ExecutionResult,
+  FixItResult,
+  LanguageStandard,
+  LibraryName,
+  SourceFiles,
+  SourceInput,
+  SourceLanguage,
+  Toolchain
+} from '../types/index.js';
 
 export interface ClangExecutionResult {
   success: boolean;
@@ -11,6 +32,48 @@ export interface ClangExecutionResult {
   stderr: string;
 }
 
+export interface DiagnosticExecutionResult extends ClangExecutionResult {
+  diagnostics: DiagnosticMessage[];
+}
+
+export interface ProgramExecutionOptions {
+  cwd: string;
+  timeout: number;
+  stdin?: string;
+  args?: string[];
+  env?: Record<string, string>;
+}
+
+// Runs the program through Perl, whose `system` returns the wait status, telling a program killed
+// by a signal from one that exited with 128 + its number, and whose `times` reports the CPU time
+// of the child once it exits. The status and timings are written to fd 3 as one final line,
+// keeping the program's own stdout/stderr untouched. fd 3 is closed when the program starts
+// so that it cannot forge the report.
+const RUN_WRAPPER_SCRIPT = [
+  'use Fcntl;',
+  "open(my $report, '>&=', 3) or die \"fd 3: $!\\n\";",
+  'fcntl($report, F_SETFD, FD_CLOEXEC);',
+  'if (system({ $ARGV[0] } @ARGV) == -1) { print STDERR "$ARGV[0]: $!\\n"; $? = 127 << 8; }',
+  'my (undef, undef, $user, $system) = times;',
+  'my ($key, $value) = $? & 127 ? ("signal", $? & 127) : ("status", $? >> 8);',
+  'print $report "$key=$value user=$user system=$system\\n";',
+  'exit($key eq "signal" ? 128 + $value : $value);',
+].join('\n');
+
+// Final line of the wrapper's report
+const RUN_REPORT_PATTERN = /^(status|signal)=(\d+) user=([\d.]+) system=([\d.]+)$/gm;
+
+const MAX_PROGRAM_OUTPUT = 1024 * 1024; // 1MB per stream
+
+// Standard used when a request does not select one
+export const DEFAULT_LANGUAGE: LanguageStandard = 'c++17';
+
+// Vendored header-only libraries, one <name>/include directory each
+const LIBRARY_DIR = process.env.MCP_LIBRARY_DIR || '/opt/mcp-libraries';
+
+// Plain one-line diagnostics with machine-readable fix-it hints
+const GCC_DIAGNOSTIC_FLAGS = ['-fdiagnostics-color=never', '-fno-diagnostics-show-caret', '-fdiagnostics-parseable-fixits'];
+
 export abstract class BaseClangTool {
   protected readonly tempDir: string;
 
@@ -49,11 +112,20 @@ export abstract class BaseClangTool {
   }
 
   /**
-   * Execute a clang command with timeout and proper process management
+   * Execute a clang command with timeout and proper process management.
+   * Commands run inside the work directory so that relative source and include paths resolve against it.
+   * `maxOutput` stops buffering each stream once it reaches that many characters.
    */
-  protected async executeClang(command: string[], timeout: number, timeoutMessage?: string): Promise<ClangExecutionResult> {
+  protected async executeClang(
+    command: string[],
+    timeout: number,
+    timeoutMessage?: string,
+    cwd?: string,
+    maxOutput = Infinity
+  ): Promise<ClangExecutionResult> {
     return new Promise((resolve) => {
       const process = spawn(command[0], command.slice(1), {
+        cwd,
         stdio: ['pipe', 'pipe', 'pipe'],
       });
 
@@ -78,12 +150,12 @@ export abstract class BaseClangTool {
         });
       }, timeout * 1000);
 
-      process.stdout?.on('data', (data) => {
-        stdout += data.toString();
+      process.stdout?.on('data', (data: Buffer) => {
+        if (stdout.length < maxOutput) stdout += data.toString();
       });
 
-      process.stderr?.on('data', (data) => {
-        stderr += data.toString();
+      process.stderr?.on('data', (data: Buffer) => {
+        if (stderr.length < maxOutput) stderr += data.toString();
       });
 
       process.on('close', (code) => {
@@ -108,30 +180,381 @@ export abstract class BaseClangTool {
     });
   }
 
+  /**
+   * Run one compiler job per translation unit, collecting structured diagnostics from the
+   * serialized diagnostics file each job writes next to its source (`<file>.dia`). Clang
+   * rewrites that file for every job, so several inputs cannot share one driver invocation.
+   * GCC has no such file; its textual diagnostics are parsed instead. The timeout applies
+   * to all jobs together.
+   */
+  protected async executeClangPerUnit(
+    sourceFiles: string[],
+    buildCommand: (sourceFile: string, index: number) => string[],
+    timeout: number,
+    timeoutMessage: string,
+    workDir: string,
+    toolchain: Toolchain
+  ): Promise<DiagnosticExecutionResult> {
+    const deadline = Date.now() + timeout * 1000;
+    const combined: DiagnosticExecutionResult = {
+      success: true,
+      exitCode: 0,
+      stdout: '',
+      stderr: '',
+      diagnostics: [],
+    };
+
+    for (const [index, sourceFile] of sourceFiles.entries()) {
+      const remaining = (deadline - Date.now()) / 1000;
+      if (remaining <= 0) {
+        return { ...combined, success: false, exitCode: -1, stderr: `${combined.stderr}\n${timeoutMessage}` };
+      }
+
+      const diagnosticsFile = `${sourceFile}.dia`;
+      const command = toolchain.family === 'gcc'
+        ? [...buildCommand(sourceFile, index), ...GCC_DIAGNOSTIC_FLAGS]
+        : [...buildCommand(sourceFile, index), '--serialize-diagnostics', diagnosticsFile];
+      logger.debug('Executing compiler job', { command });
+      const result = await this.executeClang(command, remaining, timeoutMessage, workDir);
+
+      combined.stdout += result.stdout;
+      combined.stderr += result.stderr;
+      combined.diagnostics.push(...(toolchain.family === 'gcc'
+        ? OutputSanitizer.sanitizeDiagnostics(GccDiagnosticsParser.parse(result.stderr))
+        : await this.readSerializedDiagnostics(path.join(workDir, diagnosticsFile))));
+
+      if (!result.success) {
+        combined.success = false;
+        combined.exitCode = combined.exitCode || result.exitCode;
+        // A timed out job used up the whole budget
+        if (result.exitCode === -1) break;
+      }
+    }
+
+    return combined;
+  }
+
+  /**
+   * Read a serialized diagnostics file; it is missing when the driver fails before compiling
+   */
+  private async readSerializedDiagnostics(filePath: string): Promise<DiagnosticMessage[]> {
+    try {
+      const data = await fs.readFile(filePath);
+      return OutputSanitizer.sanitizeDiagnostics(SerializedDiagnosticsParser.parse(data));
+    } catch (error) {
+      logger.debug('No serialized diagnostics available', {
+        filePath,
+        error: error instanceof Error ? error.message : error,
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Sort top-level diagnostics by severity; notes attached to an error or warning stay nested under it
+   */
+  protected groupDiagnostics(messages: DiagnosticMessage[]): CompilationDiagnostics {
+    const diagnostics: CompilationDiagnostics = {
+      errors: [],
+      warnings: [],
+      notes: [],
+    };
+
+    for (const diagnostic of messages) {
+      switch (diagnostic.severity) {
+        case 'error':
+          diagnostics.errors.push(diagnostic);
+          break;
+        case 'warning':
+          diagnostics.warnings.push(diagnostic);
+          break;
+        case 'note':
+          diagnostics.notes.push(diagnostic);
+          break;
+      }
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Run a compiled program with stdin, arguments and environment, measuring wall and CPU time
+   */
+  protected async executeProgram(binary: string, options: ProgramExecutionOptions): Promise<ExecutionResult> {
+    return new Promise((resolve) => {
+      const startTime = process.hrtime.bigint();
+      const child = spawn('perl', ['-e', RUN_WRAPPER_SCRIPT, '--', binary, ...(options.args || [])], {
+        cwd: options.cwd,
+        // Only PATH is inherited; the server environment is never exposed to user programs
+        env: { PATH: process.env.PATH || '/usr/bin:/bin', ...options.env },
+        stdio: ['pipe', 'pipe', 'pipe', 'pipe'],
+        detached: true,
+      });
+
+      let stdout = '';
+      let stderr = '';
+      let report = '';
+      let timedOut = false;
+      let settled = false;
+
+      const killGroup = (): void => {
+        try {
+          if (child.pid) process.kill(-child.pid, 'SIGKILL');
+        } catch {
+          // Process group already gone
+        }
+      };
+
+      // A descendant that left the process group may keep the pipes open, so the result cannot
+      // wait for them to close
+      const timeoutHandle = setTimeout(() => {
+        timedOut = true;
+        killGroup();
+        child.stdout?.destroy();
+        child.stderr?.destroy();
+        child.stdio[3]?.destroy();
+        finish({ exitCode: null, signal: 'SIGKILL', cpuTime: null });
+      }, options.timeout * 1000);
+
+      const append = (current: string, data: Buffer): string =>
+        current.length >= MAX_PROGRAM_OUTPUT ? current : current + data.toString();
+
+      child.stdout?.on('data', (data: Buffer) => {
+        stdout = append(stdout, data);
+      });
+
+      child.stderr?.on('data', (data: Buffer) => {
+        stderr = append(stderr, data);
+      });
+
+      child.stdio[3]?.on('data', (data: Buffer) => {
+        report += data.toString();
+      });
+
+      // The program may exit without reading its input
+      child.stdin?.on('error', () => {});
+      child.stdin?.end(options.stdin || '');
+
+      const finish = (result: Omit<ExecutionResult, 'wallTime' | 'stdout' | 'stderr' | 'timedOut'>): void => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeoutHandle);
+        killGroup();
+        resolve({
+          ...result,
+          stdout: OutputSanitizer.limitOutputSize(stdout, MAX_PROGRAM_OUTPUT),
+          stderr: OutputSanitizer.limitOutputSize(stderr, MAX_PROGRAM_OUTPUT),
+          timedOut,
+          wallTime: Number(process.hrtime.bigint() - startTime) / 1e9,
+        });
+      };
+
+      child.on('close', (code, signal) => {
+        // The wrapper writes its report last
+        const reportMatch = [...report.matchAll(RUN_REPORT_PATTERN)].pop();
+        if (!reportMatch) {
+          // The wrapper itself was killed (timeout) before it could report
+          finish({ exitCode: code, signal, cpuTime: null });
+          return;
+        }
+
+        const [, kind, value, user, system] = reportMatch;
+        const number = parseInt(value, 10);
+        finish({
+          exitCode: kind === 'status' ? number : null,
+          signal: kind === 'signal' ? this.signalName(number) || `SIG${number}` : null,
+          cpuTime: { user: parseFloat(user), system: parseFloat(system) },
+        });
+      });
+
+      child.on('error', (error) => {
+        stderr += `\nProcess error: ${error.message}`;
+        finish({ exitCode: -1, signal: null, cpuTime: null });
+      });
+    });
+  }
+
+  private signalName(signalNumber: number): string | null {
+    const entry = Object.entries(osConstants.signals).find(([, value]) => value === signalNumber);
+    return entry ? entry[0] : null;
+  }
+
+  /**
+   * Answer a request from the result cache, or run it and cache the result. The key covers
+   * the tool, the compiler version and its LLVM tools, the source tree and every option except
+   * the timeout, which does not change a result that completed in time. `cacheable` rejects
+   * results that may differ on a retry, such as timeouts.
+   */
+  protected async withCache<T extends object>(
+    tool: string,
+    options: SourceInput & { language?: LanguageStandard; compiler?: string; timeout?: number },
+    compute: () => Promise<T>,
+    cacheable: (result: T) => boolean = () => true
+  ): Promise<T & { cached?: boolean }> {
+    if (!resultCache.enabled) {
+      return compute();
+    }
+
+    const language = options.language || DEFAULT_LANGUAGE;
+    const settings = Object.fromEntries(
+      Object.entries(options).filter(([name]) => !['sourceCode', 'files', 'entryPoints', 'timeout'].includes(name))
+    );
+    const toolchain = this.getToolchain(options.compiler);
+    const key = ResultCache.createKey({
+      tool,
+      toolchain: [toolchain.id, toolchain.version, toolchain.target, toolchain.tools],
+      sources: this.getSourceFiles(options, language),
+      entryPoints: this.getEntryPoints(options, language),
+      settings,
+    });
+
+    const cached = await resultCache.get<T>(key);
+    if (cached) {
+      logger.debug('Serving cached result', { tool, key });
+      return { ...cached, cached: true };
+    }
+
+    const result = await compute();
+    if (cacheable(result)) {
+      await resultCache.set(key, result);
+    }
+    return result;
+  }
+
+  /**
+   * The installed toolchain for a compiler selection; selections are validated up front
+   */
+  protected getToolchain(compiler?: string): Toolchain {
+    const toolchain = toolchains.find(compiler);
+    if (!toolchain) {
+      throw new Error(`Unknown compiler: ${compiler}`);
+    }
+    return toolchain;
+  }
+
+  /**
+   * Check that a compiler selection names an installed toolchain, and that it is Clang when
+   * the request relies on a Clang-only feature
+   */
+  protected validateToolchain(compiler: string | undefined, clangOnlyFeature?: string): ValidationResult {
+    const toolchain = toolchains.find(compiler);
+    if (!toolchain) {
+      const available = toolchains.list().map((candidate) => candidate.id).join(', ');
+      return { success: false, error: `Unknown compiler: ${compiler}. Available: ${available}` };
+    }
+
+    if (clangOnlyFeature && toolchain.family !== 'clang') {
+      return { success: false, error: `${clangOnlyFeature} requires a Clang toolchain, not ${toolchain.id}` };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * The source language of a standard; GNU dialects (gnu11, gnu++20) extend the ISO standard
+   * of the same language
+   */
+  protected getSourceLanguage(language: LanguageStandard): SourceLanguage {
+    return /^(c|gnu)\+\+/.test(language) ? 'c++' : 'c';
+  }
+
+  /**
+   * Language and standard flags. The explicit language makes every translation unit follow
+   * the standard, whatever its extension.
+   */
+  protected getLanguageFlags(language: LanguageStandard): string[] {
+    return ['-x', this.getSourceLanguage(language), `-std=${language}`];
+  }
+
+  /**
+   * The driver for a language; only the C++ driver links the C++ standard library
+   */
+  protected getDriver(toolchain: Toolchain, language: LanguageStandard): string {
+    return this.getSourceLanguage(language) === 'c++' ? toolchain.cxxCompiler : toolchain.cCompiler;
+  }
+
+  /**
+   * Include directory of a bundled library
+   */
+  protected getLibraryIncludeDir(library: LibraryName): string {
+    return path.join(LIBRARY_DIR, library, 'include');
+  }
+
+  /**
+   * Search paths and configuration for the selected bundled libraries. They are system
+   * directories so that warnings inside the libraries do not bury those in the sources.
+   */
+  protected getLibraryFlags(libraries?: LibraryName[]): string[] {
+    const flags: string[] = [];
+    for (const library of InputValidator.getLibraries()) {
+      if (libraries?.includes(library.name)) {
+        flags.push('-isystem', this.getLibraryIncludeDir(library.name));
+        flags.push(...(library.defines || []).map((define) => `-D${define}`));
+      }
+    }
+    return flags;
+  }
+
   /**
    * Get the appropriate file extension for a given language
    */
-  protected getFileExtension(language: string): string {
-    if (language.startsWith('c++') || language === 'cpp') {
-      return 'cpp';
+  protected getFileExtension(language: LanguageStandard): string {
+    return this.getSourceLanguage(language) === 'c++' ? 'cpp' : 'c';
+  }
+
+  /**
+   * Resolve the translation units to compile, relative to the work directory
+   */
+  protected getEntryPoints(source: SourceInput, language: LanguageStandard): string[] {
+    if (source.files) {
+      return source.entryPoints && source.entryPoints.length > 0
+        ? source.entryPoints
+        : Object.keys(source.files).filter((file) => InputValidator.isTranslationUnit(file));
     }
-    return 'c';
+    return [`source.${this.getFileExtension(language)}`];
+  }
+
+  /**
+   * The source tree as written to the work directory; single sources become `source.<ext>`
+   */
+  protected getSourceFiles(source: SourceInput, language: LanguageStandard): SourceFiles {
+    return source.files || { [`source.${this.getFileExtension(language)}`]: source.sourceCode || '' };
   }
 
   /**
-   * Create a temporary working directory and source file
+   * Apply fix-it hints to the submitted sources and describe the result as a unified diff
    */
-  protected async createWorkEnvironment(sourceCode: string, language: string): Promise<{
+  protected applyFixIts(source: SourceInput, language: LanguageStandard, diagnostics: DiagnosticMessage[]): FixItResult {
+    const sources = this.getSourceFiles(source, language);
+    const { files, applied, skipped } = FixItApplier.apply(sources, diagnostics);
+    const diff = Object.entries(files)
+      .map(([file, content]) => UnifiedDiff.create(file, sources[file], content))
+      .join('');
+
+    return { applied, skipped, files, diff };
+  }
+
+  /**
+   * Create a temporary working directory and write the source tree into it
+   */
+  protected async createWorkEnvironment(source: SourceInput, language: LanguageStandard): Promise<{
     workDir: string;
-    sourceFile: string;
+    sourceFiles: string[];
   }> {
     const workDir = path.join(this.tempDir, randomUUID());
     await fs.mkdir(workDir, { recursive: true });
-    
-    const sourceFile = path.join(workDir, `source.${this.getFileExtension(language)}`);
-    await fs.writeFile(sourceFile, sourceCode);
 
-    return { workDir, sourceFile };
+    for (const [relativePath, contents] of Object.entries(this.getSourceFiles(source, language))) {
+      const filePath = path.join(workDir, relativePath);
+      // Paths are validated up front; this guards against anything escaping the work directory
+      if (!filePath.startsWith(workDir + path.sep)) {
+        throw new Error(`Source path escapes work directory: ${relativePath}`);
+      }
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, contents);
+    }
+
+    return { workDir, sourceFiles: this.getEntryPoints(source, language) };
   }
 
   /**
@@ -149,14 +572,14 @@ export abstract class BaseClangTool {
    * Execute a complete clang operation with automatic cleanup
    */
   protected async executeWithCleanup<T>(
-    sourceCode: string,
-    language: string,
-    operation: (workDir: string, sourceFile: string) => Promise<T>
+    source: SourceInput,
+    language: LanguageStandard,
+    operation: (workDir: string, sourceFiles: string[]) => Promise<T>
   ): Promise<T> {
-    const { workDir, sourceFile } = await this.createWorkEnvironment(sourceCode, language);
+    const { workDir, sourceFiles } = await this.createWorkEnvironment(source, language);
     
     try {
-      return await operation(workDir, sourceFile);
+      return await operation(workDir, sourceFiles);
     } finally {
       await this.cleanupWorkEnvironment(workDir);
     }
@@ -1,16 +1,34 @@
 import { InputValidator, type ValidationResult } from '../security/InputValidator.js';
 import { OutputSanitizer } from '../security/OutputSanitizer.js';
+import { AssemblyParser } from '../parsers/AssemblyParser.js';
+import { DisassemblyParser } from '../parsers/DisassemblyParser.js';
+import { TimeTraceParser } from '../parsers/TimeTraceParser.js';
+import { OptimizationRemarkParser } from '../parsers/OptimizationRemarkParser.js';
+import { CoverageReportParser } from '../parsers/CoverageReportParser.js';
 import { logger } from '../utils/logger.js';
+import { toolchains } from '../utils/toolchains.js';
 import type { 
   CompilationOptions, 
   CompilationResponse, 
-  DiagnosticMessage, 
-  CompilationDiagnostics,
-  ErrorResponse 
+  CompilationArtifact,
+  CompilerInfo,
+  CoverageReport,
+  ErrorResponse,
+  LibraryInfo,
+  OptimizationRemark,
+  OptimizationRemarkGroup,
+  TargetTriple,
+  TimeTraceSummary,
+  Toolchain
 } from '../types/index.js';
-import { BaseClangTool } from './BaseClangTool.js';
+import { BaseClangTool, DEFAULT_LANGUAGE } from './BaseClangTool.js';
+import { promises as fs } from 'fs';
 import * as path from 'path';
 
+// Raw profile written by an instrumented program, and the indexed profile llvm-cov reads
+const COVERAGE_PROFILE = 'coverage.profraw';
+const COVERAGE_DATA = 'coverage.profdata';
+
 export class CompilationTool extends BaseClangTool {
   constructor() {
     super();
@@ -27,49 +45,22 @@ export class CompilationTool extends BaseClangTool {
           success: false,
           error: {
             code: 'VALIDATION_ERROR',
-            message: validationResult.error!,
+            message: validationResult.error ?? 'Validation failed',
           },
         };
       }
 
-      // Execute compilation with automatic cleanup
-      const result = await this.executeWithCleanup(
-        options.sourceCode,
-        options.language || 'c++17',
-        async (workDir, sourceFile) => {
-          const compilerCommand = this.buildCompilerCommand(options, sourceFile, workDir);
-          logger.debug('Executing compilation', { command: compilerCommand });
-          return await this.executeClang(compilerCommand, options.timeout || 30, 'Compilation timed out');
-        }
+      // Execute compilation with automatic cleanup, unless an identical request was cached
+      const response = await this.withCache(
+        'compile_cpp',
+        options,
+        () => this.executeWithCleanup(
+          options,
+          options.language || DEFAULT_LANGUAGE,
+          async (workDir, sourceFiles) => this.compileInWorkDir(options, sourceFiles, workDir)
+        ),
+        (result) => result.exitCode !== -1
       );
-      
-      // Sanitize outputs
-      const sanitizedStdout = OutputSanitizer.sanitizeStdout(result.stdout);
-      const sanitizedStderr = OutputSanitizer.sanitizeStderr(result.stderr);
-
-      // Parse diagnostics from compiler output
-      const diagnostics = this.parseDiagnostics(sanitizedStderr);
-
-      // Get Clang version (if available in stdout)
-      const clangVersion = this.extractClangVersion(result.stdout, result.stderr);
-
-      const response: CompilationResponse = {
-        success: result.success,
-        exitCode: result.exitCode,
-        stdout: sanitizedStdout,
-        stderr: sanitizedStderr,
-        diagnostics,
-        compilationTime: (Date.now() - startTime) / 1000, // Convert to seconds
-        clangVersion,
-      };
-
-      logger.info('Compilation completed', { 
-        success: result.success, 
-        exitCode: result.exitCode,
-        compilationTime: response.compilationTime,
-        errorCount: diagnostics.errors.length,
-        warningCount: diagnostics.warnings.length,
-      });
 
       return response;
 
@@ -87,9 +78,330 @@ export class CompilationTool extends BaseClangTool {
     }
   }
 
-  private validateInputs(options: CompilationOptions): ValidationResult {
-    // Validate source code
-    let result = InputValidator.validateSourceCode(options.sourceCode);
+  /**
+   * Run the compiler inside an existing work environment and build the response
+   */
+  protected async compileInWorkDir(
+    options: CompilationOptions,
+    sourceFiles: string[],
+    workDir: string
+  ): Promise<CompilationResponse> {
+    const startTime = Date.now();
+
+    const timeout = options.timeout || 30;
+    const toolchain = this.getToolchain(options.compiler);
+    const objectFiles = sourceFiles.map((sourceFile) =>
+      this.getUnitOutputFile(options, sourceFile, sourceFiles, workDir)
+    );
+
+    // Compile each translation unit, then link the objects into the program
+    let result = await this.executeClangPerUnit(
+      sourceFiles,
+      (sourceFile, index) => this.buildCompilerCommand(options, toolchain, sourceFile, objectFiles[index]),
+      timeout,
+      'Compilation timed out',
+      workDir,
+      toolchain
+    );
+
+    if (result.success && this.requiresLinking(options)) {
+      const linkCommand = this.buildLinkCommand(options, toolchain, objectFiles, workDir);
+      logger.debug('Executing link', { command: linkCommand });
+      const linkResult = await this.executeClang(linkCommand, timeout, 'Linking timed out', workDir);
+      result = {
+        ...linkResult,
+        stdout: result.stdout + linkResult.stdout,
+        stderr: result.stderr + linkResult.stderr,
+        diagnostics: result.diagnostics,
+      };
+    }
+
+    // Sanitize outputs
+    const sanitizedStdout = OutputSanitizer.sanitizeStdout(result.stdout);
+    const sanitizedStderr = OutputSanitizer.sanitizeStderr(result.stderr);
+
+    // Group structured diagnostics by severity
+    const diagnostics = this.groupDiagnostics(result.diagnostics);
+
+    // Get Clang version (if available in stdout)
+    const clangVersion = this.extractClangVersion(result.stdout, result.stderr);
+
+    const response: CompilationResponse = {
+      success: result.success,
+      exitCode: result.exitCode,
+      stdout: sanitizedStdout,
+      stderr: sanitizedStderr,
+      diagnostics,
+      compilationTime: (Date.now() - startTime) / 1000, // Convert to seconds
+      clangVersion,
+      compiler: toolchain.id,
+    };
+
+    // Return textual artifacts (IR, assembly, disassembly) instead of discarding them
+    const outputMode = options.outputMode || 'object';
+    if (result.success && outputMode === 'disassemble') {
+      response.artifact = await this.disassemble(options, workDir);
+    } else if (result.success && outputMode !== 'object') {
+      const content = await fs.readFile(this.getOutputFile(options, workDir), 'utf8');
+      response.artifact = {
+        mode: outputMode,
+        content: OutputSanitizer.sanitizeArtifact(content, workDir),
+      };
+
+      if (outputMode === 'assembly' && options.asmFilter !== false) {
+        this.filterAssembly(response.artifact, options);
+      }
+    }
+
+    // Summarize where the compiler spent its time in each translation unit
+    if (options.timeTrace) {
+      response.timeTrace = await this.readTimeTraces(options, sourceFiles, workDir);
+    }
+
+    // Explain the optimizer's decisions line by line
+    if (options.remarks?.length) {
+      response.optimizationRemarks = await this.readOptimizationRemarks(options, sourceFiles, workDir);
+    }
+
+    // Patch the sources with the compiler's fix-it hints, whether or not compilation succeeded
+    if (options.applyFixIts) {
+      response.appliedFixIts = this.applyFixIts(options, options.language || DEFAULT_LANGUAGE, result.diagnostics);
+    }
+
+    logger.info('Compilation completed', { 
+      success: result.success, 
+      exitCode: result.exitCode,
+      compilationTime: response.compilationTime,
+      errorCount: diagnostics.errors.length,
+      warningCount: diagnostics.warnings.length,
+    });
+
+    return response;
+  }
+
+  /**
+   * Read the -ftime-trace output of each translation unit; a job that failed writes none
+   */
+  private async readTimeTraces(
+    options: CompilationOptions,
+    sourceFiles: string[],
+    workDir: string
+  ): Promise<TimeTraceSummary[]> {
+    const summaries: TimeTraceSummary[] = [];
+
+    for (const sourceFile of sourceFiles) {
+      try {
+        const content = await fs.readFile(path.join(workDir, this.getTimeTraceFile(sourceFile)), 'utf8');
+        const trace = OutputSanitizer.sanitizeArtifact(content, workDir);
+        const summary = TimeTraceParser.parse(trace, sourceFile);
+        if (options.timeTraceRaw) {
+          summary.trace = trace;
+        }
+        summaries.push(summary);
+      } catch (error) {
+        logger.debug('No time trace for translation unit', {
+          sourceFile,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Read the optimization records of each translation unit and group the selected kinds of
+   * remarks by source line
+   */
+  private async readOptimizationRemarks(
+    options: CompilationOptions,
+    sourceFiles: string[],
+    workDir: string
+  ): Promise<OptimizationRemarkGroup[]> {
+    const kinds = options.remarks || [];
+    const remarks: OptimizationRemark[] = [];
+
+    for (const sourceFile of sourceFiles) {
+      try {
+        const content = await fs.readFile(path.join(workDir, this.getRemarksFile(sourceFile)), 'utf8');
+        const parsed = OptimizationRemarkParser.parse(OutputSanitizer.sanitizeArtifact(content, workDir));
+        remarks.push(...parsed.filter((remark) => kinds.includes(remark.kind)));
+      } catch (error) {
+        logger.debug('No optimization records for translation unit', {
+          sourceFile,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+
+    await this.demangleRemarks(remarks, options.compiler);
+    return OptimizationRemarkParser.groupByLine(remarks);
+  }
+
+  /**
+   * Replace mangled C++ names in remark functions and messages with readable ones
+   */
+  private async demangleRemarks(remarks: OptimizationRemark[], compiler?: string): Promise<void> {
+    const symbolPattern = /\b_Z[\w.$]+/g;
+    const symbols = new Set<string>();
+    for (const remark of remarks) {
+      for (const symbol of `${remark.function} ${remark.message}`.match(symbolPattern) || []) {
+        symbols.add(symbol);
+      }
+    }
+    if (symbols.size === 0) {
+      return;
+    }
+
+    const names = await this.demangle([...symbols], compiler);
+    const demangle = (text: string): string => text.replace(symbolPattern, (symbol) => names.get(symbol) || symbol);
+    for (const remark of remarks) {
+      remark.function = demangle(remark.function);
+      remark.message = demangle(remark.message);
+    }
+  }
+
+  /**
+   * Readable names of mangled C++ symbols; a symbol that cannot be demangled maps to itself
+   */
+  protected async demangle(symbols: string[], compiler?: string): Promise<Map<string, string>> {
+    const cxxfilt = this.getToolchain(compiler).tools['llvm-cxxfilt'];
+    const result = await this.executeClang([cxxfilt, ...symbols], 10, 'Demangling timed out');
+    if (!result.success) {
+      logger.warn('Failed to demangle symbols', { stderr: result.stderr });
+      return new Map(symbols.map((symbol) => [symbol, symbol]));
+    }
+
+    // llvm-cxxfilt prints one line per argument, leaving names it cannot demangle unchanged
+    const demangled = result.stdout.split('\n');
+    return new Map(symbols.map((symbol, index) => [symbol, demangled[index] || symbol]));
+  }
+
+  /**
+   * Instrumentation for source-based coverage; passed on to the link, it adds the profile runtime
+   */
+  protected getCoverageFlags(): string[] {
+    return ['-fprofile-instr-generate', '-fcoverage-mapping'];
+  }
+
+  /**
+   * Environment of an instrumented run, so that the profile lands in the work directory
+   */
+  protected getCoverageEnvironment(): Record<string, string> {
+    return { LLVM_PROFILE_FILE: COVERAGE_PROFILE };
+  }
+
+  /**
+   * Merge the profile of an instrumented run and export the coverage of the submitted sources
+   * with the LLVM tools of the selected toolchain. A program that crashed or was killed writes
+   * no profile, and there is no report; a failing coverage tool is reported as a coverage
+   * error, leaving the program's results intact. `generatedFiles`, relative to the work
+   * directory, are sources the tool added and are left out of the report.
+   */
+  protected async collectCoverage(
+    binary: string,
+    workDir: string,
+    timeout: number,
+    compiler?: string,
+    generatedFiles: string[] = []
+  ): Promise<{ coverage?: CoverageReport; coverageError?: string }> {
+    try {
+      await fs.access(path.join(workDir, COVERAGE_PROFILE));
+    } catch {
+      logger.debug('No coverage profile written', { binary });
+      return {};
+    }
+
+    const tools = this.getToolchain(compiler).tools;
+    let exported: string;
+    try {
+      await this.runCoverageTool(
+        [tools['llvm-profdata'], 'merge', '-sparse', COVERAGE_PROFILE, '-o', COVERAGE_DATA],
+        timeout,
+        workDir
+      );
+      // llvm-cov names files by their absolute path or as they were passed to the compiler
+      const ignored = generatedFiles.map((file) =>
+        `-ignore-filename-regex=^(${this.escapeRegex(workDir)}/)?(\\./)?${this.escapeRegex(file)}$`
+      );
+      exported = await this.runCoverageTool(
+        [
+          tools['llvm-cov'], 'export', '-format=text', '-skip-expansions', '-skip-functions', ...ignored,
+          `-instr-profile=${COVERAGE_DATA}`, binary,
+        ],
+        timeout,
+        workDir
+      );
+    } catch (error) {
+      const coverageError = error instanceof Error ? error.message : 'Unknown coverage error';
+      logger.warn('Coverage collection failed', { binary, error: coverageError });
+      return { coverageError };
+    }
+
+    // Headers of the system and of bundled libraries lie outside the work directory
+    const files = CoverageReportParser.parse(exported).flatMap((file) => {
+      const relativePath = path.relative(workDir, path.resolve(workDir, file.file));
+      const outside = relativePath.startsWith(`..${path.sep}`) || path.isAbsolute(relativePath);
+      return outside ? [] : [{ ...file, file: relativePath }];
+    });
+
+    return { coverage: { ...CoverageReportParser.totals(files), files } };
+  }
+
+  private escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  private async runCoverageTool(command: string[], timeout: number, workDir: string): Promise<string> {
+    logger.debug('Executing coverage tool', { command });
+    const result = await this.executeClang(command, timeout, `${command[0]} timed out`, workDir);
+    if (!result.success) {
+      throw new Error(`${command[0]} failed: ${OutputSanitizer.sanitizeStderr(result.stderr).trim()}`);
+    }
+    return result.stdout;
+  }
+
+  /**
+   * Disassemble the object file: the final encodings, relocations and padding that the
+   * compiler's assembly output does not show
+   */
+  private async disassemble(options: CompilationOptions, workDir: string): Promise<CompilationArtifact> {
+    const command = [this.getToolchain(options.compiler).tools['llvm-objdump'], '-d', '-r', '--demangle'];
+    if (options.interleaveSource) {
+      command.push('-l', '-S');
+    }
+    if (options.asmSyntax === 'intel') {
+      command.push('-M', 'intel');
+    }
+    command.push(path.relative(workDir, this.getOutputFile(options, workDir)));
+
+    logger.debug('Executing llvm-objdump', { command });
+    const result = await this.executeClang(command, options.timeout || 30, 'Disassembly timed out', workDir);
+    if (!result.success) {
+      throw new Error(`llvm-objdump failed: ${OutputSanitizer.sanitizeStderr(result.stderr).trim()}`);
+    }
+
+    // Drop the file format banner; the rest is the listing
+    const content = OutputSanitizer.sanitizeArtifact(result.stdout.replace(/^\s*\S+:\s+file format .*\n/, ''), workDir);
+    return { mode: 'disassemble', content: content.trim(), functions: DisassemblyParser.parse(content) };
+  }
+
+  /**
+   * Replace raw assembly with source-mapped blocks and a compact listing
+   */
+  private filterAssembly(artifact: CompilationArtifact, options: CompilationOptions): void {
+    let blocks = AssemblyParser.parse(artifact.content);
+    if (options.sourceLines) {
+      blocks = AssemblyParser.filterByLines(blocks, options.sourceLines);
+    }
+
+    artifact.blocks = blocks;
+    artifact.content = AssemblyParser.toListing(blocks);
+  }
+
+  protected validateInputs(options: CompilationOptions): ValidationResult {
+    // Validate source code or file tree
+    let result = InputValidator.validateSourceInput(options);
     if (!result.success) return result;
 
     // Validate language standard
@@ -122,12 +434,93 @@ export class CompilationTool extends BaseClangTool {
       if (!result.success) return result;
     }
 
+    // Validate bundled libraries
+    if (options.libraries) {
+      result = InputValidator.validateLibraries(options.libraries);
+      if (!result.success) return result;
+    }
+
     // Validate compiler flags
     if (options.flags) {
       result = InputValidator.validateCompilerFlags(options.flags);
       if (!result.success) return result;
     }
 
+    // Validate output mode; textual artifacts are produced for a single translation unit
+    if (options.outputMode) {
+      result = InputValidator.validateOutputMode(options.outputMode);
+      if (!result.success) return result;
+
+      if (options.outputMode !== 'object' && this.getEntryPoints(options, options.language || DEFAULT_LANGUAGE).length > 1) {
+        return {
+          success: false,
+          error: `Output mode ${options.outputMode} requires a single entry point`,
+        };
+      }
+    }
+
+    if (options.interleaveSource && options.outputMode !== 'disassemble') {
+      return { success: false, error: 'Interleaving source requires the disassemble output mode' };
+    }
+
+    // Validate assembly syntax
+    if (options.asmSyntax) {
+      result = InputValidator.validateAssemblySyntax(options.asmSyntax);
+      if (!result.success) return result;
+    }
+
+    // Validate cross-compilation target; foreign code can be inspected but not linked or run here
+    if (options.target) {
+      result = InputValidator.validateTarget(options.target, options.cpu);
+      if (!result.success) return result;
+
+      if ((options.outputMode || 'object') === 'object' && !options.compileOnly) {
+        return {
+          success: false,
+          error: 'Cross-compilation requires compile only or the llvm-ir, assembly or disassemble output mode',
+        };
+      }
+
+      if (options.asmSyntax === 'intel' && !this.isX86Target(options.target)) {
+        return {
+          success: false,
+          error: `Intel assembly syntax is not available for target ${options.target}`,
+        };
+      }
+    } else if (options.cpu) {
+      return { success: false, error: 'CPU selection requires a target' };
+    }
+
+    // Validate compile-time profiling options
+    if (options.timeTraceRaw && !options.timeTrace) {
+      return { success: false, error: 'The raw time trace requires time trace profiling' };
+    }
+
+    // Validate optimization remark selection
+    if (options.remarks) {
+      result = InputValidator.validateRemarkKinds(options.remarks);
+      if (!result.success) return result;
+    }
+
+    if (options.remarkPasses) {
+      if (!options.remarks?.length) {
+        return { success: false, error: 'A remark pass filter requires remark kinds to be selected' };
+      }
+
+      result = InputValidator.validateRemarkPasses(options.remarkPasses);
+      if (!result.success) return result;
+    }
+
+    // Validate compiler selection; LLVM-specific output and instrumentation need Clang
+    result = this.validateToolchain(options.compiler, this.getClangOnlyFeature(options));
+    if (!result.success) return result;
+
+    // Validate source line range
+    if (options.sourceLines) {
+      result = InputValidator.validateSourceLineRange(options.sourceLines);
+      if (!result.success) return result;
+    }
+
     // Validate timeout
     if (options.timeout) {
       result = InputValidator.validateTimeout(options.timeout);
@@ -137,13 +530,86 @@ export class CompilationTool extends BaseClangTool {
     return { success: true };
   }
 
-  private buildCompilerCommand(options: CompilationOptions, sourceFile: string, workDir: string): string[] {
-    const command = ['clang++'];
+  /**
+   * Path of the artifact produced by the compiler for the given options
+   */
+  protected getOutputFile(options: CompilationOptions, workDir: string): string {
+    switch (options.outputMode) {
+      case 'llvm-ir':
+        return path.join(workDir, 'main.ll');
+      case 'assembly':
+        return path.join(workDir, 'main.s');
+      case 'disassemble':
+        return path.join(workDir, 'main.o');
+      default:
+        return path.join(workDir, options.compileOnly ? 'main.o' : 'main');
+    }
+  }
 
-    // Language standard
-    if (options.language) {
-      command.push(`-std=${options.language}`);
+  /**
+   * Output of a single compiler job: the requested artifact, or an object file that is
+   * linked afterwards. Objects are kept next to their sources so that equal names in
+   * different directories do not collide.
+   */
+  protected getUnitOutputFile(
+    options: CompilationOptions,
+    sourceFile: string,
+    sourceFiles: string[],
+    workDir: string
+  ): string {
+    const outputMode = options.outputMode || 'object';
+    if (outputMode !== 'object' || (options.compileOnly && sourceFiles.length === 1)) {
+      return this.getOutputFile(options, workDir);
     }
+    return path.join(workDir, `${sourceFile}.o`);
+  }
+
+  /**
+   * The first requested feature that GCC does not provide, if any
+   */
+  private getClangOnlyFeature(options: CompilationOptions): string | undefined {
+    if (options.outputMode === 'llvm-ir') return 'The llvm-ir output mode';
+    if (options.target) return 'Cross-compilation';
+    if (options.timeTrace) return 'Time trace profiling';
+    if (options.remarks?.length) return 'Optimization remark output';
+    return undefined;
+  }
+
+  private getTimeTraceFile(sourceFile: string): string {
+    return `${sourceFile}.time-trace.json`;
+  }
+
+  private getRemarksFile(sourceFile: string): string {
+    return `${sourceFile}.opt.yaml`;
+  }
+
+  private requiresLinking(options: CompilationOptions): boolean {
+    return (options.outputMode || 'object') === 'object' && !options.compileOnly;
+  }
+
+  private isX86Target(target: TargetTriple): boolean {
+    return target.startsWith('x86_64-');
+  }
+
+  private isFreestandingTarget(target: TargetTriple): boolean {
+    return /-(elf|eabi|eabihf)$/.test(target) || target === 'wasm32-unknown-unknown';
+  }
+
+  private isLinkerFlag(flag: string): boolean {
+    return flag.startsWith('-l') || flag.startsWith('-L');
+  }
+
+  private buildCompilerCommand(
+    options: CompilationOptions,
+    toolchain: Toolchain,
+    sourceFile: string,
+    outputFile: string
+  ): string[] {
+    const language = options.language || DEFAULT_LANGUAGE;
+    const command = [this.getDriver(toolchain, language)];
+
+    // Language and standard
+    command.push(...this.getLanguageFlags(language));
 
     // Optimization level (default O2)
     if (options.optimization) {
@@ -152,8 +618,19 @@ export class CompilationTool extends BaseClangTool {
       command.push('-O2');
     }
 
-    // Default architecture optimization
-    command.push('-march=native');
+    // Target architecture: the host CPU unless cross-compiling
+    if (options.target) {
+      command.push(`--target=${options.target}`);
+      if (options.cpu) {
+        command.push(this.isX86Target(options.target) ? `-march=${options.cpu}` : `-mcpu=${options.cpu}`);
+      }
+      // Bare-metal targets have no C library, only the compiler's own headers
+      if (this.isFreestandingTarget(options.target)) {
+        command.push('-ffreestanding');
+      }
+    } else {
+      command.push('-march=native');
+    }
 
     // Warning level (default: Wall, Wextra, pedantic)
     if (options.warnings) {
@@ -186,97 +663,113 @@ export class CompilationTool extends BaseClangTool {
       }
     }
 
-    // Include paths
+    // Include paths (relative to the source tree)
     if (options.includes) {
       for (const include of options.includes) {
         command.push(`-I${include}`);
       }
     }
 
-    // Additional compiler flags
+    // Bundled header-only libraries
+    command.push(...this.getLibraryFlags(options.libraries));
+
+    // Additional compiler flags; libraries and search paths only apply when linking
     if (options.flags) {
-      command.push(...options.flags);
+      command.push(...options.flags.filter((flag) => !this.isLinkerFlag(flag)));
     }
 
-    // Compilation mode
-    if (options.compileOnly) {
-      command.push('-c');
+    // Compile-time profile, written next to the source like the serialized diagnostics
+    if (options.timeTrace) {
+      command.push(`-ftime-trace=${this.getTimeTraceFile(sourceFile)}`);
     }
 
-    // Output specification
-    const outputFile = path.join(workDir, options.compileOnly ? 'main.o' : 'main');
-    command.push('-o', outputFile);
-
-    // Source file (always last)
-    command.push(sourceFile);
-
-    return command;
-  }
-
-
-  private parseDiagnostics(stderr: string): CompilationDiagnostics {
-    const diagnostics: CompilationDiagnostics = {
-      errors: [],
-      warnings: [],
-      notes: [],
-    };
+    // Optimization records (YAML) with the remarks of every pass, or of the selected passes
+    if (options.remarks?.length) {
+      command.push('-fsave-optimization-record', `-foptimization-record-file=${this.getRemarksFile(sourceFile)}`);
+      if (options.remarkPasses) {
+        command.push(`-foptimization-record-passes=${options.remarkPasses}`);
+      }
+    }
 
-    if (!stderr) {
-      return diagnostics;
-    }
-
-    const lines = stderr.split('\n');
-    
-    for (const line of lines) {
-      const diagnostic = this.parseDiagnosticLine(line);
-      if (diagnostic) {
-        switch (diagnostic.severity) {
-          case 'error':
-            diagnostics.errors.push(diagnostic);
-            break;
-          case 'warning':
-            diagnostics.warnings.push(diagnostic);
-            break;
-          case 'note':
-            diagnostics.notes.push(diagnostic);
-            break;
+    // Compilation mode
+    switch (options.outputMode) {
+      case 'llvm-ir':
+        command.push('-S', '-emit-llvm');
+        break;
+      case 'assembly':
+        command.push('-S');
+        if (!options.target || this.isX86Target(options.target)) {
+          command.push(`-masm=${options.asmSyntax || 'att'}`);
         }
-      }
+        // Line tables provide the .loc directives used to map instructions to source lines
+        if (options.asmFilter !== false) {
+          command.push(toolchain.family === 'gcc' ? '-g1' : '-gline-tables-only');
+        }
+        break;
+      case 'disassemble':
+        command.push('-c');
+        // Debug information maps the disassembled instructions back to source lines
+        if (options.interleaveSource) {
+          command.push('-g');
+        }
+        break;
+      default:
+        command.push('-c');
     }
 
-    return diagnostics;
-  }
+    // Output specification and source file (always last)
+    command.push('-o', outputFile, sourceFile);
 
-  private parseDiagnosticLine(line: string): DiagnosticMessage | null {
-    // Clang diagnostic format: filename:line:column: severity: message
-    const clangPattern = /^(.+?):(\d+):(\d+):\s*(error|warning|note):\s*(.+)$/;
-    const match = line.match(clangPattern);
+    return command;
+  }
 
-    if (match) {
-      const [, , lineNum, columnNum, severity, message] = match;
-      return {
-        line: parseInt(lineNum, 10),
-        column: parseInt(columnNum, 10),
-        message: message.trim(),
-        severity: severity as 'error' | 'warning' | 'note',
-      };
+  private buildLinkCommand(
+    options: CompilationOptions,
+    toolchain: Toolchain,
+    objectFiles: string[],
+    workDir: string
+  ): string[] {
+    // Compiler flags are passed on as well since some of them (-fsanitize, -pthread, -fopenmp)
+    // select runtime libraries; the rest would only produce unused argument warnings in Clang
+    const driver = this.getDriver(toolchain, options.language || DEFAULT_LANGUAGE);
+    const command = toolchain.family === 'gcc' ? [driver] : [driver, '-Qunused-arguments'];
+    command.push(...objectFiles);
+
+    // After the objects, so that static libraries given with -l resolve their references
+    if (options.flags) {
+      command.push(...options.flags);
     }
 
-    // Alternative format without column
-    const simplePattern = /^(.+?):(\d+):\s*(error|warning|note):\s*(.+)$/;
-    const simpleMatch = line.match(simplePattern);
+    command.push('-o', this.getOutputFile(options, workDir));
 
-    if (simpleMatch) {
-      const [, , lineNum, severity, message] = simpleMatch;
-      return {
-        line: parseInt(lineNum, 10),
-        column: 0,
-        message: message.trim(),
-        severity: severity as 'error' | 'warning' | 'note',
-      };
-    }
+    return command;
+  }
 
-    return null;
+  // Get the installed toolchains, the default one's version and target, and supported cross-compilation targets
+  getCompilerInfo(): CompilerInfo {
+    const defaultToolchain = this.getToolchain();
+    return {
+      compiler: defaultToolchain.id,
+      version: defaultToolchain.version,
+      target: defaultToolchain.target,
+      toolchains: toolchains.list().map(({ id, family, version, target, default: isDefault }) => ({
+        id,
+        family,
+        version,
+        target,
+        default: isDefault,
+      })),
+      targets: InputValidator.getTargetCpus(),
+    };
   }
 
+  /**
+   * Bundled libraries, and whether their headers are installed
+   */
+  async getLibraries(): Promise<LibraryInfo[]> {
+    return Promise.all(InputValidator.getLibraries().map(async (library) => {
+      const installed = await fs.access(this.getLibraryIncludeDir(library.name)).then(() => true, () => false);
+      return { ...library, installed };
+    }));
+  }
 }
\ No newline at end of file
@@ -0,0 +1,200 @@
+import { InputValidator, type ValidationResult } from '../security/InputValidator.js';
+import { OutputSanitizer } from '../security/OutputSanitizer.js';
+import { SanitizerReportParser } from '../parsers/SanitizerReportParser.js';
+import { logger } from '../utils/logger.js';
+import type {
+  ExecutionOptions,
+  ExecutionResponse,
+  ErrorResponse,
+  SanitizerKind
+} from '../types/index.js';
+import { DEFAULT_LANGUAGE } from './BaseClangTool.js';
+import { CompilationTool } from './CompilationTool.js';
+import * as path from 'path';
+
+// Runtime options so that reports are symbolized, uncolored and complete
+const SANITIZER_ENV: Record<string, string> = {
+  ASAN_OPTIONS: 'symbolize=1:color=never:detect_leaks=1:abort_on_error=0',
+  UBSAN_OPTIONS: 'symbolize=1:color=never:print_stacktrace=1',
+  TSAN_OPTIONS: 'symbolize=1:color=never',
+  LSAN_OPTIONS: 'symbolize=1:color=never',
+  MSAN_OPTIONS: 'symbolize=1:color=never',
+};
+
+export class ExecutionTool extends CompilationTool {
+  constructor() {
+    super();
+  }
+
+  async execute(options: ExecutionOptions): Promise<ExecutionResponse | ErrorResponse> {
+    const startTime = Date.now();
+
+    try {
+      // Validate inputs
+      const validationResult = this.validateInputs(options);
+      if (!validationResult.success) {
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: validationResult.error ?? 'Validation failed',
+          },
+        };
+      }
+
+      // Link and run the program in the same work directory
+      const response = await this.executeWithCleanup(
+        options,
+        options.language || DEFAULT_LANGUAGE,
+        async (workDir, sourceFiles): Promise<ExecutionResponse> => {
+          const linkOptions: ExecutionOptions = {
+            ...options,
+            compileOnly: false,
+            outputMode: 'object',
+            flags: [
+              ...(options.flags || []),
+              ...this.buildSanitizerFlags(options.sanitizers),
+              ...(options.coverage ? this.getCoverageFlags() : []),
+            ],
+          };
+          const compilation = await this.compileInWorkDir(linkOptions, sourceFiles, workDir);
+          if (!compilation.success) {
+            return { success: false, compilation };
+          }
+
+          const binary = `./${path.basename(this.getOutputFile(linkOptions, workDir))}`;
+          logger.debug('Executing program', { binary, args: options.args });
+          const execution = await this.executeProgram(binary, {
+            cwd: workDir,
+            timeout: options.runTimeout || 10,
+            stdin: options.stdin,
+            args: options.args,
+            env: {
+              ...(options.sanitizers?.length ? SANITIZER_ENV : {}),
+              ...options.env,
+              ...(options.coverage ? this.getCoverageEnvironment() : {}),
+            },
+          });
+
+          // Symbolized frames and program output may reference the work directory
+          execution.stdout = OutputSanitizer.sanitizeArtifact(execution.stdout, workDir);
+          execution.stderr = OutputSanitizer.sanitizeArtifact(execution.stderr, workDir);
+
+          const response: ExecutionResponse = {
+            success: execution.exitCode === 0 && !execution.signal && !execution.timedOut,
+            compilation,
+            execution,
+          };
+
+          if (options.sanitizers?.length) {
+            response.sanitizerReports = SanitizerReportParser.parse(execution.stderr);
+            response.success = response.success && response.sanitizerReports.length === 0;
+          }
+
+          if (options.coverage) {
+            const { coverage, coverageError } = await this.collectCoverage(
+              binary,
+              workDir,
+              options.timeout || 30,
+              options.compiler
+            );
+            if (coverage) response.coverage = coverage;
+            if (coverageError) response.coverageError = coverageError;
+          }
+
+          return response;
+        }
+      );
+
+      logger.info('Execution completed', {
+        success: response.success,
+        exitCode: response.execution?.exitCode,
+        signal: response.execution?.signal,
+        timedOut: response.execution?.timedOut,
+        wallTime: response.execution?.wallTime,
+        sanitizerReportCount: response.sanitizerReports?.length,
+        lineCoverage: response.coverage?.lines.percent,
+      });
+
+      return response;
+
+    } catch (error) {
+      logger.error('Execution failed', { error: error instanceof Error ? error.message : error });
+
+      return {
+        success: false,
+        error: {
+          code: 'EXECUTION_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown execution error',
+          details: { executionTime: (Date.now() - startTime) / 1000 },
+        },
+      };
+    }
+  }
+
+  protected validateInputs(options: ExecutionOptions): ValidationResult {
+    // Validate compilation options
+    let result = super.validateInputs(options);
+    if (!result.success) return result;
+
+    // Validate program input
+    if (options.stdin !== undefined) {
+      result = InputValidator.validateStdin(options.stdin);
+      if (!result.success) return result;
+    }
+
+    // Validate program arguments
+    if (options.args) {
+      result = InputValidator.validateProgramArguments(options.args);
+      if (!result.success) return result;
+    }
+
+    // Validate environment variables
+    if (options.env) {
+      result = InputValidator.validateEnvironment(options.env);
+      if (!result.success) return result;
+    }
+
+    // Validate run timeout
+    if (options.runTimeout) {
+      result = InputValidator.validateTimeout(options.runTimeout);
+      if (!result.success) return result;
+    }
+
+    // Validate sanitizer selection
+    if (options.sanitizers) {
+      result = InputValidator.validateSanitizers(options.sanitizers);
+      if (!result.success) return result;
+
+      // GCC has no MemorySanitizer
+      if (options.sanitizers.includes('memory')) {
+        result = this.validateToolchain(options.compiler, 'MemorySanitizer');
+        if (!result.success) return result;
+      }
+    }
+
+    // Validate coverage; source-based coverage is a Clang feature
+    if (options.coverage) {
+      result = this.validateToolchain(options.compiler, 'Code coverage');
+      if (!result.success) return result;
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Instrumentation flags for a sanitized build; frame pointers and debug info give
+   * complete, symbolized stack traces
+   */
+  private buildSanitizerFlags(sanitizers?: SanitizerKind[]): string[] {
+    if (!sanitizers || sanitizers.length === 0) {
+      return [];
+    }
+
+    const flags = [`-fsanitize=${sanitizers.join(',')}`, '-g', '-fno-omit-frame-pointer'];
+    if (sanitizers.includes('memory')) {
+      flags.push('-fsanitize-memory-track-origins');
+    }
+    return flags;
+  }
+}
\ No newline at end of file
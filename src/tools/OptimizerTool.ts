@@ -0,0 +1,262 @@
+import { InputValidator, type ValidationResult } from '../security/InputValidator.js';
+import { OutputSanitizer } from '../security/OutputSanitizer.js';
+import { OptOutputParser, type PassDump } from '../parsers/OptOutputParser.js';
+import { UnifiedDiff } from '../utils/diff.js';
+import { logger } from '../utils/logger.js';
+import type {
+  CompilationOptions,
+  CompilationResponse,
+  ErrorResponse,
+  OptimizeOptions,
+  OptimizeResponse,
+  PassChange,
+  PassInfo
+} from '../types/index.js';
+import { DEFAULT_LANGUAGE } from './BaseClangTool.js';
+import { CompilationTool } from './CompilationTool.js';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+const INPUT_FILE = 'input.ll';
+const OUTPUT_FILE = 'optimized.ll';
+
+// -print-module-scope writes the whole module after every changing pass; beyond these sizes the
+// remaining dumps are dropped and the response is marked truncated
+const MAX_DUMP_OUTPUT = 32 * 1024 * 1024;
+const MAX_CHANGES_SIZE = 4 * 1024 * 1024;
+
+// At -O0 Clang marks every function optnone, which opt would respect; value names make the IR readable
+const IR_FLAGS = ['-Xclang', '-disable-O0-optnone', '-fno-discard-value-names'];
+
+export class OptimizerTool extends CompilationTool {
+  // Passes of each toolchain's opt by toolchain id, listed on first use
+  private passes = new Map<string, PassInfo[]>();
+
+  constructor() {
+    super();
+  }
+
+  async optimize(options: OptimizeOptions): Promise<OptimizeResponse | ErrorResponse> {
+    const startTime = Date.now();
+
+    try {
+      // Validate inputs, then the pass names against those opt provides
+      let validationResult = this.validateInputs(options);
+      if (validationResult.success) {
+        validationResult = InputValidator.validatePassPipeline(options.passes, await this.getPasses(options.compiler));
+      }
+      if (!validationResult.success) {
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: validationResult.error ?? 'Validation failed',
+          },
+        };
+      }
+
+      // Run the pipeline with automatic cleanup, unless an identical request was cached
+      const source = this.getSourceInput(options);
+      let timedOut = false;
+      const response = await this.withCache(
+        'optimize_ir',
+        source,
+        () => this.executeWithCleanup(
+          source,
+          options.language || DEFAULT_LANGUAGE,
+          async (workDir, sourceFiles): Promise<OptimizeResponse> => {
+            // Compile the sources to unoptimized IR unless IR was given
+            let compilation: CompilationResponse | undefined;
+            let inputFile = INPUT_FILE;
+            if (options.ir === undefined) {
+              const compileOptions = this.getCompileOptions(options);
+              compilation = await this.compileInWorkDir(compileOptions, sourceFiles, workDir);
+              delete compilation.artifact;
+              if (!compilation.success) {
+                return {
+                  success: false,
+                  compilation,
+                  input: '',
+                  changes: [],
+                  passesRun: 0,
+                  stderr: '',
+                  optimizationTime: (Date.now() - startTime) / 1000,
+                };
+              }
+              inputFile = path.relative(workDir, this.getOutputFile(compileOptions, workDir));
+            }
+
+            const command = [
+              this.getToolchain(options.compiler).tools.opt, '-S', `-passes=${options.passes}`, '-print-changed', '-print-module-scope',
+              inputFile, '-o', OUTPUT_FILE,
+            ];
+            logger.debug('Executing opt', { command });
+            const result = await this.executeClang(
+              command, options.timeout || 30, 'Optimization timed out', workDir, MAX_DUMP_OUTPUT
+            );
+            timedOut = result.exitCode === -1;
+
+            const input = await fs.readFile(path.join(workDir, inputFile), 'utf8');
+            const output = result.success ? await fs.readFile(path.join(workDir, OUTPUT_FILE), 'utf8') : undefined;
+            const parsed = OptOutputParser.parseChanges(result.stderr);
+            // The last dump was cut off along with the output
+            const dumpsTruncated = result.stderr.length >= MAX_DUMP_OUTPUT;
+            if (dumpsTruncated) parsed.dumps.pop();
+            const changes = this.describeChanges(parsed.initial || input, parsed.dumps, inputFile, options, workDir);
+
+            const response: OptimizeResponse = {
+              success: result.success,
+              input: OutputSanitizer.sanitizeArtifact(input, workDir),
+              changes: changes.changes,
+              passesRun: parsed.passesRun,
+              stderr: OutputSanitizer.sanitizeStderr(parsed.messages),
+              optimizationTime: (Date.now() - startTime) / 1000,
+            };
+            if (compilation) response.compilation = compilation;
+            if (output !== undefined) response.output = OutputSanitizer.sanitizeArtifact(output, workDir);
+            if (dumpsTruncated || changes.truncated) response.truncated = true;
+
+            return response;
+          }
+        ),
+        () => !timedOut
+      );
+
+      logger.info('Optimization completed', {
+        success: response.success,
+        passes: options.passes,
+        passesRun: response.passesRun,
+        changeCount: response.changes.length,
+        optimizationTime: response.optimizationTime,
+      });
+
+      return response;
+
+    } catch (error) {
+      logger.error('Optimization failed', { error: error instanceof Error ? error.message : error });
+
+      return {
+        success: false,
+        error: {
+          code: 'OPTIMIZE_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown optimization error',
+          details: { executionTime: (Date.now() - startTime) / 1000 },
+        },
+      };
+    }
+  }
+
+  /**
+   * Passes, analyses and their parameters as reported by `opt -print-passes` of the selected
+   * toolchain, or of the default one
+   */
+  async getPasses(compiler?: string): Promise<PassInfo[]> {
+    const toolchain = this.getToolchain(compiler);
+    let passes = this.passes.get(toolchain.id);
+    if (!passes) {
+      const result = await this.executeClang([toolchain.tools.opt, '-print-passes'], 10, 'Listing passes timed out');
+      if (!result.success) {
+        throw new Error(`${toolchain.tools.opt} failed: ${OutputSanitizer.sanitizeStderr(result.stderr).trim()}`);
+      }
+      passes = OptOutputParser.parsePasses(result.stdout);
+      this.passes.set(toolchain.id, passes);
+    }
+    return passes;
+  }
+
+  protected validateInputs(options: OptimizeOptions): ValidationResult {
+    let result: ValidationResult;
+
+    // Validate LLVM IR, or the sources to compile to IR
+    if (options.ir !== undefined) {
+      if (options.sourceCode !== undefined || options.files !== undefined) {
+        return { success: false, error: 'Provide either LLVM IR or source code, not both' };
+      }
+
+      result = InputValidator.validateIR(options.ir);
+      if (!result.success) return result;
+
+      // Validate compiler selection, whose opt runs the pipeline
+      result = this.validateToolchain(options.compiler);
+      if (!result.success) return result;
+
+      // Validate timeout
+      if (options.timeout) {
+        result = InputValidator.validateTimeout(options.timeout);
+        if (!result.success) return result;
+      }
+    } else {
+      // The IR flags are added by the tool and not subject to the flag allowlist
+      result = super.validateInputs({ ...this.getCompileOptions(options), flags: options.flags });
+      if (!result.success) return result;
+    }
+
+    // Validate dump format
+    if (options.dump) {
+      result = InputValidator.validateIRDumpFormat(options.dump);
+      if (!result.success) return result;
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * The sources to compile, or the given IR as the only file of the work directory
+   */
+  private getSourceInput(options: OptimizeOptions): OptimizeOptions {
+    if (options.ir === undefined) {
+      return options;
+    }
+    const { ir, ...rest } = options;
+    return { ...rest, files: { [INPUT_FILE]: ir }, entryPoints: [INPUT_FILE] };
+  }
+
+  private getCompileOptions(options: OptimizeOptions): CompilationOptions {
+    return {
+      sourceCode: options.sourceCode,
+      files: options.files,
+      entryPoints: options.entryPoints,
+      language: options.language,
+      optimization: options.optimization || 'O0',
+      defines: options.defines,
+      includes: options.includes,
+      libraries: options.libraries,
+      flags: [...(options.flags || []), ...IR_FLAGS],
+      compiler: options.compiler,
+      timeout: options.timeout,
+      outputMode: 'llvm-ir',
+    };
+  }
+
+  /**
+   * Each change as the module after the pass, or as a diff against the module before it, up to
+   * MAX_CHANGES_SIZE characters in total
+   */
+  private describeChanges(
+    initial: string,
+    dumps: PassDump[],
+    fileName: string,
+    options: OptimizeOptions,
+    workDir: string
+  ): { changes: PassChange[]; truncated: boolean } {
+    const changes: PassChange[] = [];
+    let previous = initial;
+    let size = 0;
+
+    for (const dump of dumps) {
+      const change: PassChange = { pass: dump.pass, unit: dump.unit };
+      if (options.dump === 'full') {
+        change.ir = OutputSanitizer.sanitizeArtifact(dump.ir, workDir);
+      } else {
+        change.diff = OutputSanitizer.sanitizeArtifact(UnifiedDiff.create(fileName, `${previous.trim()}\n`, `${dump.ir}\n`), workDir);
+      }
+      size += (change.ir ?? change.diff ?? '').length;
+      if (size > MAX_CHANGES_SIZE) {
+        return { changes, truncated: true };
+      }
+      changes.push(change);
+      previous = dump.ir;
+    }
+    return { changes, truncated: false };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,199 @@
+import { InputValidator, type ValidationResult } from '../security/InputValidator.js';
+import { OutputSanitizer } from '../security/OutputSanitizer.js';
+import { PreprocessorOutputParser } from '../parsers/PreprocessorOutputParser.js';
+import { logger } from '../utils/logger.js';
+import type { 
+  PreprocessOptions, 
+  PreprocessResponse,
+  MacroDefinition,
+  ErrorResponse 
+} from '../types/index.js';
+import { BaseClangTool, DEFAULT_LANGUAGE } from './BaseClangTool.js';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+const OUTPUT_FILE = 'preprocessed.i';
+
+export class PreprocessorTool extends BaseClangTool {
+  constructor() {
+    super();
+  }
+
+  async preprocess(options: PreprocessOptions): Promise<PreprocessResponse | ErrorResponse> {
+    const startTime = Date.now();
+
+    try {
+      // Validate inputs
+      const validationResult = this.validateInputs(options);
+      if (!validationResult.success) {
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: validationResult.error ?? 'Validation failed',
+          },
+        };
+      }
+
+      // Execute preprocessing with automatic cleanup, unless an identical request was cached
+      let timedOut = false;
+      const response = await this.withCache(
+        'preprocess_cpp',
+        options,
+        async (): Promise<PreprocessResponse> => {
+          const { result, output } = await this.executeWithCleanup(
+            options,
+            options.language || DEFAULT_LANGUAGE,
+            async (workDir, sourceFiles) => {
+              const result = await this.executeClangPerUnit(
+                sourceFiles,
+                (sourceFile) => this.buildPreprocessorCommand(options, sourceFile),
+                options.timeout || 30,
+                'Preprocessing timed out',
+                workDir,
+                this.getToolchain(options.compiler)
+              );
+
+              const output = result.success
+                ? OutputSanitizer.sanitizeArtifact(await fs.readFile(path.join(workDir, OUTPUT_FILE), 'utf8'), workDir)
+                : '';
+              return { result, output };
+            }
+          );
+          timedOut = result.exitCode === -1;
+
+          // Separate the expanded source from the -dD macro directives
+          const parsed = PreprocessorOutputParser.parse(output, options.lineMarkers);
+
+          const response: PreprocessResponse = {
+            success: result.success,
+            output: parsed.text,
+            diagnostics: this.groupDiagnostics(result.diagnostics),
+            stderr: OutputSanitizer.sanitizeStderr(result.stderr),
+            preprocessTime: (Date.now() - startTime) / 1000,
+          };
+
+          const macroDump = options.macros || 'final';
+          if (macroDump !== 'none') {
+            response.macros = this.selectMacros(parsed.macros, macroDump === 'final', !!options.systemMacros);
+          }
+
+          return response;
+        },
+        () => !timedOut
+      );
+
+      logger.info('Preprocessing completed', { 
+        success: response.success,
+        preprocessTime: response.preprocessTime,
+        outputSize: response.output.length,
+        macroCount: response.macros?.length,
+      });
+
+      return response;
+
+    } catch (error) {
+      logger.error('Preprocessing failed', { error: error instanceof Error ? error.message : error });
+      
+      return {
+        success: false,
+        error: {
+          code: 'PREPROCESS_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown preprocessing error',
+          details: { executionTime: (Date.now() - startTime) / 1000 },
+        },
+      };
+    }
+  }
+
+  private validateInputs(options: PreprocessOptions): ValidationResult {
+    // Validate source code or file tree
+    let result = InputValidator.validateSourceInput(options);
+    if (!result.success) return result;
+
+    // Preprocessed output is returned for one translation unit
+    if (this.getEntryPoints(options, options.language || DEFAULT_LANGUAGE).length > 1) {
+      return { success: false, error: 'Preprocessing requires a single entry point' };
+    }
+
+    // Validate language standard
+    if (options.language) {
+      result = InputValidator.validateLanguageStandard(options.language);
+      if (!result.success) return result;
+    }
+
+    // Validate defines
+    if (options.defines) {
+      result = InputValidator.validateDefines(options.defines);
+      if (!result.success) return result;
+    }
+
+    // Validate includes
+    if (options.includes) {
+      result = InputValidator.validateIncludes(options.includes);
+      if (!result.success) return result;
+    }
+
+    // Validate bundled libraries
+    if (options.libraries) {
+      result = InputValidator.validateLibraries(options.libraries);
+      if (!result.success) return result;
+    }
+
+    // Validate macro dump mode
+    if (options.macros) {
+      result = InputValidator.validateMacroDump(options.macros);
+      if (!result.success) return result;
+    }
+
+    // Validate compiler selection
+    result = this.validateToolchain(options.compiler);
+    if (!result.success) return result;
+
+    // Validate timeout
+    if (options.timeout) {
+      result = InputValidator.validateTimeout(options.timeout);
+      if (!result.success) return result;
+    }
+
+    return { success: true };
+  }
+
+  private buildPreprocessorCommand(options: PreprocessOptions, sourceFile: string): string[] {
+    const language = options.language || DEFAULT_LANGUAGE;
+    const command = [this.getDriver(this.getToolchain(options.compiler), language)];
+
+    // Language and standard
+    command.push(...this.getLanguageFlags(language));
+
+    // Preprocess only, keeping macro directives and line markers for attribution
+    command.push('-E', '-dD');
+
+    // Preprocessor definitions
+    if (options.defines) {
+      for (const define of options.defines) {
+        command.push(`-D${define}`);
+      }
+    }
+
+    // Include paths (relative to the source tree)
+    if (options.includes) {
+      for (const include of options.includes) {
+        command.push(`-I${include}`);
+      }
+    }
+
+    // Bundled header-only libraries
+    command.push(...this.getLibraryFlags(options.libraries));
+
+    // Output file and source file (always last)
+    command.push('-o', OUTPUT_FILE, sourceFile);
+
+    return command;
+  }
+
+  private selectMacros(history: MacroDefinition[], finalOnly: boolean, includeSystem: boolean): MacroDefinition[] {
+    const macros = finalOnly ? PreprocessorOutputParser.finalMacros(history) : history;
+    return includeSystem ? macros : macros.filter((macro) => PreprocessorOutputParser.isUserMacro(macro));
+  }
+}
\ No newline at end of file
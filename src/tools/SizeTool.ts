@@ -0,0 +1,276 @@
+import type { ValidationResult } from '../security/InputValidator.js';
+import { OutputSanitizer } from '../security/OutputSanitizer.js';
+import { BinarySizeParser } from '../parsers/BinarySizeParser.js';
+import { logger } from '../utils/logger.js';
+import type {
+  CompilationResponse,
+  ErrorResponse,
+  LlvmTool,
+  SectionSize,
+  SizeComparison,
+  SizeDelta,
+  SizeOptions,
+  SizeReport,
+  SizeResponse,
+  SymbolSize
+} from '../types/index.js';
+import { DEFAULT_LANGUAGE } from './BaseClangTool.js';
+import { CompilationTool } from './CompilationTool.js';
+import * as path from 'path';
+
+const MAX_SYMBOLS = 25;
+
+// Defined symbols with their sizes and readable names
+const NM_FLAGS = ['--print-size', '--demangle', '--defined-only'];
+
+export class SizeTool extends CompilationTool {
+  constructor() {
+    super();
+  }
+
+  async analyzeSize(options: SizeOptions): Promise<SizeResponse | ErrorResponse> {
+    const startTime = Date.now();
+
+    try {
+      // Validate inputs
+      const validationResult = this.validateInputs(options);
+      if (!validationResult.success) {
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: validationResult.error ?? 'Validation failed',
+          },
+        };
+      }
+
+      // Build and measure, unless an identical request was cached
+      const response = await this.withCache(
+        'size_cpp',
+        options,
+        async (): Promise<SizeResponse> => {
+          const baseline = await this.buildAndMeasure(options);
+          const response: SizeResponse = { success: baseline.compilation.success, ...baseline };
+
+          // Build the same sources again with the alternative options
+          if (options.compareWith) {
+            const candidate = await this.buildAndMeasure({ ...options, ...options.compareWith });
+            response.comparison = { ...candidate };
+            if (baseline.size && candidate.size) {
+              response.comparison.delta = this.compareSizes(baseline.size, candidate.size);
+              response.comparison.delta.symbols = response.comparison.delta.symbols.slice(0, MAX_SYMBOLS);
+            }
+            response.success = response.success && candidate.compilation.success;
+          }
+
+          // Symbols were compared in full; only report the largest
+          for (const report of [response.size, response.comparison?.size]) {
+            if (report) report.symbols = report.symbols.slice(0, MAX_SYMBOLS);
+          }
+
+          return response;
+        },
+        (result) => result.compilation.exitCode !== -1 && result.comparison?.compilation.exitCode !== -1
+      );
+
+      logger.info('Size analysis completed', {
+        success: response.success,
+        total: response.size?.total,
+        comparedTotal: response.comparison?.size?.total,
+      });
+
+      return response;
+
+    } catch (error) {
+      logger.error('Size analysis failed', { error: error instanceof Error ? error.message : error });
+
+      return {
+        success: false,
+        error: {
+          code: 'SIZE_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown size analysis error',
+          details: { executionTime: (Date.now() - startTime) / 1000 },
+        },
+      };
+    }
+  }
+
+  protected validateInputs(options: SizeOptions): ValidationResult {
+    // Validate compilation options
+    let result = super.validateInputs({ ...options, outputMode: 'object' });
+    if (!result.success) return result;
+
+    // Validate the options of the comparison build
+    if (options.compareWith) {
+      result = super.validateInputs({ ...options, ...options.compareWith, outputMode: 'object' });
+      if (!result.success) return result;
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Compile (and link unless compile only) in a fresh work directory, then measure the
+   * program, or the objects when not linking
+   */
+  private async buildAndMeasure(options: SizeOptions): Promise<{ compilation: CompilationResponse; size?: SizeReport }> {
+    return this.executeWithCleanup(
+      options,
+      options.language || DEFAULT_LANGUAGE,
+      async (workDir, sourceFiles) => {
+        const buildOptions: SizeOptions = { ...options, outputMode: 'object' };
+        const compilation = await this.compileInWorkDir(buildOptions, sourceFiles, workDir);
+        if (!compilation.success) {
+          return { compilation };
+        }
+
+        const objectFiles = sourceFiles.map((sourceFile) =>
+          path.relative(workDir, this.getUnitOutputFile(buildOptions, sourceFile, sourceFiles, workDir))
+        );
+        const program = path.relative(workDir, this.getOutputFile(buildOptions, workDir));
+        const files = buildOptions.compileOnly ? objectFiles : [program];
+
+        const tools = this.getToolchain(options.compiler).tools;
+        const size = await this.measure(files, objectFiles, sourceFiles, tools, workDir, options.timeout || 30);
+        return { compilation, size };
+      }
+    );
+  }
+
+  private async measure(
+    files: string[],
+    objectFiles: string[],
+    sourceFiles: string[],
+    tools: Record<LlvmTool, string>,
+    workDir: string,
+    timeout: number
+  ): Promise<SizeReport> {
+    const segments = await this.runSizeTool([tools['llvm-size'], ...files], timeout, workDir);
+    const sections = await this.runSizeTool([tools['llvm-size'], '-A', ...files], timeout, workDir);
+    const symbols = await this.runSizeTool([tools['llvm-nm'], ...NM_FLAGS, '--size-sort', ...files], timeout, workDir);
+
+    const report: SizeReport = {
+      files,
+      text: 0,
+      data: 0,
+      bss: 0,
+      total: 0,
+      sections: this.mergeSections(BinarySizeParser.parseSections(sections)),
+      symbols: [],
+    };
+    for (const segment of BinarySizeParser.parseBerkeley(segments)) {
+      report.text += segment.text;
+      report.data += segment.data;
+      report.bss += segment.bss;
+    }
+    report.total = report.text + report.data + report.bss;
+
+    // Object symbols belong to their translation unit; a linked program's symbols are looked
+    // up in the objects it was linked from
+    const sourceByObject = new Map(objectFiles.map((objectFile, index) => [objectFile, sourceFiles[index]]));
+    const linkedOrigins = files.every((file) => sourceByObject.has(file))
+      ? new Map<string, string>()
+      : await this.getLinkedOrigins(objectFiles, sourceByObject, tools, timeout, workDir);
+
+    report.symbols = BinarySizeParser.parseSymbols(symbols, files[0])
+      .filter((symbol) => symbol.size > 0)
+      .map((symbol): SymbolSize => {
+        const origin = sourceByObject.get(symbol.file) ?? linkedOrigins.get(symbol.name);
+        const entry: SymbolSize = { name: symbol.name, size: symbol.size, type: symbol.type };
+        if (origin) entry.origin = origin;
+        return entry;
+      })
+      .sort((a, b) => b.size - a.size);
+
+    return report;
+  }
+
+  /**
+   * Translation unit defining each symbol name; names defined in several objects (such as
+   * static functions) are ambiguous and left out
+   */
+  private async getLinkedOrigins(
+    objectFiles: string[],
+    sourceByObject: Map<string, string>,
+    tools: Record<LlvmTool, string>,
+    timeout: number,
+    workDir: string
+  ): Promise<Map<string, string>> {
+    const output = await this.runSizeTool([tools['llvm-nm'], ...NM_FLAGS, ...objectFiles], timeout, workDir);
+
+    const origins = new Map<string, string>();
+    const ambiguous = new Set<string>();
+    for (const symbol of BinarySizeParser.parseSymbols(output, objectFiles[0])) {
+      const sourceFile = sourceByObject.get(symbol.file);
+      if (!sourceFile) continue;
+
+      if (origins.has(symbol.name) && origins.get(symbol.name) !== sourceFile) {
+        ambiguous.add(symbol.name);
+      }
+      origins.set(symbol.name, sourceFile);
+    }
+    for (const name of ambiguous) {
+      origins.delete(name);
+    }
+
+    return origins;
+  }
+
+  private async runSizeTool(command: string[], timeout: number, workDir: string): Promise<string> {
+    logger.debug('Executing size tool', { command });
+    const result = await this.executeClang(command, timeout, `${command[0]} timed out`, workDir);
+    if (!result.success) {
+      throw new Error(`${command[0]} failed: ${OutputSanitizer.sanitizeStderr(result.stderr).trim()}`);
+    }
+    return result.stdout;
+  }
+
+  /**
+   * Sum sections of the same name across files, leaving out empty sections and debug information
+   */
+  private mergeSections(sectionsByFile: Map<string, SectionSize[]>): SectionSize[] {
+    const merged = new Map<string, number>();
+    for (const sections of sectionsByFile.values()) {
+      for (const section of sections) {
+        if (section.size === 0 || section.name.startsWith('.debug_') || section.name === '.comment') continue;
+        merged.set(section.name, (merged.get(section.name) || 0) + section.size);
+      }
+    }
+    return [...merged].map(([name, size]) => ({ name, size }));
+  }
+
+  private compareSizes(baseline: SizeReport, candidate: SizeReport): SizeComparison {
+    const totals = (report: SizeReport): Map<string, number> => new Map([
+      ['text', report.text],
+      ['data', report.data],
+      ['bss', report.bss],
+      ['total', report.total],
+    ]);
+    const sections = (report: SizeReport): Map<string, number> =>
+      new Map(report.sections.map((section) => [section.name, section.size]));
+    const symbols = (report: SizeReport): Map<string, number> => {
+      const sizes = new Map<string, number>();
+      for (const symbol of report.symbols) {
+        sizes.set(symbol.name, (sizes.get(symbol.name) || 0) + symbol.size);
+      }
+      return sizes;
+    };
+
+    return {
+      totals: this.diffSizes(totals(baseline), totals(candidate)),
+      sections: this.diffSizes(sections(baseline), sections(candidate)).filter((entry) => entry.delta !== 0),
+      symbols: this.diffSizes(symbols(baseline), symbols(candidate))
+        .filter((entry) => entry.delta !== 0)
+        .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta)),
+    };
+  }
+
+  private diffSizes(baseline: Map<string, number>, candidate: Map<string, number>): SizeDelta[] {
+    const names = new Set([...baseline.keys(), ...candidate.keys()]);
+    return [...names].map((name) => {
+      const before = baseline.get(name) || 0;
+      const after = candidate.get(name) || 0;
+      return { name, baseline: before, candidate: after, delta: after - before };
+    });
+  }
+}
\ No newline at end of file
@@ -1,15 +1,25 @@
 import { InputValidator, type ValidationResult } from '../security/InputValidator.js';
 import { OutputSanitizer } from '../security/OutputSanitizer.js';
+import { AnalyzerPlistParser } from '../parsers/AnalyzerPlistParser.js';
+import { CheckerHelpParser } from '../parsers/CheckerHelpParser.js';
 import { logger } from '../utils/logger.js';
 import type { 
   StaticAnalysisOptions, 
   StaticAnalysisResponse, 
   AnalysisResult,
+  AnalyzerConfig,
+  CheckerInfo,
+  DiagnosticMessage,
   ErrorResponse 
 } from '../types/index.js';
-import { BaseClangTool } from './BaseClangTool.js';
+import { BaseClangTool, DEFAULT_LANGUAGE } from './BaseClangTool.js';
+import { promises as fs } from 'fs';
+import * as path from 'path';
 
 export class StaticAnalysisTool extends BaseClangTool {
+  // Checkers of each Clang toolchain, listed on first use
+  private checkers = new Map<string, CheckerInfo[]>();
+
   constructor() {
     super();
   }
@@ -18,41 +28,60 @@ export class StaticAnalysisTool extends BaseClangTool {
     const startTime = Date.now();
 
     try {
-      // Validate inputs
-      const validationResult = this.validateInputs(options);
+      // Validate inputs, then the checkers against those the selected Clang provides
+      let validationResult = this.validateInputs(options);
+      if (validationResult.success && options.checkers?.length) {
+        validationResult = InputValidator.validateCheckers(options.checkers, await this.getCheckers(options.compiler));
+      }
       if (!validationResult.success) {
         return {
           success: false,
           error: {
             code: 'VALIDATION_ERROR',
-            message: validationResult.error!,
+            message: validationResult.error ?? 'Validation failed',
           },
         };
       }
 
-      // Execute analysis with automatic cleanup
-      const result = await this.executeWithCleanup(
-        options.sourceCode,
-        options.language || 'c++17',
-        async (workDir, sourceFile) => {
-          const analyzerCommand = this.buildAnalyzerCommand(options, sourceFile, workDir);
-          logger.debug('Executing static analysis', { command: analyzerCommand });
-          return await this.executeClang(analyzerCommand, 60, 'Static analysis timed out');
-        }
+      // Execute analysis with automatic cleanup, unless an identical request was cached
+      let timedOut = false;
+      const response = await this.withCache(
+        'analyze_cpp',
+        options,
+        () => this.executeWithCleanup(
+          options,
+          options.language || DEFAULT_LANGUAGE,
+          async (workDir, sourceFiles): Promise<StaticAnalysisResponse> => {
+            const result = await this.executeClangPerUnit(
+              sourceFiles,
+              (sourceFile) => this.buildAnalyzerCommand(options, sourceFile),
+              options.timeout || 60,
+              'Static analysis timed out',
+              workDir,
+              this.getToolchain(options.compiler)
+            );
+            timedOut = result.exitCode === -1;
+
+            // Reports with their paths come from each unit's plist; the diagnostics add compiler errors
+            const compilerErrors = result.diagnostics.filter((diagnostic) => diagnostic.severity === 'error');
+            return {
+              success: true,
+              analysisResults: [
+                ...this.parseAnalysisResults(compilerErrors),
+                ...await this.readReports(sourceFiles, workDir),
+              ],
+              budget: { timedOut },
+              analysisTime: (Date.now() - startTime) / 1000,
+            };
+          }
+        ),
+        () => !timedOut
       );
 
-      // Parse analysis results
-      const analysisResults = this.parseAnalysisResults(result.stdout, result.stderr);
-
-      const response: StaticAnalysisResponse = {
-        success: true,
-        analysisResults,
-        analysisTime: (Date.now() - startTime) / 1000,
-      };
-
       logger.info('Static analysis completed', { 
         analysisTime: response.analysisTime,
-        resultCount: analysisResults.length,
+        resultCount: response.analysisResults.length,
+        timedOut: response.budget.timedOut,
       });
 
       return response;
@@ -72,8 +101,8 @@ export class StaticAnalysisTool extends BaseClangTool {
   }
 
   private validateInputs(options: StaticAnalysisOptions): ValidationResult {
-    // Validate source code
-    let result = InputValidator.validateSourceCode(options.sourceCode);
+    // Validate source code or file tree
+    let result = InputValidator.validateSourceInput(options);
     if (!result.success) return result;
 
     // Validate language standard
@@ -82,9 +111,9 @@ export class StaticAnalysisTool extends BaseClangTool {
       if (!result.success) return result;
     }
 
-    // Validate checkers
-    if (options.checkers) {
-      result = InputValidator.validateCheckers(options.checkers);
+    // Validate analyzer config
+    if (options.analyzerConfig) {
+      result = InputValidator.validateAnalyzerConfig(options.analyzerConfig);
       if (!result.success) return result;
     }
 
@@ -100,23 +129,31 @@ export class StaticAnalysisTool extends BaseClangTool {
       if (!result.success) return result;
     }
 
+    // Validate bundled libraries
+    if (options.libraries) {
+      result = InputValidator.validateLibraries(options.libraries);
+      if (!result.success) return result;
+    }
+
+    // Validate compiler selection
+    result = this.validateToolchain(options.compiler, 'Static analysis');
+    if (!result.success) return result;
+
+    // Validate timeout
+    if (options.timeout) {
+      result = InputValidator.validateTimeout(options.timeout);
+      if (!result.success) return result;
+    }
+
     return { success: true };
   }
 
-  private buildAnalyzerCommand(options: StaticAnalysisOptions, sourceFile: string, workDir: string): string[] {
-    const command = ['clang', '--analyze'];
+  private buildAnalyzerCommand(options: StaticAnalysisOptions, sourceFile: string): string[] {
+    const language = options.language || DEFAULT_LANGUAGE;
+    const command = [this.getDriver(this.getToolchain(options.compiler), language), '--analyze'];
 
-    // Language standard
-    if (options.language) {
-      if (options.language.startsWith('c++')) {
-        command.push('-x', 'c++', `-std=${options.language}`);
-      } else {
-        command.push('-x', 'c', `-std=${options.language}`);
-      }
-    } else {
-      // Default to C++17
-      command.push('-x', 'c++', '-std=c++17');
-    }
+    // Language and standard
+    command.push(...this.getLanguageFlags(language));
 
     // Enable specific checkers
     if (options.checkers && options.checkers.length > 0) {
@@ -142,8 +179,11 @@ export class StaticAnalysisTool extends BaseClangTool {
       }
     }
 
-    // Output format - use text format for easier parsing
-    command.push('-Xanalyzer', '-analyzer-output=text');
+    // Analysis depth and budget
+    command.push(...this.getAnalyzerConfigFlags(options.analyzerConfig));
+
+    // Output format - plist keeps the path of each report, including steps in headers
+    command.push('-Xanalyzer', '-analyzer-output=plist-multi-file', '-o', `${sourceFile}.plist`);
 
     // Preprocessor definitions
     if (options.defines) {
@@ -152,13 +192,16 @@ export class StaticAnalysisTool extends BaseClangTool {
       }
     }
 
-    // Include paths
+    // Include paths (relative to the source tree)
     if (options.includes) {
       for (const include of options.includes) {
         command.push(`-I${include}`);
       }
     }
 
+    // Bundled header-only libraries
+    command.push(...this.getLibraryFlags(options.libraries));
+
     // Disable warnings to focus on analysis results
     command.push('-w');
 
@@ -169,76 +212,61 @@ export class StaticAnalysisTool extends BaseClangTool {
   }
 
 
-  private parseAnalysisResults(stdout: string, stderr: string): AnalysisResult[] {
-    const results: AnalysisResult[] = [];
-    const combinedOutput = `${stderr}\n${stdout}`;
-
-    if (!combinedOutput.trim()) {
-      return results;
+  private getAnalyzerConfigFlags(config?: AnalyzerConfig): string[] {
+    const settings: string[] = [];
+    if (config?.mode) settings.push(`mode=${config.mode}`);
+    if (config?.ipa) settings.push(`ipa=${config.ipa}`);
+    if (config?.maxNodes) settings.push(`max-nodes=${config.maxNodes}`);
+    if (config?.aggressiveBinaryOperationSimplification !== undefined) {
+      settings.push(`aggressive-binary-operation-simplification=${config.aggressiveBinaryOperationSimplification}`);
     }
 
-    const lines = combinedOutput.split('\n');
-    let currentResult: Partial<AnalysisResult> = {};
-
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      if (!trimmedLine) continue;
-
-      // Parse clang static analyzer output format
-      // Format: filename:line:column: warning: message [checker-name]
-      const mainPattern = /^(.+?):(\d+):(\d+):\s*(warning|error|note):\s*(.+?)\s*\[([^\]]+)\]$/;
-      const match = trimmedLine.match(mainPattern);
+    const flags = settings.flatMap((setting) => ['-Xanalyzer', '-analyzer-config', '-Xanalyzer', setting]);
+    if (config?.inliningMode) {
+      flags.push('-Xanalyzer', `-analyzer-inlining-mode=${config.inliningMode}`);
+    }
+    return flags;
+  }
 
-      if (match) {
-        const [, , lineNum, columnNum, severity, message, checker] = match;
-        
-        // If we have a previous result, save it
-        if (currentResult.checker) {
-          results.push(currentResult as AnalysisResult);
-        }
+  /**
+   * Compiler errors that kept a translation unit from being analyzed
+   */
+  private parseAnalysisResults(diagnostics: DiagnosticMessage[]): AnalysisResult[] {
+    return diagnostics.map((diagnostic) => ({
+      checker: 'unknown',
+      file: diagnostic.file,
+      line: diagnostic.line,
+      column: diagnostic.column,
+      message: diagnostic.message,
+      severity: diagnostic.severity,
+      category: 'general',
+      ranges: diagnostic.ranges,
+      children: diagnostic.children,
+    }));
+  }
 
-        currentResult = {
-          checker: checker.trim(),
-          line: parseInt(lineNum, 10),
-          column: parseInt(columnNum, 10),
-          message: message.trim(),
-          severity: severity as 'error' | 'warning' | 'note',
-          category: this.categorizeChecker(checker.trim()),
-        };
-      } else {
-        // Check for simplified format without checker name
-        const simplePattern = /^(.+?):(\d+):(\d+):\s*(warning|error|note):\s*(.+)$/;
-        const simpleMatch = trimmedLine.match(simplePattern);
-
-        if (simpleMatch) {
-          const [, , lineNum, columnNum, severity, message] = simpleMatch;
-          
-          if (currentResult.checker) {
-            results.push(currentResult as AnalysisResult);
-          }
+  /**
+   * Read the analyzer's reports for each translation unit; a unit that failed to compile has none
+   */
+  private async readReports(sourceFiles: string[], workDir: string): Promise<AnalysisResult[]> {
+    const results: AnalysisResult[] = [];
 
-          currentResult = {
-            checker: 'unknown',
-            line: parseInt(lineNum, 10),
-            column: parseInt(columnNum, 10),
-            message: message.trim(),
-            severity: severity as 'error' | 'warning' | 'note',
-            category: 'general',
-          };
-        }
+    for (const sourceFile of sourceFiles) {
+      const plist = await fs.readFile(path.join(workDir, `${sourceFile}.plist`), 'utf8').catch(() => '');
+      for (const report of AnalyzerPlistParser.parse(plist)) {
+        results.push({
+          checker: report.checker,
+          ...report.location,
+          message: report.message,
+          severity: 'warning',
+          category: this.categorizeChecker(report.checker),
+          path: report.path,
+          edges: report.edges,
+        });
       }
     }
 
-    // Add the last result if exists
-    if (currentResult.checker) {
-      results.push(currentResult as AnalysisResult);
-    }
-
-    // Sanitize results
-    return results.map(result => ({
-      ...result,
-      message: OutputSanitizer.sanitizeCompilerOutput(result.message),
-    }));
+    return results;
   }
 
   private categorizeChecker(checker: string): string {
@@ -250,6 +278,10 @@ export class StaticAnalysisTool extends BaseClangTool {
       return 'unix';
     } else if (checker.startsWith('deadcode.')) {
       return 'deadcode';
+    } else if (checker.startsWith('cplusplus.')) {
+      return 'cplusplus';
+    } else if (checker.startsWith('optin.')) {
+      return 'optin';
     } else if (checker.startsWith('alpha.')) {
       return 'experimental';
     } else {
@@ -257,44 +289,28 @@ export class StaticAnalysisTool extends BaseClangTool {
     }
   }
 
-  // Get available checkers
-  async getAvailableCheckers(): Promise<string[]> {
-    try {
-      const result = await this.executeClang(['clang', '--analyzer-list-enabled-checkers'], 10);
-      
-      if (result.success) {
-        const checkers = result.stdout
-          .split('\n')
-          .filter((line: string) => line.trim().length > 0)
-          .map((line: string) => line.trim());
-        
-        return checkers;
-      }
-    } catch (error) {
-      logger.warn('Failed to get available checkers', { error });
+  /**
+   * Checkers of a Clang toolchain with their descriptions, as reported by
+   * `-analyzer-checker-help`; alpha checkers are listed separately by Clang
+   */
+  async getCheckers(compiler?: string): Promise<CheckerInfo[]> {
+    const toolchain = this.getToolchain(compiler);
+    if (toolchain.family !== 'clang') {
+      throw new Error(`Static analysis requires a Clang toolchain, not ${toolchain.id}`);
     }
 
-    // Return default list if command fails
-    return [
-      'core.CallAndMessage',
-      'core.DivideZero', 
-      'core.NonNullParamChecker',
-      'core.NullDereference',
-      'core.StackAddressEscape',
-      'core.UndefinedBinaryOperatorResult',
-      'core.VLASize',
-      'core.uninitialized.ArraySubscript',
-      'core.uninitialized.Assign',
-      'core.uninitialized.Branch',
-      'core.uninitialized.UndefReturn',
-      'deadcode.DeadStores',
-      'security.insecureAPI.UncheckedReturn',
-      'security.insecureAPI.gets',
-      'security.insecureAPI.strcpy',
-      'unix.API',
-      'unix.Malloc',
-      'unix.MallocSizeof',
-      'unix.MismatchedDeallocator',
-    ];
+    let checkers = this.checkers.get(toolchain.id);
+    if (!checkers) {
+      checkers = [];
+      for (const flag of ['-analyzer-checker-help', '-analyzer-checker-help-alpha']) {
+        const result = await this.executeClang([toolchain.cCompiler, '-cc1', flag], 10, 'Listing checkers timed out');
+        if (!result.success) {
+          throw new Error(`${toolchain.cCompiler} failed: ${OutputSanitizer.sanitizeStderr(result.stderr).trim()}`);
+        }
+        checkers.push(...CheckerHelpParser.parse(result.stdout));
+      }
+      this.checkers.set(toolchain.id, checkers);
+    }
+    return checkers;
   }
 }
\ No newline at end of file
@@ -0,0 +1,231 @@
+import { InputValidator, type ValidationResult } from '../security/InputValidator.js';
+import { OutputSanitizer } from '../security/OutputSanitizer.js';
+import { TestReportParser } from '../parsers/TestReportParser.js';
+import { logger } from '../utils/logger.js';
+import type {
+  ErrorResponse,
+  SourceFiles,
+  TestCaseResult,
+  TestFramework,
+  TestOptions,
+  TestResponse,
+  TestSummary
+} from '../types/index.js';
+import { DEFAULT_LANGUAGE } from './BaseClangTool.js';
+import { CompilationTool } from './CompilationTool.js';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+const REPORT_FILE = 'test_report.xml';
+
+// Translation unit added to the sources to provide the test runner's main()
+const RUNNER_FILE = 'mcp_test_main.cpp';
+
+const RUNNER_SOURCES: Record<Exclude<TestFramework, 'gtest'>, string> = {
+  catch2: '#define CATCH_CONFIG_MAIN\n#include <catch2/catch.hpp>\n',
+  doctest: '#define DOCTEST_CONFIG_IMPLEMENT_WITH_MAIN\n#include <doctest/doctest.h>\n',
+};
+
+// Sources that define their own runner; a second main() would not link
+const CUSTOM_RUNNER_PATTERN = /#\s*define\s+(CATCH_CONFIG_MAIN|CATCH_CONFIG_RUNNER|DOCTEST_CONFIG_IMPLEMENT(_WITH_MAIN)?)\b/;
+
+// GoogleTest is a compiled library; gtest_main only supplies main() if the sources do not
+const GTEST_LINK_FLAGS = ['-pthread', '-lgtest_main', '-lgtest'];
+
+export class TestRunnerTool extends CompilationTool {
+  constructor() {
+    super();
+  }
+
+  async runTests(options: TestOptions): Promise<TestResponse | ErrorResponse> {
+    const startTime = Date.now();
+
+    try {
+      // Validate inputs
+      const validationResult = this.validateInputs(options);
+      if (!validationResult.success) {
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: validationResult.error ?? 'Validation failed',
+          },
+        };
+      }
+
+      const buildOptions = this.getBuildOptions(options);
+
+      // Link against the framework and run the tests in the same work directory
+      const response = await this.executeWithCleanup(
+        buildOptions,
+        buildOptions.language || DEFAULT_LANGUAGE,
+        async (workDir, sourceFiles): Promise<TestResponse> => {
+          const compilation = await this.compileInWorkDir(buildOptions, sourceFiles, workDir);
+          if (!compilation.success) {
+            return { success: false, compilation, tests: [] };
+          }
+
+          const binary = `./${path.basename(this.getOutputFile(buildOptions, workDir))}`;
+          const args = this.getReporterArguments(options.framework, options.filter);
+          logger.debug('Running tests', { binary, args });
+          const execution = await this.executeProgram(binary, {
+            cwd: workDir,
+            timeout: options.runTimeout || 10,
+            args,
+            env: options.coverage ? this.getCoverageEnvironment() : undefined,
+          });
+
+          execution.stdout = OutputSanitizer.sanitizeArtifact(execution.stdout, workDir);
+          execution.stderr = OutputSanitizer.sanitizeArtifact(execution.stderr, workDir);
+
+          // A crashed or timed out run leaves no report, or only part of one
+          let tests: TestCaseResult[] = [];
+          try {
+            const report = await fs.readFile(path.join(workDir, REPORT_FILE), 'utf8');
+            tests = TestReportParser.parse(OutputSanitizer.sanitizeArtifact(report, workDir));
+          } catch {
+            logger.debug('No test report written', { exitCode: execution.exitCode, signal: execution.signal });
+          }
+
+          const summary = this.summarize(tests);
+          const response: TestResponse = {
+            // The frameworks exit non-zero when a test fails; a signal or timeout means the run was cut short
+            success: !execution.signal && !execution.timedOut && tests.length > 0 && summary.failed === 0,
+            compilation,
+            execution,
+            summary,
+            tests,
+          };
+
+          if (options.coverage) {
+            const { coverage, coverageError } = await this.collectCoverage(
+              binary,
+              workDir,
+              options.timeout || 30,
+              options.compiler,
+              [RUNNER_FILE]
+            );
+            if (coverage) response.coverage = coverage;
+            if (coverageError) response.coverageError = coverageError;
+          }
+
+          return response;
+        }
+      );
+
+      logger.info('Test run completed', {
+        success: response.success,
+        framework: options.framework,
+        summary: response.summary,
+        timedOut: response.execution?.timedOut,
+        lineCoverage: response.coverage?.lines.percent,
+      });
+
+      return response;
+
+    } catch (error) {
+      logger.error('Test run failed', { error: error instanceof Error ? error.message : error });
+
+      return {
+        success: false,
+        error: {
+          code: 'TEST_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown test error',
+          details: { executionTime: (Date.now() - startTime) / 1000 },
+        },
+      };
+    }
+  }
+
+  protected validateInputs(options: TestOptions): ValidationResult {
+    // Validate compilation options for a linked program
+    let result = super.validateInputs({ ...options, compileOnly: false, outputMode: 'object' });
+    if (!result.success) return result;
+
+    // Validate test framework
+    result = InputValidator.validateTestFramework(options.framework);
+    if (!result.success) return result;
+
+    // Validate language; the frameworks are C++ libraries
+    if (this.getSourceLanguage(options.language || DEFAULT_LANGUAGE) !== 'c++') {
+      return { success: false, error: 'Unit tests require a C++ language standard' };
+    }
+
+    // Validate test filter
+    if (options.filter !== undefined) {
+      result = InputValidator.validateTestFilter(options.filter);
+      if (!result.success) return result;
+    }
+
+    // Validate run timeout
+    if (options.runTimeout) {
+      result = InputValidator.validateTimeout(options.runTimeout);
+      if (!result.success) return result;
+    }
+
+    // Validate coverage; source-based coverage is a Clang feature
+    if (options.coverage) {
+      result = this.validateToolchain(options.compiler, 'Code coverage');
+      if (!result.success) return result;
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * The user's sources built as a program against the framework, with a generated runner
+   * unless the sources provide their own
+   */
+  private getBuildOptions(options: TestOptions): TestOptions {
+    const language = options.language || DEFAULT_LANGUAGE;
+    const buildOptions: TestOptions = {
+      ...options,
+      compileOnly: false,
+      outputMode: 'object',
+      flags: [...(options.flags || []), ...(options.coverage ? this.getCoverageFlags() : [])],
+    };
+
+    if (options.framework === 'gtest') {
+      buildOptions.flags = [...(buildOptions.flags || []), ...GTEST_LINK_FLAGS];
+      return buildOptions;
+    }
+
+    buildOptions.libraries = [...new Set([...(options.libraries || []), options.framework])];
+
+    const files: SourceFiles = this.getSourceFiles(options, language);
+    if (Object.values(files).some((contents) => CUSTOM_RUNNER_PATTERN.test(contents))) {
+      return buildOptions;
+    }
+
+    return {
+      ...buildOptions,
+      sourceCode: undefined,
+      files: { ...files, [RUNNER_FILE]: RUNNER_SOURCES[options.framework] },
+      entryPoints: [...this.getEntryPoints(options, language), RUNNER_FILE],
+    };
+  }
+
+  /**
+   * Command line selecting the JUnit reporter, written to a file so that it is not mixed
+   * with the output of the tests themselves
+   */
+  private getReporterArguments(framework: TestFramework, filter?: string): string[] {
+    switch (framework) {
+      case 'gtest':
+        return [`--gtest_output=xml:${REPORT_FILE}`, ...(filter ? [`--gtest_filter=${filter}`] : [])];
+      case 'catch2':
+        return ['--reporter', 'junit', '--out', REPORT_FILE, ...(filter ? [filter] : [])];
+      case 'doctest':
+        return ['--reporters=junit', `--out=${REPORT_FILE}`, ...(filter ? [`--test-case=${filter}`] : [])];
+    }
+  }
+
+  private summarize(tests: TestCaseResult[]): TestSummary {
+    return {
+      total: tests.length,
+      passed: tests.filter((test) => test.status === 'passed').length,
+      failed: tests.filter((test) => test.status === 'failed').length,
+      skipped: tests.filter((test) => test.status === 'skipped').length,
+    };
+  }
+}
\ No newline at end of file
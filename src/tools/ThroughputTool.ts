@@ -0,0 +1,226 @@
+import { InputValidator, type ValidationResult } from '../security/InputValidator.js';
+import { OutputSanitizer } from '../security/OutputSanitizer.js';
+import { AssemblyParser } from '../parsers/AssemblyParser.js';
+import { McaOutputParser } from '../parsers/McaOutputParser.js';
+import { logger } from '../utils/logger.js';
+import type {
+  CompilationOptions,
+  ErrorResponse,
+  ThroughputOptions,
+  ThroughputResponse
+} from '../types/index.js';
+import { DEFAULT_LANGUAGE } from './BaseClangTool.js';
+import { CompilationTool } from './CompilationTool.js';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+// The instructions of a single function, extracted from the compiler's assembly
+const FUNCTION_FILE = 'function.s';
+
+// Comment that opens an analysis region, e.g. from asm volatile("# LLVM-MCA-BEGIN loop")
+const REGION_MARKER = 'LLVM-MCA-BEGIN';
+
+export class ThroughputTool extends CompilationTool {
+  constructor() {
+    super();
+  }
+
+  async analyzeThroughput(options: ThroughputOptions): Promise<ThroughputResponse | ErrorResponse> {
+    const startTime = Date.now();
+
+    try {
+      // Validate inputs
+      const validationResult = this.validateInputs(options);
+      if (!validationResult.success) {
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: validationResult.error ?? 'Validation failed',
+          },
+        };
+      }
+
+      // Compile to assembly and simulate it, unless an identical request was cached. Whether a
+      // function must be selected is only known from the assembly.
+      let timedOut = false;
+      let selectionError: string | undefined;
+      const response = await this.withCache(
+        'analyze_throughput',
+        options,
+        () => this.executeWithCleanup(
+          options,
+          options.language || DEFAULT_LANGUAGE,
+          async (workDir, sourceFiles): Promise<ThroughputResponse> => {
+            const compileOptions: CompilationOptions = { ...options, outputMode: 'assembly', asmFilter: false };
+            const compilation = await this.compileInWorkDir(compileOptions, sourceFiles, workDir);
+            delete compilation.artifact;
+            if (!compilation.success) {
+              return {
+                success: false,
+                compilation,
+                regions: [],
+                stderr: '',
+                analysisTime: (Date.now() - startTime) / 1000,
+              };
+            }
+
+            // Marked regions are analyzed where they are; a function is analyzed on its own and
+            // takes precedence over markers
+            const assemblyFile = this.getOutputFile(compileOptions, workDir);
+            const assembly = await fs.readFile(assemblyFile, 'utf8');
+            let input = path.relative(workDir, assemblyFile);
+            let functionName: string | undefined;
+            if (options.function || !assembly.includes(REGION_MARKER)) {
+              const extracted = await this.extractFunction(assembly, options.function, options.compiler);
+              if ('error' in extracted) {
+                selectionError = extracted.error;
+                return {
+                  success: false,
+                  compilation,
+                  regions: [],
+                  stderr: '',
+                  analysisTime: (Date.now() - startTime) / 1000,
+                };
+              }
+              await fs.writeFile(path.join(workDir, FUNCTION_FILE), `${extracted.listing}\n`);
+              input = FUNCTION_FILE;
+              functionName = extracted.name;
+            }
+
+            const mca = this.getToolchain(options.compiler).tools['llvm-mca'];
+            const command = [mca, '--bottleneck-analysis', ...this.getTargetFlags(options), input];
+            logger.debug('Executing llvm-mca', { command });
+            const result = await this.executeClang(command, options.timeout || 30, 'Throughput analysis timed out', workDir);
+            timedOut = result.exitCode === -1;
+
+            const regions = result.success ? McaOutputParser.parse(result.stdout) : [];
+            if (functionName && regions.length === 1) {
+              regions[0].name = functionName;
+            }
+
+            return {
+              success: result.success,
+              compilation,
+              regions,
+              stderr: OutputSanitizer.sanitizeStderr(result.stderr),
+              analysisTime: (Date.now() - startTime) / 1000,
+            };
+          }
+        ),
+        (result) => result.compilation.exitCode !== -1 && !timedOut && !selectionError
+      );
+
+      if (selectionError) {
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: selectionError,
+          },
+        };
+      }
+
+      logger.info('Throughput analysis completed', {
+        success: response.success,
+        cpu: options.cpu,
+        regionCount: response.regions.length,
+        analysisTime: response.analysisTime,
+      });
+
+      return response;
+
+    } catch (error) {
+      logger.error('Throughput analysis failed', { error: error instanceof Error ? error.message : error });
+
+      return {
+        success: false,
+        error: {
+          code: 'THROUGHPUT_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown throughput analysis error',
+          details: { executionTime: (Date.now() - startTime) / 1000 },
+        },
+      };
+    }
+  }
+
+  protected validateInputs(options: ThroughputOptions): ValidationResult {
+    // Validate compilation options
+    let result = super.validateInputs({ ...options, outputMode: 'assembly' });
+    if (!result.success) return result;
+
+    // WebAssembly has no scheduling model to simulate
+    if (options.target?.startsWith('wasm32-')) {
+      return { success: false, error: `Throughput analysis is not available for target ${options.target}` };
+    }
+
+    // Validate function name
+    if (options.function !== undefined) {
+      result = InputValidator.validateFunctionName(options.function);
+      if (!result.success) return result;
+    }
+
+    // Validate iterations
+    if (options.iterations !== undefined) {
+      result = InputValidator.validateSimulationIterations(options.iterations);
+      if (!result.success) return result;
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * The target and CPU the assembly was compiled for, and the number of simulated iterations.
+   * A target without a CPU is simulated on its default CPU, the host on the host CPU.
+   */
+  private getTargetFlags(options: ThroughputOptions): string[] {
+    const flags: string[] = [];
+    if (options.target) {
+      const cpu = options.cpu || InputValidator.getTargetCpus()[options.target][0];
+      flags.push(`-mtriple=${options.target}`, `-mcpu=${cpu}`);
+    }
+    if (options.iterations) flags.push(`-iterations=${options.iterations}`);
+    return flags;
+  }
+
+  /**
+   * The instructions of the requested function, matched by its symbol or (for C++) its demangled
+   * name with or without parameters. Without a name the assembly must define a single function.
+   * A name that matches no function or several, or a missing one, is returned as an error.
+   */
+  private async extractFunction(
+    assembly: string,
+    name?: string,
+    compiler?: string
+  ): Promise<{ name: string; listing: string } | { error: string }> {
+    const blocks = AssemblyParser.parse(assembly);
+    const symbols = [...new Set(blocks.flatMap((block) => (block.function ? [block.function] : [])))];
+    const mangled = symbols.filter((symbol) => symbol.startsWith('_Z'));
+    const names = mangled.length > 0 ? await this.demangle(mangled, compiler) : new Map<string, string>();
+    const readable = (symbol: string): string => names.get(symbol) || symbol;
+
+    const matches = name === undefined
+      ? symbols
+      : symbols.filter((symbol) =>
+        symbol === name || readable(symbol) === name || readable(symbol).startsWith(`${name}(`)
+      );
+
+    if (matches.length !== 1) {
+      const functions = symbols.map(readable).join(', ') || 'none';
+      if (name === undefined) {
+        return { error: `No ${REGION_MARKER} markers found; select one of the functions: ${functions}` };
+      }
+      return {
+        error: matches.length === 0
+          ? `Function not found: ${name}. Functions: ${functions}`
+          : `Function name is ambiguous: ${name}. Matches: ${matches.map(readable).join(', ')}`,
+      };
+    }
+
+    const symbol = matches[0];
+    return {
+      name: readable(symbol),
+      listing: AssemblyParser.toListing(blocks.filter((block) => block.function === symbol)),
+    };
+  }
+}
\ No newline at end of file
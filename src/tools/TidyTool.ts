@@ -0,0 +1,298 @@
+import { InputValidator, type ValidationResult } from '../security/InputValidator.js';
+import { OutputSanitizer } from '../security/OutputSanitizer.js';
+import { TidyFixesParser, type TidyMessage } from '../parsers/TidyFixesParser.js';
+import { logger } from '../utils/logger.js';
+import type {
+  ErrorResponse,
+  FixIt,
+  SourceLocation,
+  TidyFinding,
+  TidyOptions,
+  TidyResponse
+} from '../types/index.js';
+import { BaseClangTool, DEFAULT_LANGUAGE } from './BaseClangTool.js';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+const FIXES_FILE = 'fixes.yaml';
+
+// Checks run when none are selected; trailing return types would rewrite every function
+const DEFAULT_CHECKS = ['bugprone-*', 'performance-*', 'modernize-*', '-modernize-use-trailing-return-type'];
+
+export class TidyTool extends BaseClangTool {
+  constructor() {
+    super();
+  }
+
+  async tidy(options: TidyOptions): Promise<TidyResponse | ErrorResponse> {
+    const startTime = Date.now();
+
+    try {
+      // Validate inputs
+      const validationResult = this.validateInputs(options);
+      if (!validationResult.success) {
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: validationResult.error ?? 'Validation failed',
+          },
+        };
+      }
+
+      // Run clang-tidy with automatic cleanup, unless an identical request was cached
+      const language = options.language || DEFAULT_LANGUAGE;
+      let timedOut = false;
+      const response = await this.withCache(
+        'tidy_cpp',
+        options,
+        () => this.executeWithCleanup(
+          options,
+          language,
+          async (workDir, sourceFiles): Promise<TidyResponse> => {
+            const command = this.buildTidyCommand(options, sourceFiles);
+            logger.debug('Executing clang-tidy', { command });
+            const result = await this.executeClang(command, options.timeout || 60, 'clang-tidy timed out', workDir);
+            timedOut = result.exitCode === -1;
+
+            // Without findings clang-tidy writes no fixes file
+            const fixes = await fs.readFile(path.join(workDir, FIXES_FILE), 'utf8').catch(() => '');
+            const findings = await this.readFindings(fixes, workDir);
+
+            const response: TidyResponse = {
+              success: result.success,
+              findings,
+              stderr: OutputSanitizer.sanitizeStderr(result.stderr),
+              analysisTime: (Date.now() - startTime) / 1000,
+            };
+            if (options.fix) {
+              response.fixed = this.applyFixIts(options, language, findings);
+            }
+
+            return response;
+          }
+        ),
+        () => !timedOut
+      );
+
+      logger.info('clang-tidy completed', {
+        success: response.success,
+        findingCount: response.findings.length,
+        analysisTime: response.analysisTime,
+      });
+
+      return response;
+
+    } catch (error) {
+      logger.error('clang-tidy failed', { error: error instanceof Error ? error.message : error });
+
+      return {
+        success: false,
+        error: {
+          code: 'TIDY_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown clang-tidy error',
+          details: { executionTime: (Date.now() - startTime) / 1000 },
+        },
+      };
+    }
+  }
+
+  private validateInputs(options: TidyOptions): ValidationResult {
+    // Validate source code or file tree
+    let result = InputValidator.validateSourceInput(options);
+    if (!result.success) return result;
+
+    // Validate language standard
+    if (options.language) {
+      result = InputValidator.validateLanguageStandard(options.language);
+      if (!result.success) return result;
+    }
+
+    // Validate checks
+    if (options.checks) {
+      result = InputValidator.validateTidyChecks(options.checks);
+      if (!result.success) return result;
+    }
+
+    // Validate check options
+    if (options.checkOptions) {
+      result = InputValidator.validateTidyCheckOptions(options.checkOptions);
+      if (!result.success) return result;
+    }
+
+    // Validate defines
+    if (options.defines) {
+      result = InputValidator.validateDefines(options.defines);
+      if (!result.success) return result;
+    }
+
+    // Validate includes
+    if (options.includes) {
+      result = InputValidator.validateIncludes(options.includes);
+      if (!result.success) return result;
+    }
+
+    // Validate bundled libraries
+    if (options.libraries) {
+      result = InputValidator.validateLibraries(options.libraries);
+      if (!result.success) return result;
+    }
+
+    // Validate compiler flags
+    if (options.flags) {
+      result = InputValidator.validateCompilerFlags(options.flags);
+      if (!result.success) return result;
+    }
+
+    // Validate compiler selection, whose clang-tidy runs
+    result = this.validateToolchain(options.compiler, 'clang-tidy');
+    if (!result.success) return result;
+
+    // Validate timeout
+    if (options.timeout) {
+      result = InputValidator.validateTimeout(options.timeout);
+      if (!result.success) return result;
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * clang-tidy over all translation units, configured inline; compiler flags follow `--`
+   * in place of a compilation database
+   */
+  private buildTidyCommand(options: TidyOptions, sourceFiles: string[]): string[] {
+    const config = {
+      Checks: (options.checks && options.checks.length > 0 ? options.checks : DEFAULT_CHECKS).join(','),
+      CheckOptions: options.checkOptions || {},
+    };
+    const command = [
+      this.getToolchain(options.compiler).tools['clang-tidy'], '--quiet', `--export-fixes=${FIXES_FILE}`, '--header-filter=.*',
+      `--config=${JSON.stringify(config)}`, ...sourceFiles, '--',
+    ];
+
+    // Language and standard
+    command.push(...this.getLanguageFlags(options.language || DEFAULT_LANGUAGE));
+
+    // Preprocessor definitions
+    for (const define of options.defines || []) {
+      command.push(`-D${define}`);
+    }
+
+    // Include paths (relative to the source tree)
+    for (const include of options.includes || []) {
+      command.push(`-I${include}`);
+    }
+
+    // Bundled header-only libraries
+    command.push(...this.getLibraryFlags(options.libraries));
+
+    // Warning flags enable the matching clang-diagnostic-* findings
+    command.push(...(options.flags || []));
+
+    return command;
+  }
+
+  /**
+   * Findings from the exported fixes, with byte offsets resolved to lines and columns.
+   * A header included by several translation units reports its findings once.
+   */
+  private async readFindings(fixes: string, workDir: string): Promise<TidyFinding[]> {
+    const lineStarts = new Map<string, number[] | null>();
+    const locate = async (filePath: string, offset: number): Promise<SourceLocation> => {
+      const absolutePath = path.resolve(workDir, filePath);
+      if (!lineStarts.has(absolutePath)) {
+        const content = await fs.readFile(absolutePath).catch(() => null);
+        lineStarts.set(absolutePath, content && this.getLineStarts(content));
+      }
+
+      const starts = lineStarts.get(absolutePath);
+      const line = starts ? this.findLine(starts, offset) : 0;
+      return {
+        file: this.getRelativePath(filePath, workDir),
+        line: line + 1,
+        column: starts ? offset - starts[line] + 1 : 0,
+      };
+    };
+
+    const toFinding = async (check: string, severity: TidyFinding['severity'], message: TidyMessage): Promise<TidyFinding> => {
+      const location = message.filePath ? await locate(message.filePath, message.fileOffset) : { line: 0, column: 0 };
+      const finding: TidyFinding = { check, ...location, message: message.message, severity };
+
+      const ranges = [];
+      for (const range of message.ranges) {
+        ranges.push({
+          start: await locate(range.filePath, range.offset),
+          end: await locate(range.filePath, range.offset + range.length),
+        });
+      }
+      if (ranges.length > 0) finding.ranges = ranges;
+
+      const fixIts: FixIt[] = [];
+      for (const replacement of message.replacements) {
+        fixIts.push({
+          range: {
+            start: await locate(replacement.filePath, replacement.offset),
+            end: await locate(replacement.filePath, replacement.offset + replacement.length),
+          },
+          replacement: replacement.text,
+        });
+      }
+      if (fixIts.length > 0) finding.fixIts = fixIts;
+
+      return finding;
+    };
+
+    const findings: TidyFinding[] = [];
+    const seen = new Set<string>();
+    for (const diagnostic of TidyFixesParser.parse(fixes)) {
+      const key = [diagnostic.check, diagnostic.message.filePath, diagnostic.message.fileOffset, diagnostic.message.message].join('\0');
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const finding = await toFinding(diagnostic.check, diagnostic.level, diagnostic.message);
+      if (diagnostic.notes.length > 0) {
+        finding.children = [];
+        for (const note of diagnostic.notes) {
+          finding.children.push(await toFinding(diagnostic.check, 'note', note));
+        }
+      }
+      findings.push(finding);
+    }
+
+    return OutputSanitizer.sanitizeDiagnostics(findings) as TidyFinding[];
+  }
+
+  /**
+   * Files inside the source tree relative to it, others (system headers) by absolute path
+   */
+  private getRelativePath(filePath: string, workDir: string): string {
+    const relativePath = path.relative(workDir, path.resolve(workDir, filePath));
+    return relativePath.startsWith('..') || path.isAbsolute(relativePath) ? filePath : relativePath;
+  }
+
+  private getLineStarts(content: Buffer): number[] {
+    const starts = [0];
+    for (let index = content.indexOf(0x0a); index !== -1; index = content.indexOf(0x0a, index + 1)) {
+      starts.push(index + 1);
+    }
+    return starts;
+  }
+
+  /**
+   * Zero-based line containing the byte offset
+   */
+  private findLine(lineStarts: number[], offset: number): number {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return low;
+  }
+}
\ No newline at end of file
@@ -2,7 +2,11 @@
 
 export type LanguageStandard = 
   | 'c89' | 'c99' | 'c11' | 'c17' | 'c23'
-  | 'c++98' | 'c++03' | 'c++11' | 'c++14' | 'c++17' | 'c++20' | 'c++23';
+  | 'gnu89' | 'gnu99' | 'gnu11' | 'gnu17' | 'gnu23'
+  | 'c++98' | 'c++03' | 'c++11' | 'c++14' | 'c++17' | 'c++20' | 'c++23'
+  | 'gnu++98' | 'gnu++03' | 'gnu++11' | 'gnu++14' | 'gnu++17' | 'gnu++20' | 'gnu++23';
+
+export type SourceLanguage = 'c' | 'c++';
 
 export type OptimizationLevel = 'O0' | 'O1' | 'O2' | 'O3' | 'Os' | 'Oz' | 'Ofast';
 
@@ -10,37 +14,209 @@ export type WarningLevel = 'none' | 'all' | 'extra' | 'pedantic' | 'error';
 
 export type ASTFormat = 'json' | 'dump' | 'graphviz';
 
-export interface CompilationOptions {
-  sourceCode: string;
+export type OutputMode = 'object' | 'llvm-ir' | 'assembly' | 'disassemble';
+
+export type AssemblySyntax = 'att' | 'intel';
+
+export type TargetTriple =
+  | 'x86_64-linux-gnu'
+  | 'x86_64-linux-musl'
+  | 'aarch64-linux-gnu'
+  | 'aarch64-none-elf'
+  | 'armv7a-linux-gnueabihf'
+  | 'thumbv7m-none-eabi'
+  | 'thumbv7em-none-eabihf'
+  | 'riscv64-linux-gnu'
+  | 'riscv64-unknown-elf'
+  | 'riscv32-unknown-elf'
+  | 'wasm32-unknown-unknown'
+  | 'wasm32-wasi';
+
+export type SanitizerKind = 'address' | 'undefined' | 'thread' | 'leak' | 'memory';
+
+export type RemarkKind = 'passed' | 'missed' | 'analysis' | 'failure';
+
+export type CompilerFamily = 'clang' | 'gcc';
+
+export type LibraryName = 'fmt' | 'nlohmann_json' | 'range-v3' | 'catch2' | 'doctest';
+
+export type TestFramework = 'gtest' | 'catch2' | 'doctest';
+
+export type TestStatus = 'passed' | 'failed' | 'skipped';
+
+// Relative file path -> file contents
+export type SourceFiles = Record<string, string>;
+
+// Either a single source string or a virtual file tree with its translation units
+export interface SourceInput {
+  sourceCode?: string;
+  files?: SourceFiles;
+  entryPoints?: string[];
+}
+
+export interface CompilationOptions extends SourceInput {
   language?: LanguageStandard;
   optimization?: OptimizationLevel;
   warnings?: WarningLevel;
   defines?: string[];
   includes?: string[];
+  libraries?: LibraryName[];
   flags?: string[];
   compileOnly?: boolean;
+  outputMode?: OutputMode;
+  asmSyntax?: AssemblySyntax;
+  asmFilter?: boolean;
+  interleaveSource?: boolean; // Source lines in the disassembly, from debug information
+  sourceLines?: SourceLineRange;
+  target?: TargetTriple;
+  cpu?: string;
+  applyFixIts?: boolean;
+  timeTrace?: boolean;
+  timeTraceRaw?: boolean;
+  remarks?: RemarkKind[];
+  remarkPasses?: string; // Regular expression matching pass names, e.g. loop-vectorize|inline
+  compiler?: string; // Toolchain id (e.g. clang-18, gcc-13) or family (clang, gcc)
   timeout?: number;
 }
 
-export interface StaticAnalysisOptions {
-  sourceCode: string;
+export interface ExecutionOptions extends CompilationOptions {
+  stdin?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  runTimeout?: number;
+  sanitizers?: SanitizerKind[];
+  coverage?: boolean;
+}
+
+export interface TestOptions extends CompilationOptions {
+  framework: TestFramework;
+  filter?: string; // Test name pattern in the framework's own syntax
+  runTimeout?: number;
+  coverage?: boolean;
+}
+
+// Options that may differ between the two builds of a size comparison
+export type SizeVariant = Pick<CompilationOptions, 'optimization' | 'defines' | 'flags' | 'cpu' | 'compiler'>;
+
+export interface SizeOptions extends CompilationOptions {
+  compareWith?: SizeVariant;
+}
+
+export type MacroDump = 'none' | 'final' | 'history';
+
+export interface PreprocessOptions extends SourceInput {
+  language?: LanguageStandard;
+  defines?: string[];
+  includes?: string[];
+  libraries?: LibraryName[];
+  lineMarkers?: boolean;
+  macros?: MacroDump;
+  systemMacros?: boolean;
+  compiler?: string;
+  timeout?: number;
+}
+
+export type IRDumpFormat = 'diff' | 'full';
+
+export interface OptimizeOptions extends SourceInput {
+  ir?: string; // LLVM IR to optimize instead of compiling the sources
+  passes: string; // New pass manager pipeline, e.g. function(sroa,instcombine) or default<O2>
+  dump?: IRDumpFormat;
+  language?: LanguageStandard;
+  optimization?: OptimizationLevel; // Of the IR given to opt
+  defines?: string[];
+  includes?: string[];
+  libraries?: LibraryName[];
+  flags?: string[];
+  compiler?: string;
+  timeout?: number;
+}
+
+export interface ThroughputOptions extends CompilationOptions {
+  function?: string; // Analyze this whole function instead of the LLVM-MCA-BEGIN/END regions
+  iterations?: number; // Simulated iterations of each region
+}
+
+export type AnalysisMode = 'shallow' | 'deep';
+
+export type InterproceduralAnalysis = 'none' | 'basic-inlining' | 'inlining' | 'dynamic' | 'dynamic-bifurcation';
+
+export type InliningMode = 'all' | 'noredundancy';
+
+export interface AnalyzerConfig {
+  mode?: AnalysisMode; // shallow: fewer paths and less inlining, for speed
+  ipa?: InterproceduralAnalysis; // How calls are followed into their definitions
+  inliningMode?: InliningMode; // noredundancy skips functions already analyzed as inlined
+  maxNodes?: number; // Exploded graph nodes per top-level function before its paths are cut off
+  aggressiveBinaryOperationSimplification?: boolean; // Solve more symbolic comparisons and arithmetic
+}
+
+export interface StaticAnalysisOptions extends SourceInput {
   language?: LanguageStandard;
   checkers?: string[];
+  analyzerConfig?: AnalyzerConfig;
+  defines?: string[];
+  includes?: string[];
+  libraries?: LibraryName[];
+  compiler?: string; // Clang toolchains only
+  timeout?: number; // For all translation units together
+}
+
+export interface TidyOptions extends SourceInput {
+  language?: LanguageStandard;
+  checks?: string[]; // Globs such as modernize-*; a leading - disables matching checks
+  checkOptions?: Record<string, string>; // e.g. readability-identifier-naming.VariableCase: camelBack
+  fix?: boolean; // Return the sources with the findings' fix-its applied
   defines?: string[];
   includes?: string[];
+  libraries?: LibraryName[];
+  flags?: string[];
+  compiler?: string; // Clang toolchain whose clang-tidy runs, e.g. clang-18
+  timeout?: number;
 }
 
-export interface ASTOptions {
-  sourceCode: string;
+export interface ASTOptions extends SourceInput {
   language?: LanguageStandard;
+  includes?: string[];
+  libraries?: LibraryName[];
   format?: ASTFormat;
+  compiler?: string; // Clang toolchains only
+}
+
+export interface SourceLocation {
+  file?: string;
+  line: number;
+  column: number;
+}
+
+export interface SourceRange {
+  start: SourceLocation;
+  end: SourceLocation; // Exclusive
+}
+
+export interface FixIt {
+  range: SourceRange;
+  replacement: string; // Empty for removals; an empty range inserts
+}
+
+export interface FixItResult {
+  applied: number;
+  skipped: number; // Overlapping or outside the source tree
+  files: SourceFiles; // Patched contents of changed files
+  diff: string; // Unified diff of all changes
 }
 
 export interface DiagnosticMessage {
+  file?: string;
   line: number;
   column: number;
   message: string;
   severity: 'error' | 'warning' | 'note';
+  option?: string; // e.g. -Wunused-variable
+  category?: string; // e.g. Semantic Issue
+  ranges?: SourceRange[];
+  fixIts?: FixIt[];
+  children?: DiagnosticMessage[]; // Notes and include/macro/template backtraces
 }
 
 export interface CompilationDiagnostics {
@@ -49,6 +225,50 @@ export interface CompilationDiagnostics {
   notes: DiagnosticMessage[];
 }
 
+export interface SourceLineRange {
+  file?: string;
+  start: number;
+  end: number;
+}
+
+export interface AssemblyBlock {
+  file: string | null;
+  startLine: number | null;
+  endLine: number | null;
+  function: string | null;
+  instructions: string[];
+}
+
+export interface Relocation {
+  offset: number; // Within the section
+  type: string; // e.g. R_X86_64_PLT32
+  symbol: string; // Target symbol with addend, e.g. printf-0x4
+}
+
+export interface DisassembledInstruction {
+  address: number; // Offset within the section
+  bytes: string; // Encoding as printed by llvm-objdump, e.g. "0f af ff"
+  instruction: string;
+  relocations: Relocation[];
+  file?: string; // Source position, when interleaved with source
+  line?: number;
+}
+
+export interface DisassembledFunction {
+  name: string; // Demangled
+  section: string;
+  address: number;
+  size: number; // Bytes up to the end of the last instruction
+  instructions: DisassembledInstruction[];
+}
+
+export interface CompilationArtifact {
+  mode: OutputMode;
+  content: string;
+  blocks?: AssemblyBlock[];
+  functions?: DisassembledFunction[]; // Disassembly per function symbol
+}
+
 export interface CompilationResponse {
   success: boolean;
   exitCode: number;
@@ -57,21 +277,422 @@ export interface CompilationResponse {
   diagnostics: CompilationDiagnostics;
   compilationTime: number;
   clangVersion: string;
+  compiler: string; // Toolchain id, e.g. gcc-13
+  artifact?: CompilationArtifact;
+  appliedFixIts?: FixItResult;
+  timeTrace?: TimeTraceSummary[];
+  optimizationRemarks?: OptimizationRemarkGroup[];
+  cached?: boolean; // Served from the result cache; timings are those of the original run
+}
+
+export interface OptimizationRemark {
+  kind: RemarkKind;
+  pass: string; // e.g. loop-vectorize, inline
+  name: string; // Remark identifier within the pass, e.g. UnsafeDep
+  function: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  message: string;
+  hotness?: number; // Only with profile data
+}
+
+export interface OptimizationRemarkGroup {
+  file?: string; // Absent for remarks without a source location
+  line?: number;
+  remarks: OptimizationRemark[];
+}
+
+export interface TimeTraceEntry {
+  name: string; // Phase, header path or instantiated template
+  durationMs: number; // Including nested work (headers included by the header, nested instantiations)
+  count: number;
+}
+
+export interface TimeTraceSummary {
+  file: string; // Translation unit
+  totalTimeMs: number;
+  phases: TimeTraceEntry[];
+  headers: TimeTraceEntry[];
+  templates: TimeTraceEntry[];
+  trace?: string; // Chrome trace event JSON written by -ftime-trace
+}
+
+export interface CompilerInfo {
+  compiler: string; // Id of the default toolchain
+  version: string;
+  target: string; // Default (host) target triple
+  toolchains: Array<Pick<Toolchain, 'id' | 'family' | 'version' | 'target' | 'default'>>;
+  targets: Record<TargetTriple, string[]>; // Cross-compilation targets and their CPUs
+}
+
+export interface LibraryInfo {
+  name: LibraryName;
+  version: string;
+  description: string;
+  header: string; // Header to include, e.g. fmt/format.h
+  defines?: string[]; // Configuration the headers need, e.g. FMT_HEADER_ONLY
+  installed?: boolean; // Headers present in this installation
+}
+
+export type LlvmTool =
+  | 'opt'
+  | 'llvm-mca'
+  | 'llvm-size'
+  | 'llvm-nm'
+  | 'llvm-cxxfilt'
+  | 'llvm-objdump'
+  | 'llvm-profdata'
+  | 'llvm-cov'
+  | 'clang-tidy';
+
+export interface Toolchain {
+  id: string; // Family and major version, e.g. clang-18
+  family: CompilerFamily;
+  version: string; // Full version, e.g. 18.1.8
+  cCompiler: string; // Driver executables on the PATH, e.g. clang-18 and clang++-18
+  cxxCompiler: string;
+  tools: Record<LlvmTool, string>; // Companion executables of the same release, e.g. opt-18
+  target: string; // Default target triple
+  default: boolean; // Used when no compiler is selected
+}
+
+export interface CpuTime {
+  user: number;
+  system: number;
+}
+
+export interface ExecutionResult {
+  exitCode: number | null;
+  signal: string | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  wallTime: number;
+  cpuTime: CpuTime | null;
+}
+
+export interface StackFrame {
+  index: number;
+  address?: string;
+  function?: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  module?: string;
+}
+
+export interface RelatedStack {
+  description: string;
+  frames: StackFrame[];
+}
+
+export interface SanitizerReport {
+  sanitizer: SanitizerKind;
+  kind: string;
+  message: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  address?: string;
+  accessType?: 'read' | 'write';
+  accessSize?: number;
+  leakedBytes?: number;
+  description?: string;
+  stack: StackFrame[];
+  allocationStack?: StackFrame[];
+  freeStack?: StackFrame[];
+  relatedStacks?: RelatedStack[];
+}
+
+export interface CoverageSummary {
+  count: number;
+  covered: number;
+  percent: number;
+}
+
+export interface CoverageTotals {
+  lines: CoverageSummary;
+  functions: CoverageSummary;
+  regions: CoverageSummary;
+  branches: CoverageSummary;
+}
+
+export interface LineCoverage {
+  line: number;
+  count: number; // Executions of the line; only lines with code are listed
+}
+
+export interface CoverageRange {
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number; // Exclusive
+}
+
+export interface BranchCoverage extends CoverageRange {
+  trueCount: number;
+  falseCount: number;
+}
+
+export interface FileCoverage extends CoverageTotals {
+  file: string;
+  lineCounts: LineCoverage[];
+  branchCounts: BranchCoverage[];
+  uncoveredRegions: CoverageRange[];
+}
+
+export interface CoverageReport extends CoverageTotals {
+  files: FileCoverage[];
+}
+
+export interface ExecutionResponse {
+  success: boolean;
+  compilation: CompilationResponse;
+  execution?: ExecutionResult;
+  sanitizerReports?: SanitizerReport[];
+  coverage?: CoverageReport;
+  coverageError?: string; // Why there is no coverage report when llvm-profdata or llvm-cov failed
+}
+
+export interface TestFailure {
+  message: string;
+  file?: string;
+  line?: number;
+}
+
+export interface TestCaseResult {
+  name: string;
+  suite?: string; // The report's classname: GoogleTest suite, Catch2 class or doctest file
+  status: TestStatus;
+  time?: number; // Seconds
+  file?: string;
+  line?: number;
+  failures: TestFailure[];
+}
+
+export interface TestSummary {
+  total: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface TestResponse {
+  success: boolean; // Built, ran to completion and no test failed
+  compilation: CompilationResponse;
+  execution?: ExecutionResult;
+  summary?: TestSummary;
+  tests: TestCaseResult[];
+  coverage?: CoverageReport;
+  coverageError?: string;
+}
+
+export interface SectionSize {
+  name: string;
+  size: number; // Bytes
+}
+
+export interface SymbolSize {
+  name: string; // Demangled
+  size: number; // Bytes
+  type: string; // nm symbol type: T/t code, D/d data, B/b zero-initialized, R/r read-only data
+  origin?: string; // Translation unit that defines the symbol
+}
+
+export interface SizeReport {
+  files: string[]; // Analyzed program or object files
+  text: number; // Code and read-only data
+  data: number;
+  bss: number;
+  total: number;
+  sections: SectionSize[]; // Non-empty sections, excluding debug information
+  symbols: SymbolSize[]; // Largest first
+}
+
+export interface SizeDelta {
+  name: string;
+  baseline: number;
+  candidate: number;
+  delta: number;
+}
+
+export interface SizeComparison {
+  totals: SizeDelta[]; // text, data, bss and total
+  sections: SizeDelta[];
+  symbols: SizeDelta[]; // Largest changes first
+}
+
+export interface SizeResponse {
+  success: boolean;
+  compilation: CompilationResponse;
+  size?: SizeReport;
+  comparison?: {
+    compilation: CompilationResponse;
+    size?: SizeReport;
+    delta?: SizeComparison; // Candidate (compare_with) minus baseline
+  };
+  cached?: boolean;
+}
+
+export interface MacroDefinition {
+  name: string;
+  parameters?: string[]; // Only for function-like macros
+  body: string;
+  file: string; // Source file, <command line> or <built-in>
+  line: number;
+  undefined?: boolean; // An #undef in the macro history
+}
+
+export interface PreprocessResponse {
+  success: boolean;
+  output: string;
+  macros?: MacroDefinition[];
+  diagnostics: CompilationDiagnostics;
+  stderr: string;
+  preprocessTime: number;
+  cached?: boolean;
+}
+
+export type PassKind = 'module' | 'cgscc' | 'function' | 'loop-nest' | 'loop';
+
+export interface PassInfo {
+  name: string; // As used in a pipeline
+  kind: PassKind;
+  analysis: boolean; // Analyses are used as require<name> or invalidate<name>
+  parameters?: string[]; // Accepted in name<...>
+}
+
+export interface CheckerInfo {
+  name: string; // As enabled with checkers, e.g. cplusplus.NewDelete
+  description: string;
+  alpha: boolean; // Experimental; only run when selected
+}
+
+export interface PassChange {
+  pass: string; // As named by opt, e.g. InstCombinePass
+  unit: string; // Function, loop or [module] the pass ran on
+  diff?: string; // Unified diff against the IR before the pass
+  ir?: string; // The module after the pass
+}
+
+export interface OptimizeResponse {
+  success: boolean;
+  compilation?: CompilationResponse; // When the input IR was compiled from sources
+  input: string; // IR before the pipeline
+  output?: string; // IR after the pipeline
+  changes: PassChange[];
+  truncated?: boolean; // The changes exceeded the size limit; those after the last one listed are left out
+  passesRun: number; // Pass executions, including those that changed nothing
+  stderr: string;
+  optimizationTime: number;
+  cached?: boolean;
+}
+
+export interface ResourcePressure {
+  resource: string; // Scheduling model resource, e.g. SKLPort0
+  cycles: number; // Per iteration
+}
+
+export interface InstructionThroughput {
+  instruction: string;
+  uops: number;
+  latency: number; // Cycles
+  reciprocalThroughput: number; // Cycles per instruction when not limited by dependencies
+  mayLoad: boolean;
+  mayStore: boolean;
+  hasSideEffects: boolean; // Unmodeled side effects
+  resources: ResourcePressure[];
+}
+
+export interface BottleneckResource {
+  resource: string;
+  percent: number; // Of the simulated cycles
+}
+
+export interface ThroughputBottleneck {
+  backendPressure: number; // Percent of cycles in which dispatch was held back
+  resourcePressure: number;
+  resources: BottleneckResource[];
+  registerDependencies: number;
+  memoryDependencies: number;
+}
+
+export interface ThroughputRegion {
+  name: string | null; // LLVM-MCA-BEGIN name or function; null for an anonymous region
+  iterations: number;
+  instructions: number; // Simulated, over all iterations
+  totalCycles: number;
+  totalUops: number;
+  dispatchWidth: number;
+  uopsPerCycle: number;
+  ipc: number;
+  blockRThroughput: number; // Cycles per iteration when limited by resources only
+  bottleneck: ThroughputBottleneck | null; // Null when no bottleneck was discovered
+  resourcePressure: ResourcePressure[]; // Busiest resources first
+  instructionInfo: InstructionThroughput[];
+}
+
+export interface ThroughputResponse {
+  success: boolean;
+  compilation: CompilationResponse;
+  regions: ThroughputRegion[];
+  stderr: string;
+  analysisTime: number;
+  cached?: boolean;
+}
+
+export interface AnalysisPathStep {
+  file?: string;
+  line: number;
+  column: number;
+  message: string; // e.g. Assuming 'p' is null, Taking true branch
+  depth: number; // Call depth: 0 in the function reporting the bug, one more inside each call
+  ranges?: SourceRange[];
+}
+
+export interface ControlFlowEdge {
+  from: SourceRange; // Statement control leaves
+  to: SourceRange; // Statement control reaches next
 }
 
 export interface AnalysisResult {
   checker: string;
+  file?: string;
   line: number;
   column: number;
   message: string;
   severity: 'error' | 'warning' | 'note';
   category: string;
+  ranges?: SourceRange[];
+  path?: AnalysisPathStep[]; // Events on the way to the bug, in execution order
+  edges?: ControlFlowEdge[]; // Control flow between them, in execution order
+  children?: DiagnosticMessage[]; // Notes of compiler errors
+}
+
+export interface AnalysisBudget {
+  timedOut: boolean; // Translation units after the timeout were not analyzed
 }
 
 export interface StaticAnalysisResponse {
   success: boolean;
   analysisResults: AnalysisResult[];
+  budget: AnalysisBudget;
+  analysisTime: number;
+  cached?: boolean;
+}
+
+export interface TidyFinding extends DiagnosticMessage {
+  check: string; // e.g. modernize-use-nullptr; compiler diagnostics are clang-diagnostic-*
+}
+
+export interface TidyResponse {
+  success: boolean;
+  findings: TidyFinding[];
+  fixed?: FixItResult;
+  stderr: string;
   analysisTime: number;
+  cached?: boolean;
 }
 
 export interface ASTResponse {
@@ -79,6 +700,7 @@ export interface ASTResponse {
   ast: string;
   format: ASTFormat;
   generationTime: number;
+  cached?: boolean;
 }
 
 export interface ErrorResponse {
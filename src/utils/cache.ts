@@ -0,0 +1,195 @@
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import * as path from 'path';
+
+export interface ResultCacheOptions {
+  maxSize: number; // Bytes of serialized results kept in memory, and on disk; 0 disables the cache
+  ttl: number; // Seconds
+  directory?: string; // Optional on-disk store shared across restarts
+}
+
+interface CacheEntry {
+  data: string; // Serialized result, so that callers never share mutable objects
+  expires: number;
+}
+
+/**
+ * Content-addressed cache for tool results: an LRU map bounded by the size of the serialized
+ * results, optionally backed by one JSON file per entry on disk. Every write to the directory
+ * removes expired files and then the oldest ones until it fits in the same size limit.
+ */
+export class ResultCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private size = 0;
+  private pruning = false;
+
+  constructor(private readonly options: ResultCacheOptions) {}
+
+  get enabled(): boolean {
+    return this.options.maxSize > 0;
+  }
+
+  /**
+   * Hash of the given key parts; object keys are sorted and undefined values dropped, so
+   * equal inputs hash equally regardless of property order
+   */
+  static createKey(parts: unknown): string {
+    return createHash('sha256').update(this.stableStringify(parts)).digest('hex');
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    let entry = this.entries.get(key);
+    if (entry) {
+      // Move to the most recently used position
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    } else {
+      entry = await this.readFromDisk(key);
+      if (entry) this.remember(key, entry);
+    }
+
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expires <= Date.now()) {
+      await this.delete(key);
+      return undefined;
+    }
+
+    return JSON.parse(entry.data) as T;
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    const entry: CacheEntry = {
+      data: JSON.stringify(value),
+      expires: Date.now() + this.options.ttl * 1000,
+    };
+    if (entry.data.length > this.options.maxSize) {
+      return;
+    }
+
+    this.remember(key, entry);
+    await this.writeToDisk(key, entry);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.forget(key);
+    if (this.options.directory) {
+      await fs.rm(this.getFilePath(this.options.directory, key), { force: true }).catch(() => {});
+    }
+  }
+
+  private remember(key: string, entry: CacheEntry): void {
+    this.forget(key);
+    this.entries.set(key, entry);
+    this.size += entry.data.length;
+
+    // Evict least recently used entries
+    for (const [oldestKey] of this.entries) {
+      if (this.size <= this.options.maxSize) break;
+      this.forget(oldestKey);
+    }
+  }
+
+  private forget(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.size -= entry.data.length;
+      this.entries.delete(key);
+    }
+  }
+
+  private getFilePath(directory: string, key: string): string {
+    return path.join(directory, `${key}.json`);
+  }
+
+  private async readFromDisk(key: string): Promise<CacheEntry | undefined> {
+    if (!this.options.directory) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(await fs.readFile(this.getFilePath(this.options.directory, key), 'utf8')) as CacheEntry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async writeToDisk(key: string, entry: CacheEntry): Promise<void> {
+    const { directory } = this.options;
+    if (!directory) {
+      return;
+    }
+
+    try {
+      // Write then rename so that concurrent readers never see a partial entry
+      await fs.mkdir(directory, { recursive: true });
+      const filePath = this.getFilePath(directory, key);
+      const temporaryPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(temporaryPath, JSON.stringify(entry));
+      await fs.rename(temporaryPath, filePath);
+    } catch {
+      // The disk store is best-effort; the entry is still kept in memory
+    }
+    await this.pruneDisk(directory);
+  }
+
+  /**
+   * Bound the directory by the TTL and size limit. Files are aged by their modification time,
+   * which is when the entry was written; writes racing with a running pass are left to the next.
+   */
+  private async pruneDisk(directory: string): Promise<void> {
+    if (this.pruning) {
+      return;
+    }
+
+    this.pruning = true;
+    try {
+      const names = (await fs.readdir(directory)).filter((name) => name.endsWith('.json'));
+      const files: Array<{ filePath: string; size: number; written: number }> = [];
+      for (const name of names) {
+        const filePath = path.join(directory, name);
+        const stats = await fs.stat(filePath).catch(() => undefined);
+        if (stats) files.push({ filePath, size: stats.size, written: stats.mtimeMs });
+      }
+
+      const now = Date.now();
+      let size = files.reduce((total, file) => total + file.size, 0);
+      for (const file of files.sort((a, b) => a.written - b.written)) {
+        if (file.written + this.options.ttl * 1000 > now && size <= this.options.maxSize) break;
+        await fs.rm(file.filePath, { force: true }).catch(() => {});
+        size -= file.size;
+      }
+    } catch {
+      // Another process may have removed the directory or its files
+    } finally {
+      this.pruning = false;
+    }
+  }
+
+  private static stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => this.stableStringify(item ?? null)).join(',')}]`;
+    }
+    if (value !== null && typeof value === 'object') {
+      const entries = Object.entries(value as Record<string, unknown>)
+        .filter(([, item]) => item !== undefined)
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+      return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${this.stableStringify(item)}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+  }
+}
+
+const parseNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = value !== undefined ? Number(value) : NaN;
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+// Global result cache, configured through the environment
+export const resultCache = new ResultCache({
+  maxSize: parseNumber(process.env.MCP_CACHE_MAX_SIZE_MB, 64) * 1024 * 1024,
+  ttl: parseNumber(process.env.MCP_CACHE_TTL, 3600),
+  directory: process.env.MCP_CACHE_DIR || undefined,
+});
\ No newline at end of file
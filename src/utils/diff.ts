@@ -0,0 +1,121 @@
+interface DiffLine {
+  type: ' ' | '-' | '+';
+  text: string; // Including the line terminator, if any
+}
+
+/**
+ * Line-based unified diffs (Myers' O(ND) algorithm) in the format produced by `diff -u`
+ */
+export class UnifiedDiff {
+  static create(fileName: string, oldText: string, newText: string, context: number = 3): string {
+    const lines = this.diffLines(this.splitLines(oldText), this.splitLines(newText));
+    if (lines.every((line) => line.type === ' ')) {
+      return '';
+    }
+
+    const output = [`--- a/${fileName}`, `+++ b/${fileName}`];
+    let index = 0;
+    while (index < lines.length) {
+      if (lines[index].type === ' ') {
+        index++;
+        continue;
+      }
+
+      // Extend the hunk while unchanged runs fit into two context windows
+      let lastChange = index;
+      for (let next = index; next < lines.length && next - lastChange <= 2 * context + 1; next++) {
+        if (lines[next].type !== ' ') lastChange = next;
+      }
+
+      const start = Math.max(0, index - context);
+      const end = Math.min(lines.length, lastChange + context + 1);
+      output.push(...this.formatHunk(lines, start, end));
+      index = end;
+    }
+
+    return `${output.join('\n')}\n`;
+  }
+
+  private static formatHunk(lines: DiffLine[], start: number, end: number): string[] {
+    const before = lines.slice(0, start);
+    const hunk = lines.slice(start, end);
+    const oldStart = before.filter((line) => line.type !== '+').length + 1;
+    const newStart = before.filter((line) => line.type !== '-').length + 1;
+    const oldCount = hunk.filter((line) => line.type !== '+').length;
+    const newCount = hunk.filter((line) => line.type !== '-').length;
+
+    const output = [`@@ -${this.formatRange(oldStart, oldCount)} +${this.formatRange(newStart, newCount)} @@`];
+    for (const line of hunk) {
+      if (line.text.endsWith('\n')) {
+        output.push(line.type + line.text.slice(0, -1));
+      } else {
+        output.push(line.type + line.text, '\\ No newline at end of file');
+      }
+    }
+    return output;
+  }
+
+  private static formatRange(start: number, count: number): string {
+    // An empty range refers to the line before it
+    if (count === 0) return `${start - 1},0`;
+    return count === 1 ? `${start}` : `${start},${count}`;
+  }
+
+  private static splitLines(text: string): string[] {
+    return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+  }
+
+  private static diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+    const max = oldLines.length + newLines.length;
+    const offset = max + 1;
+    const frontier = new Array<number>(2 * max + 3).fill(0);
+    const trace: number[][] = [];
+
+    // Forward pass: furthest reaching path for each diagonal k and edit distance d
+    search: for (let d = 0; d <= max; d++) {
+      trace.push([...frontier]);
+      for (let k = -d; k <= d; k += 2) {
+        let x = k === -d || (k !== d && frontier[offset + k - 1] < frontier[offset + k + 1])
+          ? frontier[offset + k + 1]
+          : frontier[offset + k - 1] + 1;
+        let y = x - k;
+        while (x < oldLines.length && y < newLines.length && oldLines[x] === newLines[y]) {
+          x++;
+          y++;
+        }
+        frontier[offset + k] = x;
+        if (x >= oldLines.length && y >= newLines.length) break search;
+      }
+    }
+
+    // Backtrack through the recorded frontiers to recover the edit script
+    const result: DiffLine[] = [];
+    let x = oldLines.length;
+    let y = newLines.length;
+    for (let d = trace.length - 1; d >= 0; d--) {
+      const previous = trace[d];
+      const k = x - y;
+      const previousK = k === -d || (k !== d && previous[offset + k - 1] < previous[offset + k + 1])
+        ? k + 1
+        : k - 1;
+      const previousX = previous[offset + previousK];
+      const previousY = previousX - previousK;
+
+      while (x > previousX && y > previousY) {
+        result.push({ type: ' ', text: oldLines[--x] });
+        y--;
+      }
+      if (d > 0) {
+        if (x === previousX) {
+          result.push({ type: '+', text: newLines[--y] });
+        } else {
+          result.push({ type: '-', text: oldLines[--x] });
+        }
+      }
+      x = previousX;
+      y = previousY;
+    }
+
+    return result.reverse();
+  }
+}
\ No newline at end of file
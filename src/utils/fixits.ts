@@ -0,0 +1,103 @@
+import type { DiagnosticMessage, FixIt, SourceFiles, SourceLocation } from '../types/index.js';
+
+export interface FixItApplication {
+  files: SourceFiles;
+  applied: number;
+  skipped: number;
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+/**
+ * Applies Clang fix-it hints to a source tree like `clang -fixit`: only hints attached to
+ * errors and warnings are used (hints on notes are alternatives), a hint reported by several
+ * translation units is applied once, and hints overlapping an earlier edit are skipped.
+ */
+export class FixItApplier {
+  static apply(sources: SourceFiles, diagnostics: DiagnosticMessage[]): FixItApplication {
+    const fixItsByFile = new Map<string, FixIt[]>();
+    let skipped = 0;
+
+    for (const diagnostic of diagnostics) {
+      if (diagnostic.severity === 'note') continue;
+
+      for (const fixIt of diagnostic.fixIts || []) {
+        const file = fixIt.range.start.file;
+        if (!file || file !== fixIt.range.end.file || !Object.prototype.hasOwnProperty.call(sources, file)) {
+          skipped++;
+          continue;
+        }
+        fixItsByFile.set(file, [...(fixItsByFile.get(file) || []), fixIt]);
+      }
+    }
+
+    const files: SourceFiles = {};
+    let applied = 0;
+    for (const [file, fixIts] of fixItsByFile) {
+      // Columns count bytes, so edit the UTF-8 encoding rather than the JS string
+      const content = Buffer.from(sources[file], 'utf8');
+      const lineStarts = this.getLineStarts(content);
+
+      const edits: Edit[] = [];
+      for (const fixIt of fixIts) {
+        const start = this.toOffset(fixIt.range.start, lineStarts, content.length);
+        const end = this.toOffset(fixIt.range.end, lineStarts, content.length);
+        if (start === null || end === null || end < start) {
+          skipped++;
+          continue;
+        }
+
+        const duplicate = edits.some((edit) =>
+          edit.start === start && edit.end === end && edit.replacement === fixIt.replacement
+        );
+        if (!duplicate) {
+          edits.push({ start, end, replacement: fixIt.replacement });
+        }
+      }
+      edits.sort((a, b) => a.start - b.start || a.end - b.end);
+
+      const parts: Buffer[] = [];
+      let cursor = 0;
+      for (const edit of edits) {
+        if (edit.start < cursor) {
+          skipped++;
+          continue;
+        }
+
+        parts.push(content.subarray(cursor, edit.start), Buffer.from(edit.replacement, 'utf8'));
+        cursor = edit.end;
+        applied++;
+      }
+      parts.push(content.subarray(cursor));
+
+      const patched = Buffer.concat(parts).toString('utf8');
+      if (patched !== sources[file]) {
+        files[file] = patched;
+      }
+    }
+
+    return { files, applied, skipped };
+  }
+
+  private static getLineStarts(content: Buffer): number[] {
+    const lineStarts = [0];
+    for (let index = 0; index < content.length; index++) {
+      if (content[index] === 0x0a) lineStarts.push(index + 1);
+    }
+    return lineStarts;
+  }
+
+  private static toOffset(location: SourceLocation, lineStarts: number[], length: number): number | null {
+    // Lines and columns are 1-based; the column may point just past the end of the line
+    if (location.line < 1 || location.line > lineStarts.length || location.column < 1) {
+      return null;
+    }
+
+    const offset = lineStarts[location.line - 1] + location.column - 1;
+    return offset <= length ? offset : null;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,155 @@
+import { execFile } from 'child_process';
+import { promises as fs, constants as fsConstants } from 'fs';
+import * as path from 'path';
+import { logger } from './logger.js';
+import type { CompilerFamily, LlvmTool, Toolchain } from '../types/index.js';
+
+// Versioned driver names probed on the PATH, newest first, after the unversioned default
+const CLANG_VERSIONS = Array.from({ length: 13 }, (_, index) => 22 - index); // 22..10
+const GCC_VERSIONS = Array.from({ length: 7 }, (_, index) => 15 - index); // 15..9
+
+const LLVM_TOOLS: LlvmTool[] = [
+  'opt', 'llvm-mca', 'llvm-size', 'llvm-nm', 'llvm-cxxfilt', 'llvm-objdump', 'llvm-profdata', 'llvm-cov', 'clang-tidy',
+];
+
+const UNVERSIONED_TOOLS = Object.fromEntries(LLVM_TOOLS.map((tool) => [tool, tool])) as Record<LlvmTool, string>;
+
+// Used until discovery has run, or when nothing was found: whatever `clang` is on the PATH
+const FALLBACK_TOOLCHAIN: Toolchain = {
+  id: 'clang',
+  family: 'clang',
+  version: 'unknown',
+  cCompiler: 'clang',
+  cxxCompiler: 'clang++',
+  tools: UNVERSIONED_TOOLS,
+  target: 'unknown',
+  default: true,
+};
+
+/**
+ * Compilers installed on the PATH, discovered once at startup. A toolchain is selected by
+ * its id (`clang-18`, `gcc-13`) or by its family (`clang`, `gcc`) for that family's default.
+ */
+export class ToolchainRegistry {
+  private toolchains: Toolchain[] = [];
+
+  async discover(): Promise<Toolchain[]> {
+    const candidates: Array<[CompilerFamily, string]> = [
+      ['clang', 'clang'],
+      ...CLANG_VERSIONS.map((version): [CompilerFamily, string] => ['clang', `clang-${version}`]),
+      ['gcc', 'gcc'],
+      ...GCC_VERSIONS.map((version): [CompilerFamily, string] => ['gcc', `gcc-${version}`]),
+    ];
+
+    const found: Toolchain[] = [];
+    for (const [family, name] of candidates) {
+      const toolchain = await this.probe(family, name);
+      // `clang` is usually a link to one of the versioned drivers; keep the first of each id
+      if (toolchain && !found.some((existing) => existing.id === toolchain.id)) {
+        found.push(toolchain);
+      }
+    }
+
+    const defaultToolchain = found.find((toolchain) => toolchain.family === 'clang') || found[0];
+    if (defaultToolchain) {
+      defaultToolchain.default = true;
+    }
+
+    this.toolchains = found;
+    logger.info('Discovered toolchains', { toolchains: found.map((toolchain) => toolchain.id) });
+    return found;
+  }
+
+  list(): Toolchain[] {
+    return this.toolchains.length > 0 ? [...this.toolchains] : [FALLBACK_TOOLCHAIN];
+  }
+
+  /**
+   * Resolve a compiler selection; no selection means the default toolchain
+   */
+  find(compiler?: string): Toolchain | undefined {
+    const toolchains = this.list();
+    if (!compiler) {
+      return toolchains.find((toolchain) => toolchain.default);
+    }
+
+    // A family selects the unversioned driver if installed, otherwise the newest version
+    return toolchains.find((toolchain) => toolchain.id === compiler)
+      || toolchains.find((toolchain) => toolchain.family === compiler);
+  }
+
+  private async probe(family: CompilerFamily, name: string): Promise<Toolchain | null> {
+    // The C++ driver follows the naming of the C driver: clang-18/clang++-18, gcc-13/g++-13
+    const cxxName = family === 'clang' ? name.replace(/^clang/, 'clang++') : name.replace(/^gcc/, 'g++');
+    const [cCompiler, cxxCompiler] = await Promise.all([this.findExecutable(name), this.findExecutable(cxxName)]);
+    if (!cCompiler || !cxxCompiler) {
+      return null;
+    }
+
+    const versionOutput = await this.run(name, ['--version']);
+    // Some systems install clang under the name gcc
+    if (versionOutput === null || /clang version/.test(versionOutput) !== (family === 'clang')) {
+      return null;
+    }
+
+    const version = family === 'clang'
+      ? versionOutput.match(/clang version (\d+\.\d+\.\d+)/)?.[1]
+      : (await this.run(name, ['-dumpfullversion']))?.trim();
+    if (!version) {
+      return null;
+    }
+
+    // GCC output is inspected with the unversioned LLVM tools, which read any object file
+    const major = version.split('.')[0];
+    return {
+      id: `${family}-${major}`,
+      family,
+      version,
+      cCompiler: name,
+      cxxCompiler: cxxName,
+      tools: family === 'clang' ? await this.findTools(major, name === 'clang') : UNVERSIONED_TOOLS,
+      target: (await this.run(name, ['-dumpmachine']))?.trim() || 'unknown',
+      default: false,
+    };
+  }
+
+  /**
+   * LLVM tools of a Clang release, installed next to its driver as `opt-18`. The unversioned
+   * names belong to the unversioned driver; a missing tool keeps its versioned name, so running
+   * it reports what is not installed instead of using another release.
+   */
+  private async findTools(major: string, unversionedDriver: boolean): Promise<Record<LlvmTool, string>> {
+    const tools = await Promise.all(LLVM_TOOLS.map(async (tool): Promise<[LlvmTool, string]> => {
+      const versioned = `${tool}-${major}`;
+      if (await this.findExecutable(versioned)) {
+        return [tool, versioned];
+      }
+      return [tool, unversionedDriver && (await this.findExecutable(tool)) ? tool : versioned];
+    }));
+    return Object.fromEntries(tools) as Record<LlvmTool, string>;
+  }
+
+  private async findExecutable(name: string): Promise<string | null> {
+    for (const directory of (process.env.PATH || '').split(path.delimiter).filter(Boolean)) {
+      const candidate = path.join(directory, name);
+      try {
+        await fs.access(candidate, fsConstants.X_OK);
+        return candidate;
+      } catch {
+        // Not in this directory
+      }
+    }
+    return null;
+  }
+
+  private run(executable: string, args: string[]): Promise<string | null> {
+    return new Promise((resolve) => {
+      execFile(executable, args, { timeout: 10000 }, (error, stdout) => {
+        resolve(error ? null : stdout);
+      });
+    });
+  }
+}
+
+// Global toolchain registry, populated when the server starts
+export const toolchains = new ToolchainRegistry();
\ No newline at end of file
@@ -0,0 +1,164 @@
+import { AnalyzerPlistParser } from '../../../src/parsers/AnalyzerPlistParser';
+
+// clang --analyze -analyzer-output=plist-multi-file for a null dereference reached through a call:
+//   int get(int *p) { return *p; }          (util.h, line 1)
+//   int f(int *p) { if (!p) { return get(p); } return 0; }
+const plist = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple Computer//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+ <key>clang_version</key>
+<string>clang version 18.1.8</string>
+ <key>diagnostics</key>
+ <array>
+  <dict>
+   <key>path</key>
+   <array>
+    <dict>
+     <key>kind</key><string>event</string>
+     <key>location</key>
+     <dict>
+      <key>line</key><integer>4</integer>
+      <key>col</key><integer>7</integer>
+      <key>file</key><integer>0</integer>
+     </dict>
+     <key>ranges</key>
+     <array>
+       <array>
+        <dict>
+         <key>line</key><integer>4</integer>
+         <key>col</key><integer>7</integer>
+         <key>file</key><integer>0</integer>
+        </dict>
+        <dict>
+         <key>line</key><integer>4</integer>
+         <key>col</key><integer>8</integer>
+         <key>file</key><integer>0</integer>
+        </dict>
+       </array>
+     </array>
+     <key>depth</key><integer>0</integer>
+     <key>extended_message</key>
+     <string>Assuming &apos;p&apos; is null</string>
+     <key>message</key>
+     <string>Assuming &apos;p&apos; is null</string>
+    </dict>
+    <dict>
+     <key>kind</key><string>control</string>
+     <key>edges</key>
+      <array>
+       <dict>
+        <key>start</key>
+         <array>
+          <dict>
+           <key>line</key><integer>4</integer>
+           <key>col</key><integer>3</integer>
+           <key>file</key><integer>0</integer>
+          </dict>
+          <dict>
+           <key>line</key><integer>4</integer>
+           <key>col</key><integer>4</integer>
+           <key>file</key><integer>0</integer>
+          </dict>
+         </array>
+        <key>end</key>
+         <array>
+          <dict>
+           <key>line</key><integer>5</integer>
+           <key>col</key><integer>12</integer>
+           <key>file</key><integer>0</integer>
+          </dict>
+          <dict>
+           <key>line</key><integer>5</integer>
+           <key>col</key><integer>14</integer>
+           <key>file</key><integer>0</integer>
+          </dict>
+         </array>
+       </dict>
+      </array>
+    </dict>
+    <dict>
+     <key>kind</key><string>event</string>
+     <key>location</key>
+     <dict>
+      <key>line</key><integer>1</integer>
+      <key>col</key><integer>26</integer>
+      <key>file</key><integer>1</integer>
+     </dict>
+     <key>depth</key><integer>1</integer>
+     <key>extended_message</key>
+     <string>Dereference of null pointer (loaded from variable &apos;p&apos;)</string>
+     <key>message</key>
+     <string>Dereference of null pointer (loaded from variable &apos;p&apos;)</string>
+    </dict>
+   </array>
+   <key>description</key><string>Dereference of null pointer (loaded from variable &apos;p&apos;)</string>
+   <key>category</key><string>Logic error</string>
+   <key>type</key><string>Dereference of null pointer</string>
+   <key>check_name</key><string>core.NullDereference</string>
+   <key>issue_hash_content_of_line_in_context</key><string>4d6e4f0cb2a8ab7f6c4a1a5f7b0c0b8e</string>
+   <key>issue_context_kind</key><string>function</string>
+   <key>issue_context</key><string>get</string>
+   <key>issue_hash_function_offset</key><string>0</string>
+   <key>location</key>
+   <dict>
+    <key>line</key><integer>1</integer>
+    <key>col</key><integer>26</integer>
+    <key>file</key><integer>1</integer>
+   </dict>
+   <key>ExecutedLines</key>
+   <dict>
+    <key>0</key>
+    <array>
+     <integer>3</integer>
+     <integer>4</integer>
+    </array>
+   </dict>
+  </dict>
+ </array>
+ <key>files</key>
+ <array>
+  <string>source.cpp</string>
+  <string>./include/util.h</string>
+ </array>
+</dict>
+</plist>
+`;
+
+describe('AnalyzerPlistParser', () => {
+  it('should read each report with its checker, message and location', () => {
+    const [report] = AnalyzerPlistParser.parse(plist);
+
+    expect(report.checker).toBe('core.NullDereference');
+    expect(report.category).toBe('Logic error');
+    expect(report.message).toBe("Dereference of null pointer (loaded from variable 'p')");
+    expect(report.location).toEqual({ file: 'include/util.h', line: 1, column: 26 });
+  });
+
+  it('should list path events in order with their call depth', () => {
+    const [report] = AnalyzerPlistParser.parse(plist);
+
+    expect(report.path.map((step) => [step.file, step.line, step.depth, step.message])).toEqual([
+      ['source.cpp', 4, 0, "Assuming 'p' is null"],
+      ['include/util.h', 1, 1, "Dereference of null pointer (loaded from variable 'p')"],
+    ]);
+    expect(report.path[0].ranges).toEqual([{
+      start: { file: 'source.cpp', line: 4, column: 7 },
+      end: { file: 'source.cpp', line: 4, column: 9 },
+    }]);
+  });
+
+  it('should read control flow edges with exclusive range ends', () => {
+    const [report] = AnalyzerPlistParser.parse(plist);
+
+    expect(report.edges).toEqual([{
+      from: { start: { file: 'source.cpp', line: 4, column: 3 }, end: { file: 'source.cpp', line: 4, column: 5 } },
+      to: { start: { file: 'source.cpp', line: 5, column: 12 }, end: { file: 'source.cpp', line: 5, column: 15 } },
+    }]);
+  });
+
+  it('should return no reports for a file without diagnostics', () => {
+    expect(AnalyzerPlistParser.parse('')).toEqual([]);
+    expect(AnalyzerPlistParser.parse('<plist version="1.0"><dict><key>diagnostics</key><array/><key>files</key><array/></dict></plist>')).toEqual([]);
+  });
+});
\ No newline at end of file
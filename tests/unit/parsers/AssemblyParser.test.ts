@@ -0,0 +1,67 @@
+import { AssemblyParser } from '../../../src/parsers/AssemblyParser';
+
+const sampleAssembly = `	.text
+	.file	"source.cpp"
+	.globl	_Z3sumi                         # -- Begin function _Z3sumi
+	.p2align	4, 0x90
+	.type	_Z3sumi,@function
+_Z3sumi:                                # @_Z3sumi
+.Lfunc_begin0:
+	.file	0 "." "source.cpp" md5 0x0123456789abcdef0123456789abcdef
+	.loc	0 1 0                           # source.cpp:1:0
+# %bb.0:
+	xorl	%eax, %eax
+.Ltmp0:
+	.loc	0 3 3 prologue_end              # source.cpp:3:3
+	testl	%edi, %edi
+	jle	.LBB0_2
+.LBB0_1:                                # =>This Inner Loop Header: Depth=1
+	.loc	0 4 9                           # source.cpp:4:9
+	addl	%edi, %eax
+	decl	%edi
+	jne	.LBB0_1
+.LBB0_2:
+	.loc	0 6 3                           # source.cpp:6:3
+	retq
+.Lfunc_end0:
+	.size	_Z3sumi, .Lfunc_end0-_Z3sumi
+	.section	.debug_abbrev,"",@progbits
+	.byte	1                               # Abbreviation Code
+.Ldebug_addr_start0:
+	.long	.Lfunc_begin0
+`;
+
+describe('AssemblyParser', () => {
+  describe('parse', () => {
+    it('should group instructions by source line', () => {
+      const blocks = AssemblyParser.parse(sampleAssembly);
+
+      expect(blocks.map((block) => block.startLine)).toEqual([1, 3, 4, 6]);
+      expect(blocks[1]).toMatchObject({
+        file: 'source.cpp',
+        function: '_Z3sumi',
+        instructions: ['testl %edi, %edi', 'jle .LBB0_2'],
+      });
+    });
+
+    it('should keep referenced labels and drop directives and comments', () => {
+      const listing = AssemblyParser.toListing(AssemblyParser.parse(sampleAssembly));
+
+      expect(listing).toContain('.LBB0_1:');
+      expect(listing).toContain('.LBB0_2:');
+      expect(listing).not.toContain('.Ltmp0');
+      expect(listing).not.toContain('.p2align');
+      expect(listing).not.toContain('#');
+      expect(listing).not.toContain('.byte');
+    });
+  });
+
+  describe('filterByLines', () => {
+    it('should return only blocks for the requested lines', () => {
+      const blocks = AssemblyParser.filterByLines(AssemblyParser.parse(sampleAssembly), { start: 4, end: 4 });
+
+      expect(blocks).toHaveLength(1);
+      expect(blocks[0].instructions).toEqual(['.LBB0_1:', 'addl %edi, %eax', 'decl %edi', 'jne .LBB0_1']);
+    });
+  });
+});
\ No newline at end of file
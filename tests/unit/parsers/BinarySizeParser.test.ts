@@ -0,0 +1,73 @@
+import { BinarySizeParser } from '../../../src/parsers/BinarySizeParser';
+
+const berkeley = `   text\t   data\t    bss\t    dec\t    hex\tfilename
+    390\t      8\t   1024\t   1422\t    58e\tsrc/main.cpp.o
+     72\t      0\t     64\t    136\t     88\tsrc/util.cpp.o
+`;
+
+const sysv = `src/main.cpp.o  :
+section             size   addr
+.text                116      0
+.bss                1024      0
+.rodata.str1.1        19      0
+.debug_info         2001      0
+Total               3160
+
+
+src/util.cpp.o  :
+section             size   addr
+.text                 24      0
+.bss                  64      0
+Total                 88
+
+
+`;
+
+const symbols = `
+src/main.cpp.o:
+0000000000000000 0000000000000008 D msg
+0000000000000000 0000000000000074 T app::compute(int)
+0000000000000000 0000000000000400 b table
+
+src/util.cpp.o:
+0000000000000000 0000000000000018 T helper(std::map<int, int, std::less<int>>&)
+`;
+
+describe('BinarySizeParser', () => {
+  it('should parse text, data and bss per file', () => {
+    expect(BinarySizeParser.parseBerkeley(berkeley)).toEqual([
+      { file: 'src/main.cpp.o', text: 390, data: 8, bss: 1024 },
+      { file: 'src/util.cpp.o', text: 72, data: 0, bss: 64 },
+    ]);
+  });
+
+  it('should parse the sections of each file without the total', () => {
+    const sections = BinarySizeParser.parseSections(sysv);
+
+    expect([...sections.keys()]).toEqual(['src/main.cpp.o', 'src/util.cpp.o']);
+    expect(sections.get('src/main.cpp.o')).toEqual([
+      { name: '.text', size: 116 },
+      { name: '.bss', size: 1024 },
+      { name: '.rodata.str1.1', size: 19 },
+      { name: '.debug_info', size: 2001 },
+    ]);
+    expect(sections.get('src/util.cpp.o')).toHaveLength(2);
+  });
+
+  it('should attribute symbols to the file header preceding them', () => {
+    const parsed = BinarySizeParser.parseSymbols(symbols);
+
+    expect(parsed).toEqual([
+      { file: 'src/main.cpp.o', name: 'msg', size: 8, type: 'D' },
+      { file: 'src/main.cpp.o', name: 'app::compute(int)', size: 116, type: 'T' },
+      { file: 'src/main.cpp.o', name: 'table', size: 1024, type: 'b' },
+      { file: 'src/util.cpp.o', name: 'helper(std::map<int, int, std::less<int>>&)', size: 24, type: 'T' },
+    ]);
+  });
+
+  it('should use the default file when a single input has no header', () => {
+    const parsed = BinarySizeParser.parseSymbols('00001050 00000097 T main\n', 'main');
+
+    expect(parsed).toEqual([{ file: 'main', name: 'main', size: 151, type: 'T' }]);
+  });
+});
\ No newline at end of file
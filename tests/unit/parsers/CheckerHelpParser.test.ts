@@ -0,0 +1,58 @@
+import { CheckerHelpParser } from '../../../src/parsers/CheckerHelpParser';
+
+// clang -cc1 -analyzer-checker-help, shortened
+const help = `OVERVIEW: Clang Static Analyzer Checkers List
+
+USAGE: -analyzer-checker <CHECKER or PACKAGE,...>
+
+CHECKERS:
+  core.DivideZero                 Check for division by zero
+  core.NullDereference            Check for dereferences of null pointers
+  cplusplus.NewDelete             Check for double-free and use-after-free problems. Traces memory managed by
+                                  new/delete.
+  optin.performance.GCDAntipattern
+                                  Check for performance anti-patterns when using Grand Central Dispatch
+  optin.performance.Padding       Check for excessively padded structs.
+`;
+
+// clang -cc1 -analyzer-checker-help-alpha, shortened
+const alphaHelp = `OVERVIEW: Clang Static Analyzer Checkers List
+
+USAGE: -analyzer-checker <CHECKER or PACKAGE,...>
+
+CHECKERS:
+  alpha.cplusplus.MismatchedIterator
+                                  Check iterators used in place of a container are of the same container
+`;
+
+describe('CheckerHelpParser', () => {
+  it('should list checkers with their descriptions', () => {
+    const checkers = CheckerHelpParser.parse(help);
+
+    expect(checkers.map((checker) => checker.name)).toEqual([
+      'core.DivideZero',
+      'core.NullDereference',
+      'cplusplus.NewDelete',
+      'optin.performance.GCDAntipattern',
+      'optin.performance.Padding',
+    ]);
+    expect(checkers[0]).toEqual({ name: 'core.DivideZero', description: 'Check for division by zero', alpha: false });
+  });
+
+  it('should join descriptions that wrap or start below a long name', () => {
+    const checkers = CheckerHelpParser.parse(help);
+
+    expect(checkers[2].description).toBe(
+      'Check for double-free and use-after-free problems. Traces memory managed by new/delete.'
+    );
+    expect(checkers[3].description).toBe('Check for performance anti-patterns when using Grand Central Dispatch');
+  });
+
+  it('should mark alpha checkers', () => {
+    expect(CheckerHelpParser.parse(alphaHelp)).toEqual([{
+      name: 'alpha.cplusplus.MismatchedIterator',
+      description: 'Check iterators used in place of a container are of the same container',
+      alpha: true,
+    }]);
+  });
+});
\ No newline at end of file
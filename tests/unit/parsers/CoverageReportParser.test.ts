@@ -0,0 +1,105 @@
+import { CoverageReportParser } from '../../../src/parsers/CoverageReportParser';
+
+// int classify(int x) {         // 1
+//   if (x > 0 && x < 10)        // 2
+//     return 1;                 // 3
+//   return x < 0 ? -1 : 0;      // 4
+// }                             // 5
+// int main() {                  // 6
+//   return classify(3) - 1;     // 7
+// }                             // 8
+// #if 0                         // 9
+// int unused;                   // 10
+// #endif                        // 11
+const exported = JSON.stringify({
+  type: 'llvm.coverage.json.export',
+  version: '2.0.1',
+  data: [{
+    files: [
+      {
+        filename: '/tmp/work/source.cpp',
+        segments: [
+          [1, 21, 1, true, true, false],
+          [2, 7, 1, true, true, false],
+          [2, 16, 1, true, true, false],
+          [2, 22, 1, true, false, false],
+          [2, 23, 1, true, false, true],
+          [3, 5, 1, true, true, false],
+          [3, 14, 0, true, false, true],
+          [4, 3, 0, true, true, false],
+          [4, 10, 0, true, true, false],
+          [4, 18, 0, true, true, false],
+          [4, 20, 0, true, false, false],
+          [4, 23, 0, true, true, false],
+          [4, 24, 0, true, false, false],
+          [5, 2, 0, false, false, false],
+          [6, 12, 1, true, true, false],
+          [8, 2, 0, false, false, false],
+          [9, 1, 0, false, true, false],
+          [11, 7, 0, false, false, false],
+        ],
+        branches: [
+          [2, 7, 2, 12, 1, 0, 0, 0, 4],
+          [2, 16, 2, 22, 1, 0, 0, 0, 4],
+          [4, 10, 4, 15, 0, 0, 0, 0, 4],
+        ],
+        expansions: [],
+        summary: {
+          lines: { count: 8, covered: 6, percent: 75 },
+          functions: { count: 2, covered: 2, percent: 100 },
+          instantiations: { count: 2, covered: 2, percent: 100 },
+          regions: { count: 12, covered: 7, notcovered: 5, percent: 58.333333333333336 },
+          branches: { count: 6, covered: 3, notcovered: 3, percent: 50 },
+        },
+      },
+      {
+        filename: '/usr/include/c++/v1/vector',
+        segments: [],
+        summary: {
+          lines: { count: 4, covered: 0, percent: 0 },
+          functions: { count: 1, covered: 0, percent: 0 },
+          regions: { count: 1, covered: 0, notcovered: 1, percent: 0 },
+        },
+      },
+    ],
+    totals: {},
+  }],
+});
+
+describe('CoverageReportParser', () => {
+  it('should derive line execution counts from the segments', () => {
+    const [file] = CoverageReportParser.parse(exported);
+
+    expect(file.file).toBe('/tmp/work/source.cpp');
+    expect(file.lineCounts).toEqual([
+      { line: 1, count: 1 },
+      { line: 2, count: 1 },
+      { line: 3, count: 1 },
+      { line: 4, count: 0 },
+      { line: 5, count: 0 },
+      { line: 6, count: 1 },
+      { line: 7, count: 1 },
+      { line: 8, count: 1 },
+    ]);
+  });
+
+  it('should report branch counts, uncovered regions and summaries', () => {
+    const [file] = CoverageReportParser.parse(exported);
+
+    expect(file.branchCounts[0]).toEqual({ line: 2, column: 7, endLine: 2, endColumn: 12, trueCount: 1, falseCount: 0 });
+    expect(file.uncoveredRegions).toEqual([{ line: 4, column: 3, endLine: 5, endColumn: 2 }]);
+    expect(file.regions).toEqual({ count: 12, covered: 7, percent: 58.33 });
+    expect(file.branches.percent).toBe(50);
+  });
+
+  it('should default missing summaries and combine totals', () => {
+    const files = CoverageReportParser.parse(exported);
+
+    expect(files[1].branches).toEqual({ count: 0, covered: 0, percent: 0 });
+    expect(CoverageReportParser.totals(files).lines).toEqual({ count: 12, covered: 6, percent: 50 });
+  });
+
+  it('should reject other JSON documents', () => {
+    expect(() => CoverageReportParser.parse('{"data": []}')).toThrow('Not an llvm-cov export');
+  });
+});
\ No newline at end of file
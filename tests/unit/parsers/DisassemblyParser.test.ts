@@ -0,0 +1,74 @@
+import { DisassemblyParser } from '../../../src/parsers/DisassemblyParser';
+
+// llvm-objdump -d -r --demangle -l -S of an object built with -g, work directory sanitized to "."
+const interleaved = `Disassembly of section .text:
+
+0000000000000000 <n::square(int)>:
+; ./source.cpp:4
+;   return x * x;
+       0: 0f af ff                     \timull\t%edi, %edi
+; ./source.cpp:5
+; }
+       3: 89 f8                        \tmovl\t%edi, %eax
+       5: c3                           \tretq
+
+Disassembly of section .text.startup:
+
+0000000000000000 <main>:
+; /usr/include/x86_64-linux-gnu/bits/stdio2.h:112
+;   return __printf_chk (__USE_FORTIFY_LEVEL - 1, __fmt, __va_arg_pack ());
+       0: 4c 8d 25 00 00 00 00         \tleaq\t(%rip), %r12            # 0x7 <main+0x7>
+\t\t0000000000000003:  R_X86_64_PC32\t.LC0-0x4
+       7: e8 00 00 00 00               \tcallq\t0xc <main+0xc>
+\t\t0000000000000008:  R_X86_64_PLT32\t__printf_chk-0x4
+       c: 0f 1f 40 00                  \tnopl\t(%rax)
+`;
+
+// AArch64 encodings are printed as little-endian bytes as well
+const aarch64 = `Disassembly of section .text:
+
+0000000000000000 <add>:
+       0: 00 00 01 0b  \tadd\tw0, w0, w1
+       4: c0 03 5f d6  \tret
+`;
+
+describe('DisassemblyParser', () => {
+  it('should group instructions by function and section', () => {
+    const functions = DisassemblyParser.parse(interleaved);
+
+    expect(functions.map((fn) => [fn.name, fn.section, fn.size])).toEqual([
+      ['n::square(int)', '.text', 6],
+      ['main', '.text.startup', 16],
+    ]);
+    expect(functions[0].instructions[1]).toEqual({
+      address: 3,
+      bytes: '89 f8',
+      instruction: 'movl %edi, %eax',
+      relocations: [],
+      file: 'source.cpp',
+      line: 5,
+    });
+  });
+
+  it('should attach relocations to the instruction they patch', () => {
+    const [, main] = DisassemblyParser.parse(interleaved);
+
+    expect(main.instructions[0].relocations).toEqual([{ offset: 3, type: 'R_X86_64_PC32', symbol: '.LC0-0x4' }]);
+    expect(main.instructions[1].relocations[0].symbol).toBe('__printf_chk-0x4');
+    expect(main.instructions[2].relocations).toEqual([]);
+  });
+
+  it('should report headers outside the source tree by file name', () => {
+    const [, main] = DisassemblyParser.parse(interleaved);
+
+    expect(main.instructions[0].file).toBe('stdio2.h');
+    expect(main.instructions[0].line).toBe(112);
+  });
+
+  it('should leave instructions without source positions when not interleaved', () => {
+    const [add] = DisassemblyParser.parse(aarch64);
+
+    expect(add.size).toBe(8);
+    expect(add.instructions[0]).toEqual({ address: 0, bytes: '00 00 01 0b', instruction: 'add w0, w0, w1', relocations: [] });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { GccDiagnosticsParser } from '../../../src/parsers/GccDiagnosticsParser';
+
+describe('GccDiagnosticsParser', () => {
+  it('should parse errors and warnings with their warning option', () => {
+    const stderr = [
+      "./source.cpp: In function 'int f(P*)':",
+      "./source.cpp:5:12: error: request for member 'x' in 'p', which is of pointer type 'P*'",
+      "./source.cpp:4:7: warning: unused variable 'unused' [-Wunused-variable]",
+      "source.c:1:16: error: unused variable 'x' [-Werror=unused-variable]",
+      'cc1plus: some warnings being treated as errors',
+    ].join('\n');
+
+    expect(GccDiagnosticsParser.parse(stderr)).toEqual([
+      {
+        file: 'source.cpp',
+        line: 5,
+        column: 12,
+        message: "request for member 'x' in 'p', which is of pointer type 'P*'",
+        severity: 'error',
+      },
+      {
+        file: 'source.cpp',
+        line: 4,
+        column: 7,
+        message: "unused variable 'unused'",
+        severity: 'warning',
+        option: '-Wunused-variable',
+      },
+      {
+        file: 'source.c',
+        line: 1,
+        column: 16,
+        message: "unused variable 'x'",
+        severity: 'error',
+        option: '-Wunused-variable',
+      },
+    ]);
+  });
+
+  it('should attach notes and preceding instantiation context to their diagnostic', () => {
+    const stderr = [
+      "source.cpp: In instantiation of 'T g(T) [with T = int]':",
+      'source.cpp:8:19:   required from here',
+      "source.cpp:7:43: error: request for member 'foo' in 't', which is of non-class type 'int'",
+      "source.cpp:2:8: note: candidate: 'void f(int)'",
+    ].join('\n');
+
+    const [diagnostic] = GccDiagnosticsParser.parse(stderr);
+    expect(diagnostic.severity).toBe('error');
+    expect(diagnostic.children).toEqual([
+      { file: 'source.cpp', line: 0, column: 0, message: "In instantiation of 'T g(T) [with T = int]'", severity: 'note' },
+      { file: 'source.cpp', line: 8, column: 19, message: 'required from here', severity: 'note' },
+      { file: 'source.cpp', line: 2, column: 8, message: "candidate: 'void f(int)'", severity: 'note' },
+    ]);
+  });
+
+  it('should record the include stack of a diagnostic in a header', () => {
+    const stderr = [
+      'In file included from include/util.h:3,',
+      '                 from source.cpp:1:',
+      'include/detail.h:2:10: fatal error: missing.h: No such file or directory',
+    ].join('\n');
+
+    const [diagnostic] = GccDiagnosticsParser.parse(stderr);
+    expect(diagnostic).toMatchObject({ file: 'include/detail.h', line: 2, column: 10, severity: 'error' });
+    expect(diagnostic.children?.map((child) => [child.file, child.line])).toEqual([
+      ['include/util.h', 3],
+      ['source.cpp', 1],
+    ]);
+  });
+
+  it('should attach parseable fix-it hints to the preceding diagnostic', () => {
+    const stderr = [
+      "source.cpp:9:31: error: expected ';' before 'return'",
+      'fix-it:"source.cpp":{9:31-9:31}:";"',
+      "source.cpp:3:10: error: 'strng' was not declared in this scope",
+      'fix-it:"source.cpp":{3:10-3:15}:"std::\\"string\\"\\n"',
+    ].join('\n');
+
+    const diagnostics = GccDiagnosticsParser.parse(stderr);
+    expect(diagnostics[0].fixIts).toEqual([
+      {
+        range: { start: { file: 'source.cpp', line: 9, column: 31 }, end: { file: 'source.cpp', line: 9, column: 31 } },
+        replacement: ';',
+      },
+    ]);
+    expect(diagnostics[1].fixIts?.[0].replacement).toBe('std::"string"\n');
+  });
+
+  it('should report driver errors without a source location', () => {
+    expect(GccDiagnosticsParser.parse("g++: error: unrecognized command-line option '-fbogus'")).toEqual([
+      { file: undefined, line: 0, column: 0, message: "unrecognized command-line option '-fbogus'", severity: 'error' },
+    ]);
+  });
+});
\ No newline at end of file
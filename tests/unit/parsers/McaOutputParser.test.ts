@@ -0,0 +1,197 @@
+import { McaOutputParser } from '../../../src/parsers/McaOutputParser';
+
+// llvm-mca -mcpu=skylake --bottleneck-analysis on a loop marked with LLVM-MCA-BEGIN loop
+const marked = `[0] Code Region - loop
+
+Iterations:        100
+Instructions:      300
+Total Cycles:      412
+Total uOps:        400
+
+Dispatch Width:    6
+uOps Per Cycle:    0.97
+IPC:               0.73
+Block RThroughput: 1.0
+
+
+Cycles with backend pressure increase [ 23.79% ]
+Throughput Bottlenecks: 
+  Resource Pressure       [ 16.50% ]
+  - SKLPort2  [ 16.50% ]
+  - SKLPort3  [ 16.50% ]
+  Data Dependencies:      [ 20.15% ]
+  - Register Dependencies [ 20.15% ]
+  - Memory Dependencies   [ 0.00% ]
+
+Critical sequence based on the simulation:
+
+              Instruction                                 Dependency Information
+ +----< 0.    movss\t(%rdi,%rax), %xmm0
+ |
+ |    < loop carried > 
+ |
+ +----> 0.    movss\t(%rdi,%rax), %xmm0                ## RESOURCE interference:  SKLPort3 [ probability: 70% ]
+ |      1.    mulss\t(%rsi,%rax), %xmm0
+ |      2.    addss\t%xmm0, %xmm1
+ |
+ |    < loop carried > 
+ |
+ +----> 0.    movss\t(%rdi,%rax), %xmm0                ## RESOURCE interference:  SKLPort3 [ probability: 70% ]
+
+
+Instruction Info:
+[1]: #uOps
+[2]: Latency
+[3]: RThroughput
+[4]: MayLoad
+[5]: MayStore
+[6]: HasSideEffects (U)
+
+[1]    [2]    [3]    [4]    [5]    [6]    Instructions:
+ 1      5     0.50    *                   movss\t(%rdi,%rax), %xmm0
+ 2      9     0.50    *                   mulss\t(%rsi,%rax), %xmm0
+ 1      4     0.50                        addss\t%xmm0, %xmm1
+
+
+Resources:
+[0]   - SKLDivider
+[1]   - SKLFPDivider
+[2]   - SKLPort0
+[3]   - SKLPort1
+[4]   - SKLPort2
+[5]   - SKLPort3
+[6]   - SKLPort4
+[7]   - SKLPort5
+[8]   - SKLPort6
+[9]   - SKLPort7
+
+
+Resource pressure per iteration:
+[0]    [1]    [2]    [3]    [4]    [5]    [6]    [7]    [8]    [9]    
+ -      -     1.00   1.00   1.00   1.00    -      -      -      -     
+
+Resource pressure by instruction:
+[0]    [1]    [2]    [3]    [4]    [5]    [6]    [7]    [8]    [9]    Instructions:
+ -      -      -      -      -     1.00    -      -      -      -     movss\t(%rdi,%rax), %xmm0
+ -      -     0.64   0.36   1.00    -      -      -      -      -     mulss\t(%rsi,%rax), %xmm0
+ -      -     0.36   0.64    -      -      -      -      -      -     addss\t%xmm0, %xmm1
+`;
+
+// llvm-mca -mcpu=znver3 --bottleneck-analysis on a single unmarked instruction
+const unmarked = `Iterations:        100
+Instructions:      100
+Total Cycles:      103
+Total uOps:        100
+
+Dispatch Width:    6
+uOps Per Cycle:    0.97
+IPC:               0.97
+Block RThroughput: 0.3
+
+
+No resource or data dependency bottlenecks discovered.
+
+
+Instruction Info:
+[1]: #uOps
+[2]: Latency
+[3]: RThroughput
+[4]: MayLoad
+[5]: MayStore
+[6]: HasSideEffects (U)
+
+[1]    [2]    [3]    [4]    [5]    [6]    Instructions:
+ 1      1     0.25                        addq\t%rax, %rbx
+
+
+Resources:
+[0]   - Zn3AGU0
+[1]   - Zn3AGU1
+[2]   - Zn3AGU2
+[3]   - Zn3ALU0
+[4]   - Zn3ALU1
+[5]   - Zn3ALU2
+[6]   - Zn3ALU3
+[7]   - Zn3BRU1
+[8]   - Zn3FPP0
+[9]   - Zn3FPP1
+[10]  - Zn3FPP2
+[11]  - Zn3FPP3
+[12.0] - Zn3FPP45
+[12.1] - Zn3FPP45
+[13]  - Zn3FPSt
+[14.0] - Zn3LSU
+[14.1] - Zn3LSU
+[14.2] - Zn3LSU
+[15.0] - Zn3Load
+[15.1] - Zn3Load
+[15.2] - Zn3Load
+[16.0] - Zn3Store
+[16.1] - Zn3Store
+
+
+Resource pressure per iteration:
+[0]    [1]    [2]    [3]    [4]    [5]    [6]    [7]    [8]    [9]    [10]   [11]   [12.0] [12.1] [13]   [14.0] [14.1] [14.2] [15.0] [15.1] [15.2] [16.0] [16.1] 
+ -      -      -     0.25   0.25   0.25   0.25    -      -      -      -      -      -      -      -      -      -      -      -      -      -      -      -     
+
+Resource pressure by instruction:
+[0]    [1]    [2]    [3]    [4]    [5]    [6]    [7]    [8]    [9]    [10]   [11]   [12.0] [12.1] [13]   [14.0] [14.1] [14.2] [15.0] [15.1] [15.2] [16.0] [16.1] Instructions:
+ -      -      -     0.25   0.25   0.25   0.25    -      -      -      -      -      -      -      -      -      -      -      -      -      -      -      -     addq\t%rax, %rbx
+`;
+
+describe('McaOutputParser', () => {
+  it('should parse the summary of each named region', () => {
+    const [region] = McaOutputParser.parse(marked);
+
+    expect(region.name).toBe('loop');
+    expect(region.iterations).toBe(100);
+    expect(region.instructions).toBe(300);
+    expect(region.totalCycles).toBe(412);
+    expect(region.dispatchWidth).toBe(6);
+    expect(region.ipc).toBe(0.73);
+    expect(region.blockRThroughput).toBe(1);
+  });
+
+  it('should parse the bottleneck analysis', () => {
+    const [region] = McaOutputParser.parse(marked);
+
+    expect(region.bottleneck).toEqual({
+      backendPressure: 23.79,
+      resourcePressure: 16.5,
+      resources: [{ resource: 'SKLPort2', percent: 16.5 }, { resource: 'SKLPort3', percent: 16.5 }],
+      registerDependencies: 20.15,
+      memoryDependencies: 0,
+    });
+  });
+
+  it('should read instruction info and resource pressure by column', () => {
+    const [region] = McaOutputParser.parse(marked);
+
+    expect(region.resourcePressure.map((pressure) => pressure.resource)).toEqual(['SKLPort0', 'SKLPort1', 'SKLPort2', 'SKLPort3']);
+    expect(region.instructionInfo).toHaveLength(3);
+    expect(region.instructionInfo[1]).toEqual({
+      instruction: 'mulss (%rsi,%rax), %xmm0',
+      uops: 2,
+      latency: 9,
+      reciprocalThroughput: 0.5,
+      mayLoad: true,
+      mayStore: false,
+      hasSideEffects: false,
+      resources: [
+        { resource: 'SKLPort0', cycles: 0.64 },
+        { resource: 'SKLPort1', cycles: 0.36 },
+        { resource: 'SKLPort2', cycles: 1 },
+      ],
+    });
+  });
+
+  it('should treat an unmarked report as one anonymous region without bottlenecks', () => {
+    const regions = McaOutputParser.parse(unmarked);
+
+    expect(regions).toHaveLength(1);
+    expect(regions[0].name).toBeNull();
+    expect(regions[0].bottleneck).toBeNull();
+    expect(regions[0].instructionInfo[0].instruction).toBe('addq %rax, %rbx');
+    expect(regions[0].resourcePressure).toHaveLength(4);
+  });
+});
\ No newline at end of file
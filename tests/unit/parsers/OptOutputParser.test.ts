@@ -0,0 +1,108 @@
+import { OptOutputParser } from '../../../src/parsers/OptOutputParser';
+
+const passList = `Module passes:
+  always-inline
+  globaldce
+Module passes with params:
+  loop-extract<single>
+Module analyses:
+  callgraph
+Function passes:
+  instcombine
+  print<domtree>
+Function passes with params:
+  simplifycfg<no-forward-switch-cond;forward-switch-cond;bonus-inst-threshold=N>
+Function alias analyses:
+  basic-aa
+LoopNest passes:
+  loop-interchange
+Loop passes:
+  licm
+`;
+
+const changed = `*** IR Dump At Start ***
+; ModuleID = 'input.ll'
+source_filename = "input.ll"
+
+define i32 @square(i32 %x) {
+  %p = alloca i32, align 4
+  store i32 %x, i32* %p, align 4
+  %v = load i32, i32* %p, align 4
+  %r = mul i32 %v, %v
+  ret i32 %r
+}
+*** IR Dump After VerifierPass on [module] omitted because no change ***
+*** IR Dump After SROAPass on square ***
+; ModuleID = 'input.ll'
+source_filename = "input.ll"
+
+define i32 @square(i32 %x) {
+  %r = mul i32 %x, %x
+  ret i32 %r
+}
+*** IR Dump After InstCombinePass on square omitted because no change ***
+*** IR Dump After LICMPass on Loop at depth 1 containing: %loop<header><latch><exiting> omitted because no change ***
+*** IR Pass PassManager<llvm::Function> on square ignored ***
+*** IR Pass ModuleToFunctionPassAdaptor on [module] ignored ***
+*** IR Deleted After InlinerPass on (helper) ***
+*** IR Dump After VerifierPass on [module] omitted because no change ***
+`;
+
+describe('OptOutputParser', () => {
+  it('should parse the pass registry by kind', () => {
+    const passes = OptOutputParser.parsePasses(passList);
+
+    expect(passes.map((pass) => pass.name)).toEqual([
+      'always-inline', 'globaldce', 'loop-extract', 'callgraph', 'instcombine', 'print<domtree>',
+      'simplifycfg', 'basic-aa', 'loop-interchange', 'licm',
+    ]);
+    expect(passes[2]).toEqual({ name: 'loop-extract', kind: 'module', analysis: false, parameters: ['single'] });
+    expect(passes[3]).toEqual({ name: 'callgraph', kind: 'module', analysis: true });
+    expect(passes[6].parameters).toContain('bonus-inst-threshold=N');
+    expect(passes[8].kind).toBe('loop-nest');
+  });
+
+  it('should collect the initial module and the module after each change', () => {
+    const result = OptOutputParser.parseChanges(changed);
+
+    expect(result.initial).toContain('%p = alloca i32, align 4');
+    expect(result.initial.startsWith("; ModuleID = 'input.ll'")).toBe(true);
+    expect(result.dumps).toHaveLength(1);
+    expect(result.dumps[0].pass).toBe('SROAPass');
+    expect(result.dumps[0].unit).toBe('square');
+    expect(result.dumps[0].ir).toContain('%r = mul i32 %x, %x');
+    expect(result.dumps[0].ir.endsWith('}')).toBe(true);
+  });
+
+  it('should count executed passes but not pass managers and adaptors', () => {
+    expect(OptOutputParser.parseChanges(changed).passesRun).toBe(6);
+  });
+
+  it('should keep errors apart from the dumps', () => {
+    const result = OptOutputParser.parseChanges("opt: input.ll:3:7: error: expected type\n  %p = alloca\n      ^\n");
+
+    expect(result.dumps).toEqual([]);
+    expect(result.messages).toBe('opt: input.ll:3:7: error: expected type\n  %p = alloca\n      ^');
+  });
+
+  it('should end a dump at messages printed after it', () => {
+    const lastDump = changed.substring(0, changed.indexOf('*** IR Dump After InstCombinePass'));
+    const result = OptOutputParser.parseChanges(
+      `${lastDump}opt: warning: input.ll: ignoring debug info with an invalid version (0)\n` +
+        'LLVM ERROR: Broken module found, compilation aborted!\n' +
+        'PLEASE submit a bug report to https://github.com/llvm/llvm-project/issues/ and include the crash backtrace.\n' +
+        'Stack dump:\n' +
+        '0.\tProgram arguments: opt -S -passes=sroa input.ll\n'
+    );
+
+    expect(result.dumps).toHaveLength(1);
+    expect(result.dumps[0].ir.endsWith('}')).toBe(true);
+    expect(result.messages.split('\n')).toEqual([
+      'opt: warning: input.ll: ignoring debug info with an invalid version (0)',
+      'LLVM ERROR: Broken module found, compilation aborted!',
+      'PLEASE submit a bug report to https://github.com/llvm/llvm-project/issues/ and include the crash backtrace.',
+      'Stack dump:',
+      '0.\tProgram arguments: opt -S -passes=sroa input.ll',
+    ]);
+  });
+});
\ No newline at end of file
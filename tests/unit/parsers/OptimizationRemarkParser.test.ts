@@ -0,0 +1,111 @@
+import { OptimizationRemarkParser } from '../../../src/parsers/OptimizationRemarkParser';
+
+const records = `--- !Passed
+Pass:            inline
+Name:            Inlined
+DebugLoc:        { File: source.cpp, Line: 8, Column: 36 }
+Function:        _Z3sumPii
+Args:
+  - String:          ''''
+  - Callee:          _ZL2sqi
+    DebugLoc:        { File: source.cpp, Line: 5, Column: 0 }
+  - String:          ''' inlined into '''
+  - Caller:          _Z3sumPii
+    DebugLoc:        { File: source.cpp, Line: 6, Column: 0 }
+  - String:          ''''
+...
+--- !Analysis
+Pass:            loop-vectorize
+Name:            UnsafeDep
+DebugLoc:        { File: source.cpp, Line: 3, Column: 10 }
+Function:        _Z5scalePfS_i
+Args:
+  - String:          'loop not vectorized: '
+  - String:          'unsafe dependent memory operations in loop'
+  - String:          "\\nBackward loop carried data dependence."
+  - String:          ' Memory location is the same as accessed at '
+  - Location:        'source.cpp:3:12'
+    DebugLoc:        { File: source.cpp, Line: 3, Column: 12 }
+...
+--- !Missed
+Pass:            loop-vectorize
+Name:            MissedDetails
+DebugLoc:        { File: './include/my vec.h', Line: 2, Column: 3 }
+Function:        _Z5scalePfS_i
+Hotness:         120
+Args:
+  - String:          loop not vectorized
+...
+--- !Passed
+Pass:            loop-vectorize
+Name:            Vectorized
+DebugLoc:        { File: source.cpp, Line: 8, Column: 3 }
+Function:        _Z3sumPii
+Args:
+  - String:          'vectorized loop (vectorization width: '
+  - VectorizationFactor: '4'
+  - String:          ', interleaved count: '
+  - InterleaveCount: '1'
+  - String:          ')'
+...
+--- !Missed
+Pass:            slp-vectorizer
+Name:            NotBeneficial
+Function:        _Z3sumPii
+Args:
+  - String:          'List vectorization was possible but not beneficial with cost '
+  - Cost:            '0'
+...
+`;
+
+describe('OptimizationRemarkParser', () => {
+  it('should parse remark kinds, passes, functions and locations', () => {
+    const remarks = OptimizationRemarkParser.parse(records);
+
+    expect(remarks).toHaveLength(5);
+    expect(remarks.map((remark) => remark.kind)).toEqual(['passed', 'analysis', 'missed', 'passed', 'missed']);
+    expect(remarks[1]).toEqual({
+      kind: 'analysis',
+      pass: 'loop-vectorize',
+      name: 'UnsafeDep',
+      function: '_Z5scalePfS_i',
+      file: 'source.cpp',
+      line: 3,
+      column: 10,
+      message: 'loop not vectorized: unsafe dependent memory operations in loop\n' +
+        'Backward loop carried data dependence. Memory location is the same as accessed at source.cpp:3:12',
+    });
+  });
+
+  it('should join arguments into the message and unescape quoted scalars', () => {
+    const remarks = OptimizationRemarkParser.parse(records);
+
+    expect(remarks[0].message).toBe("'_ZL2sqi' inlined into '_Z3sumPii'");
+    expect(remarks[3].message).toBe('vectorized loop (vectorization width: 4, interleaved count: 1)');
+  });
+
+  it('should read quoted file names and hotness', () => {
+    const remarks = OptimizationRemarkParser.parse(records);
+
+    expect(remarks[2]).toMatchObject({ file: 'include/my vec.h', line: 2, column: 3, hotness: 120 });
+  });
+
+  it('should keep remarks without a debug location', () => {
+    const remarks = OptimizationRemarkParser.parse(records);
+
+    expect(remarks[4].file).toBeUndefined();
+    expect(remarks[4].message).toBe('List vectorization was possible but not beneficial with cost 0');
+  });
+
+  it('should group remarks by source line', () => {
+    const groups = OptimizationRemarkParser.groupByLine(OptimizationRemarkParser.parse(records));
+
+    expect(groups.map((group) => [group.file, group.line])).toEqual([
+      ['include/my vec.h', 2],
+      ['source.cpp', 3],
+      ['source.cpp', 8],
+      [undefined, undefined],
+    ]);
+    expect(groups[2].remarks.map((remark) => remark.name)).toEqual(['Vectorized', 'Inlined']);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,82 @@
+import { PreprocessorOutputParser } from '../../../src/parsers/PreprocessorOutputParser';
+
+const output = `# 1 "source.cpp"
+# 1 "<built-in>" 1
+# 1 "<built-in>" 3
+#define __clang__ 1
+#define __STDC_HOSTED__ 1
+# 1 "<command line>" 1
+#define DEBUG 1
+# 1 "<built-in>" 2
+# 1 "source.cpp" 2
+# 1 "include/config.h" 1
+#define BUFFER_SIZE 64
+#define EMPTY 
+#define MAX(a, b) ((a) > (b) ? (a) : (b))
+# 2 "source.cpp" 2
+# 1 "/usr/include/limits.h" 1 3 4
+#define INT_MAX __INT_MAX__
+# 3 "source.cpp" 2
+
+#undef BUFFER_SIZE
+#define BUFFER_SIZE 128
+
+
+
+int main() {
+  return ((1) > (2) ? (1) : (2)) + 128;
+}
+`;
+
+describe('PreprocessorOutputParser', () => {
+  it('should strip line markers and macro directives from the expanded source', () => {
+    const parsed = PreprocessorOutputParser.parse(output);
+
+    expect(parsed.text).toBe('int main() {\n  return ((1) > (2) ? (1) : (2)) + 128;\n}');
+  });
+
+  it('should keep line markers when requested', () => {
+    const parsed = PreprocessorOutputParser.parse(output, true);
+
+    expect(parsed.text).toContain('# 1 "include/config.h" 1');
+    expect(parsed.text).not.toContain('#define');
+  });
+
+  it('should attribute macros to the file and line that defined them', () => {
+    const { macros } = PreprocessorOutputParser.parse(output);
+
+    expect(macros.find((macro) => macro.name === 'DEBUG')).toMatchObject({ file: '<command line>', line: 1, body: '1' });
+    expect(macros.find((macro) => macro.name === 'MAX')).toMatchObject({
+      file: 'include/config.h',
+      line: 3,
+      parameters: ['a', 'b'],
+      body: '((a) > (b) ? (a) : (b))',
+    });
+    expect(macros.find((macro) => macro.name === 'EMPTY')).toMatchObject({ body: '' });
+    expect(macros.find((macro) => macro.name === 'EMPTY')!.parameters).toBeUndefined();
+    expect(macros.filter((macro) => macro.name === 'BUFFER_SIZE')).toEqual([
+      { name: 'BUFFER_SIZE', body: '64', file: 'include/config.h', line: 1 },
+      { name: 'BUFFER_SIZE', body: '', file: 'source.cpp', line: 4, undefined: true },
+      { name: 'BUFFER_SIZE', body: '128', file: 'source.cpp', line: 5 },
+    ]);
+  });
+
+  it('should resolve the final definitions after #undef', () => {
+    const { macros } = PreprocessorOutputParser.parse(output);
+    const final = PreprocessorOutputParser.finalMacros(macros);
+
+    expect(final.filter((macro) => macro.name === 'BUFFER_SIZE')).toEqual([
+      { name: 'BUFFER_SIZE', body: '128', file: 'source.cpp', line: 5 },
+    ]);
+    expect(final.some((macro) => macro.undefined)).toBe(false);
+  });
+
+  it('should separate user macros from built-in and system macros', () => {
+    const { macros } = PreprocessorOutputParser.parse(output);
+    const userMacros = PreprocessorOutputParser.finalMacros(macros)
+      .filter((macro) => PreprocessorOutputParser.isUserMacro(macro))
+      .map((macro) => macro.name);
+
+    expect(userMacros).toEqual(['DEBUG', 'EMPTY', 'MAX', 'BUFFER_SIZE']);
+  });
+});
\ No newline at end of file
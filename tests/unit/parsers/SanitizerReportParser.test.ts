@@ -0,0 +1,94 @@
+import { SanitizerReportParser } from '../../../src/parsers/SanitizerReportParser';
+
+const asanReport = `=================================================================
+==4242==ERROR: AddressSanitizer: heap-buffer-overflow on address 0x602000000024 at pc 0x55d1c0a1b2c3 bp 0x7ffd5e0 sp 0x7ffd5d8
+WRITE of size 4 at 0x602000000024 thread T0
+    #0 0x55d1c0a1b2c2 in main ./source.cpp:5:10
+    #1 0x7f0a1b2c3d8f in __libc_start_main (/lib/x86_64-linux-gnu/libc.so.6+0x29d8f)
+    #2 0x55d1c0a1a0b4 in _start (./main+0x1e0b4)
+
+0x602000000024 is located 0 bytes to the right of 20-byte region [0x602000000010,0x602000000024)
+allocated by thread T0 here:
+    #0 0x55d1c0a1ad1d in operator new[](unsigned long) (./main+0xdd1d)
+    #1 0x55d1c0a1b27a in main ./source.cpp:4:14
+
+SUMMARY: AddressSanitizer: heap-buffer-overflow ./source.cpp:5:10 in main
+==4242==ABORTING`;
+
+const ubsanReport = `source.cpp:3:12: runtime error: signed integer overflow: 2147483647 + 1 cannot be represented in type 'int'
+    #0 0x55d1c0a1b2c2 in add(int, int) ./source.cpp:3:12
+    #1 0x55d1c0a1b3a0 in main ./source.cpp:8:3
+SUMMARY: UndefinedBehaviorSanitizer: undefined-behavior source.cpp:3:12 in`;
+
+const lsanReport = `=================================================================
+==77==ERROR: LeakSanitizer: detected memory leaks
+
+Direct leak of 16 byte(s) in 1 object(s) allocated from:
+    #0 0x4c2a3d in malloc (./main+0x4c2a3d)
+    #1 0x4f1a2b in make_node ./list.cpp:12:20
+    #2 0x4f1b40 in main ./main.cpp:5:3
+
+Indirect leak of 8 byte(s) in 1 object(s) allocated from:
+    #0 0x4c2a3d in malloc (./main+0x4c2a3d)
+    #1 0x4f1a40 in make_node ./list.cpp:13:22
+
+SUMMARY: AddressSanitizer: 24 byte(s) leaked in 2 allocation(s).`;
+
+describe('SanitizerReportParser', () => {
+  it('should parse AddressSanitizer reports with access details and stacks', () => {
+    const reports = SanitizerReportParser.parse(asanReport);
+
+    expect(reports).toHaveLength(1);
+    expect(reports[0]).toMatchObject({
+      sanitizer: 'address',
+      kind: 'heap-buffer-overflow',
+      address: '0x602000000024',
+      accessType: 'write',
+      accessSize: 4,
+      file: 'source.cpp',
+      line: 5,
+      column: 10,
+    });
+    expect(reports[0].description).toContain('20-byte region');
+    expect(reports[0].stack).toHaveLength(3);
+    expect(reports[0].stack[0]).toMatchObject({ function: 'main', file: 'source.cpp', line: 5 });
+    expect(reports[0].stack[1]).toMatchObject({
+      function: '__libc_start_main',
+      module: '/lib/x86_64-linux-gnu/libc.so.6',
+    });
+    expect(reports[0].allocationStack).toHaveLength(2);
+    expect(reports[0].allocationStack![0].function).toBe('operator new[](unsigned long)');
+  });
+
+  it('should parse UndefinedBehaviorSanitizer runtime errors', () => {
+    const reports = SanitizerReportParser.parse(ubsanReport);
+
+    expect(reports).toHaveLength(1);
+    expect(reports[0]).toMatchObject({
+      sanitizer: 'undefined',
+      kind: 'signed-integer-overflow',
+      file: 'source.cpp',
+      line: 3,
+      column: 12,
+    });
+    expect(reports[0].stack.map((frame) => frame.function)).toEqual(['add(int, int)', 'main']);
+  });
+
+  it('should report each LeakSanitizer leak separately', () => {
+    const reports = SanitizerReportParser.parse(lsanReport);
+
+    expect(reports).toHaveLength(2);
+    expect(reports[0]).toMatchObject({
+      sanitizer: 'leak',
+      kind: 'direct-leak',
+      leakedBytes: 16,
+      file: 'list.cpp',
+      line: 12,
+    });
+    expect(reports[1]).toMatchObject({ kind: 'indirect-leak', leakedBytes: 8 });
+  });
+
+  it('should return no reports for clean output', () => {
+    expect(SanitizerReportParser.parse('hello world\n')).toEqual([]);
+  });
+});
\ No newline at end of file
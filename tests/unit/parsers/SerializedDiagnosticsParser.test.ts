@@ -0,0 +1,78 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { SerializedDiagnosticsParser } from '../../../src/parsers/SerializedDiagnosticsParser';
+
+// Produced by `clang++ -fsyntax-only -Wall -Wextra --serialize-diagnostics diagnostics.dia source.cpp`
+// for a source.cpp that includes a broken util.h, uses an undeclared identifier, compares
+// signed with unsigned and instantiates a template with an invalid member access.
+const fixture = readFileSync(path.join(__dirname, '../../fixtures/diagnostics.dia'));
+
+describe('SerializedDiagnosticsParser', () => {
+  it('should decode every top-level diagnostic in order', () => {
+    const diagnostics = SerializedDiagnosticsParser.parse(fixture);
+
+    expect(diagnostics.map((diagnostic) => [diagnostic.severity, diagnostic.file, diagnostic.line])).toEqual([
+      ['error', 'util.h', 2],
+      ['error', 'source.cpp', 5],
+      ['warning', 'source.cpp', 9],
+      ['error', 'source.cpp', 7],
+    ]);
+  });
+
+  it('should carry the warning option, category and ranges', () => {
+    const warning = SerializedDiagnosticsParser.parse(fixture)[2];
+
+    expect(warning).toMatchObject({
+      message: "comparison of integers of different signs: 'unsigned int' and 'int'",
+      option: '-Wsign-compare',
+      category: 'Semantic Issue',
+      column: 37,
+    });
+    expect(warning.ranges).toEqual([
+      { start: { file: 'source.cpp', line: 9, column: 35 }, end: { file: 'source.cpp', line: 9, column: 36 } },
+      { start: { file: 'source.cpp', line: 9, column: 39 }, end: { file: 'source.cpp', line: 9, column: 40 } },
+    ]);
+  });
+
+  it('should nest include and template backtraces under their diagnostic', () => {
+    const diagnostics = SerializedDiagnosticsParser.parse(fixture);
+
+    expect(diagnostics[0].children).toEqual([
+      expect.objectContaining({ severity: 'note', file: 'source.cpp', line: 1, message: 'in file included from source.cpp:1:' }),
+    ]);
+    expect(diagnostics[3].children).toEqual([
+      expect.objectContaining({
+        severity: 'note',
+        line: 8,
+        message: "in instantiation of function template specialization 'g<int>' requested here",
+      }),
+    ]);
+    expect(diagnostics[1].children).toBeUndefined();
+  });
+
+  it('should attach fix-it hints to their diagnostic', () => {
+    // source.cpp declares `int total = p.x` without a semicolon, where p is a Point*
+    const diagnostics = SerializedDiagnosticsParser.parse(
+      readFileSync(path.join(__dirname, '../../fixtures/fixits.dia'))
+    );
+
+    expect(diagnostics[0].fixIts).toEqual([
+      {
+        range: { start: { file: 'source.cpp', line: 3, column: 16 }, end: { file: 'source.cpp', line: 3, column: 17 } },
+        replacement: '->',
+      },
+    ]);
+    expect(diagnostics[1].fixIts).toEqual([
+      {
+        range: { start: { file: 'source.cpp', line: 3, column: 18 }, end: { file: 'source.cpp', line: 3, column: 18 } },
+        replacement: ';',
+      },
+    ]);
+  });
+
+  it('should reject data that is not a serialized diagnostics file', () => {
+    expect(() => SerializedDiagnosticsParser.parse(Buffer.from('not diagnostics'))).toThrow(
+      'Not a serialized diagnostics file'
+    );
+  });
+});
\ No newline at end of file
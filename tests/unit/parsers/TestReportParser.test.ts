@@ -0,0 +1,126 @@
+import { TestReportParser } from '../../../src/parsers/TestReportParser';
+
+const gtestReport = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites tests="4" failures="1" disabled="1" errors="0" time="0.001" name="AllTests">
+  <testsuite name="Math" tests="4" failures="1" disabled="1" skipped="1" errors="0" time="0.001">
+    <testcase name="Add" file="./math_test.cpp" line="4" status="run" result="completed" time="0." classname="Math" />
+    <testcase name="Sub" file="./math_test.cpp" line="8" status="run" result="completed" time="0.001" classname="Math">
+      <failure message="math_test.cpp:9&#x0A;Expected equality of these values:&#x0A;  sub(3, 1)&#x0A;    Which is: 2&#x0A;  1" type=""><![CDATA[math_test.cpp:9
+Expected equality of these values:
+  sub(3, 1)
+    Which is: 2
+  1]]></failure>
+    </testcase>
+    <testcase name="DISABLED_Mul" file="./math_test.cpp" line="12" status="notrun" result="suppressed" time="0." classname="Math" />
+    <testcase name="Div" file="./math_test.cpp" line="14" status="run" result="skipped" time="0." classname="Math">
+      <skipped message="math_test.cpp:15&#x0A;"><![CDATA[math_test.cpp:15
+]]></skipped>
+    </testcase>
+  </testsuite>
+</testsuites>`;
+
+const catch2Report = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuitesloose>
+<testsuites>
+  <testsuite name="main" errors="1" failures="1" tests="3" hostname="tbd" time="0.001">
+    <properties>
+      <property name="random-seed" value="1234"/>
+    </properties>
+    <testcase classname="main.global" name="add" time="0.000"/>
+    <testcase classname="main.global" name="parse &lt;int&gt;" time="0.000">
+      <failure message="parse(&quot;12&quot;) == 13" type="REQUIRE">
+FAILED:
+  REQUIRE( parse("12") == 13 )
+with expansion:
+  12 == 13
+math_test.cpp:12
+      </failure>
+    </testcase>
+    <testcase classname="main.global" name="throws" time="0.000">
+      <error type="TEST_CASE">
+FAILED:
+std::runtime_error: boom
+math_test.cpp:16
+      </error>
+    </testcase>
+    <system-out/>
+    <system-err/>
+  </testsuite>
+</testsuites>
+</testsuitesloose>`;
+
+const doctestReport = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+  <testsuite name="main" errors="0" failures="1" tests="2">
+    <testcase classname="math_test.cpp" name="add" status="run" time="0"/>
+    <testcase classname="math_test.cpp" name="sub" status="run" time="0">
+      <failure message="2 == 1" type="CHECK">
+math_test.cpp(12):
+CHECK( sub(3, 1) == 1 ) is NOT correct!
+  values: CHECK( 2 == 1 )
+
+      </failure>
+    </testcase>
+  </testsuite>
+</testsuites>`;
+
+describe('TestReportParser', () => {
+  it('should parse GoogleTest results with test locations', () => {
+    const results = TestReportParser.parse(gtestReport);
+
+    expect(results.map((result) => [result.name, result.status])).toEqual([
+      ['Add', 'passed'],
+      ['Sub', 'failed'],
+      ['DISABLED_Mul', 'skipped'],
+      ['Div', 'skipped'],
+    ]);
+    expect(results[0]).toEqual({
+      name: 'Add',
+      suite: 'Math',
+      status: 'passed',
+      time: 0,
+      file: 'math_test.cpp',
+      line: 4,
+      failures: [],
+    });
+    expect(results[1].failures).toEqual([{
+      message: 'Expected equality of these values:\n  sub(3, 1)\n    Which is: 2\n  1',
+      file: 'math_test.cpp',
+      line: 9,
+    }]);
+  });
+
+  it('should parse Catch2 failures and unexpected exceptions', () => {
+    const results = TestReportParser.parse(catch2Report);
+
+    expect(results.map((result) => [result.name, result.status])).toEqual([
+      ['add', 'passed'],
+      ['parse <int>', 'failed'],
+      ['throws', 'failed'],
+    ]);
+    expect(results[1].failures).toEqual([{
+      message: 'FAILED:\n  REQUIRE( parse("12") == 13 )\nwith expansion:\n  12 == 13',
+      file: 'math_test.cpp',
+      line: 12,
+    }]);
+    expect(results[2].failures[0]).toMatchObject({ file: 'math_test.cpp', line: 16 });
+  });
+
+  it('should parse doctest failure locations', () => {
+    const results = TestReportParser.parse(doctestReport);
+
+    expect(results).toHaveLength(2);
+    expect(results[1]).toMatchObject({ name: 'sub', suite: 'math_test.cpp', status: 'failed' });
+    expect(results[1].failures).toEqual([{
+      message: 'CHECK( sub(3, 1) == 1 ) is NOT correct!\n  values: CHECK( 2 == 1 )',
+      file: 'math_test.cpp',
+      line: 12,
+    }]);
+  });
+
+  it('should keep the test cases of a truncated report', () => {
+    const truncated = doctestReport.slice(0, doctestReport.indexOf('<failure'));
+
+    expect(TestReportParser.parse(truncated).map((result) => result.name)).toEqual(['add', 'sub']);
+  });
+});
\ No newline at end of file
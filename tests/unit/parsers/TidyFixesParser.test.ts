@@ -0,0 +1,149 @@
+import { TidyFixesParser } from '../../../src/parsers/TidyFixesParser';
+
+// clang-tidy --export-fixes for a file with a NULL comparison, a std::endl and a compile error
+const fixes = `---
+MainSourceFile:  '/tmp/clang-mcp-1234/source.cpp'
+Diagnostics:
+  - DiagnosticName:  modernize-use-nullptr
+    DiagnosticMessage:
+      Message:         use nullptr
+      FilePath:        '/tmp/clang-mcp-1234/source.cpp'
+      FileOffset:      68
+      Replacements:
+        - FilePath:        '/tmp/clang-mcp-1234/source.cpp'
+          Offset:          68
+          Length:          4
+          ReplacementText: nullptr
+    Level:           Warning
+    BuildDirectory:  '/tmp/clang-mcp-1234'
+  - DiagnosticName:  performance-avoid-endl
+    DiagnosticMessage:
+      Message:         'do not use ''std::endl'' with streams; use ''\\n'' instead'
+      FilePath:        '/tmp/clang-mcp-1234/util.h'
+      FileOffset:      120
+      Replacements:
+        - FilePath:        '/tmp/clang-mcp-1234/util.h'
+          Offset:          117
+          Length:          9
+          ReplacementText: "'\\n'"
+      Ranges:
+        - FilePath:        '/tmp/clang-mcp-1234/util.h'
+          FileOffset:      117
+          Length:          9
+    Notes:
+      - Message:         'the stream is flushed here'
+        FilePath:        '/tmp/clang-mcp-1234/util.h'
+        FileOffset:      100
+        Replacements:    []
+    Level:           Warning
+    BuildDirectory:  '/tmp/clang-mcp-1234'
+  - DiagnosticName:  clang-diagnostic-error
+    DiagnosticMessage:
+      Message:         "use of undeclared identifier 'y'"
+      FilePath:        '/tmp/clang-mcp-1234/source.cpp'
+      FileOffset:      140
+      Replacements:    []
+    Level:           Error
+    BuildDirectory:  '/tmp/clang-mcp-1234'
+...
+`;
+
+// Replacement texts with line breaks are written single-quoted over several lines, one blank line per break
+const multiLineFixes = `---
+MainSourceFile:  '/tmp/clang-mcp-1234/source.cpp'
+Diagnostics:
+  - DiagnosticName:  readability-braces-around-statements
+    DiagnosticMessage:
+      Message:         statement should be inside braces
+      FilePath:        '/tmp/clang-mcp-1234/source.cpp'
+      FileOffset:      40
+      Replacements:
+        - FilePath:        '/tmp/clang-mcp-1234/source.cpp'
+          Offset:          40
+          Length:          0
+          ReplacementText: ' {'
+        - FilePath:        '/tmp/clang-mcp-1234/source.cpp'
+          Offset:          52
+          Length:          0
+          ReplacementText: '
+
+}'
+    Level:           Warning
+    BuildDirectory:  '/tmp/clang-mcp-1234'
+  - DiagnosticName:  misc-example
+    DiagnosticMessage:
+      Message:         'a message folded
+        over two lines'
+      FilePath:        '/tmp/clang-mcp-1234/source.cpp'
+      FileOffset:      60
+      Replacements:
+        - FilePath:        '/tmp/clang-mcp-1234/source.cpp'
+          Offset:          60
+          Length:          3
+          ReplacementText: "first\\
+            \\ second
+
+            # third"
+    Level:           Warning
+    BuildDirectory:  '/tmp/clang-mcp-1234'
+...
+`;
+
+describe('TidyFixesParser', () => {
+  it('should read each diagnostic with its check and level', () => {
+    const diagnostics = TidyFixesParser.parse(fixes);
+
+    expect(diagnostics.map((diagnostic) => [diagnostic.check, diagnostic.level])).toEqual([
+      ['modernize-use-nullptr', 'warning'],
+      ['performance-avoid-endl', 'warning'],
+      ['clang-diagnostic-error', 'error'],
+    ]);
+    expect(diagnostics[0].message).toEqual({
+      message: 'use nullptr',
+      filePath: '/tmp/clang-mcp-1234/source.cpp',
+      fileOffset: 68,
+      replacements: [{ filePath: '/tmp/clang-mcp-1234/source.cpp', offset: 68, length: 4, text: 'nullptr' }],
+      ranges: [],
+    });
+  });
+
+  it('should unquote single and double quoted scalars', () => {
+    const [, endl, error] = TidyFixesParser.parse(fixes);
+
+    expect(endl.message.message).toBe("do not use 'std::endl' with streams; use '\\n' instead");
+    expect(endl.message.replacements[0].text).toBe("'\n'");
+    expect(error.message.message).toBe("use of undeclared identifier 'y'");
+  });
+
+  it('should fold quoted scalars that span several lines', () => {
+    const diagnostics = TidyFixesParser.parse(multiLineFixes);
+
+    expect(diagnostics.map((diagnostic) => diagnostic.check)).toEqual([
+      'readability-braces-around-statements',
+      'misc-example',
+    ]);
+    expect(diagnostics[0].message.replacements.map((replacement) => replacement.text)).toEqual([' {', '\n}']);
+    expect(diagnostics[0].level).toBe('warning');
+    expect(diagnostics[1].message.message).toBe('a message folded over two lines');
+    expect(diagnostics[1].message.fileOffset).toBe(60);
+    expect(diagnostics[1].message.replacements[0].text).toBe('first second\n# third');
+  });
+
+  it('should read notes and ranges', () => {
+    const [, endl] = TidyFixesParser.parse(fixes);
+
+    expect(endl.message.ranges).toEqual([{ filePath: '/tmp/clang-mcp-1234/util.h', offset: 117, length: 9 }]);
+    expect(endl.notes).toEqual([{
+      message: 'the stream is flushed here',
+      filePath: '/tmp/clang-mcp-1234/util.h',
+      fileOffset: 100,
+      replacements: [],
+      ranges: [],
+    }]);
+  });
+
+  it('should return no diagnostics for an empty file', () => {
+    expect(TidyFixesParser.parse('')).toEqual([]);
+    expect(TidyFixesParser.parse('---\nMainSourceFile: source.cpp\nDiagnostics: []\n...\n')).toEqual([]);
+  });
+});
\ No newline at end of file
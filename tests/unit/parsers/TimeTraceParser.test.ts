@@ -0,0 +1,77 @@
+import { TimeTraceParser } from '../../../src/parsers/TimeTraceParser';
+
+const trace = JSON.stringify({
+  traceEvents: [
+    { pid: 0, tid: 0, ts: 1000, cat: 'Source', ph: 'b', id: 0, name: 'Source', args: { detail: './include/vec.h' } },
+    { pid: 0, tid: 0, ts: 2000, cat: 'Source', ph: 'b', id: 1, name: 'Source', args: { detail: '/usr/include/c++/v1/vector' } },
+    { pid: 0, tid: 0, ts: 42000, cat: 'Source', ph: 'e', id: 1, name: 'Source' },
+    { pid: 0, tid: 0, ts: 51000, cat: 'Source', ph: 'e', id: 0, name: 'Source' },
+    { pid: 0, tid: 0, ts: 60000, ph: 'X', dur: 4000, name: 'InstantiateClass', args: { detail: 'Vec<int>' } },
+    { pid: 0, tid: 0, ts: 64000, ph: 'X', dur: 1500, name: 'InstantiateFunction', args: { detail: 'Vec<int>::push' } },
+    { pid: 0, tid: 0, ts: 70000, ph: 'X', dur: 2500, name: 'InstantiateClass', args: { detail: 'Vec<float>' } },
+    { pid: 0, tid: 0, ts: 80000, ph: 'X', dur: 500, name: 'InstantiateFunction', args: { detail: 'Vec<int>::push' } },
+    { pid: 0, tid: 0, ts: 79000, ph: 'X', dur: 2000, name: 'PerformPendingInstantiations' },
+    { pid: 0, tid: 0, ts: 500, ph: 'X', dur: 90000, name: 'Frontend' },
+    { pid: 0, tid: 0, ts: 92000, ph: 'X', dur: 30000, name: 'Optimizer' },
+    { pid: 0, tid: 0, ts: 122000, ph: 'X', dur: 20000, name: 'OptModule', args: { detail: 'src/main.cpp' } },
+    { pid: 0, tid: 0, ts: 122000, ph: 'X', dur: 20000, name: 'CodeGenPasses' },
+    { pid: 0, tid: 0, ts: 91000, ph: 'X', dur: 52000, name: 'Backend' },
+    { pid: 0, tid: 0, ts: 100, ph: 'X', dur: 143500, name: 'ExecuteCompiler' },
+    { pid: 0, tid: 1, ph: 'X', ts: 0, dur: 143500, name: 'Total ExecuteCompiler', args: { count: 1, 'avg ms': 143 } },
+    { pid: 0, tid: 2, ph: 'X', ts: 0, dur: 90000, name: 'Total Frontend', args: { count: 1, 'avg ms': 90 } },
+    { cat: '', pid: 0, tid: 0, ts: 0, ph: 'M', name: 'process_name', args: { name: 'clang++' } },
+  ],
+  beginningOfTime: 1792403454231000,
+});
+
+describe('TimeTraceParser', () => {
+  it('should report the total time and phases in pipeline order', () => {
+    const summary = TimeTraceParser.parse(trace, 'src/main.cpp');
+
+    expect(summary.file).toBe('src/main.cpp');
+    expect(summary.totalTimeMs).toBe(143.5);
+    expect(summary.phases).toEqual([
+      { name: 'Frontend', durationMs: 90, count: 1 },
+      { name: 'PerformPendingInstantiations', durationMs: 2, count: 1 },
+      { name: 'Backend', durationMs: 52, count: 1 },
+      { name: 'Optimizer', durationMs: 30, count: 1 },
+      { name: 'CodeGenPasses', durationMs: 20, count: 1 },
+    ]);
+  });
+
+  it('should join header begin and end events', () => {
+    const summary = TimeTraceParser.parse(trace, 'src/main.cpp');
+
+    expect(summary.headers).toEqual([
+      { name: 'include/vec.h', durationMs: 50, count: 1 },
+      { name: '/usr/include/c++/v1/vector', durationMs: 40, count: 1 },
+    ]);
+  });
+
+  it('should aggregate template instantiations by name', () => {
+    const summary = TimeTraceParser.parse(trace, 'src/main.cpp');
+
+    expect(summary.templates).toEqual([
+      { name: 'Vec<int>', durationMs: 4, count: 1 },
+      { name: 'Vec<float>', durationMs: 2.5, count: 1 },
+      { name: 'Vec<int>::push', durationMs: 2, count: 2 },
+    ]);
+  });
+
+  it('should limit the number of headers and templates', () => {
+    const summary = TimeTraceParser.parse(trace, 'src/main.cpp', 1);
+
+    expect(summary.headers.map((entry) => entry.name)).toEqual(['include/vec.h']);
+    expect(summary.templates.map((entry) => entry.name)).toEqual(['Vec<int>']);
+  });
+
+  it('should accept header events recorded as complete events', () => {
+    const legacy = JSON.stringify({
+      traceEvents: [{ pid: 0, tid: 0, ts: 100, ph: 'X', dur: 3000, name: 'Source', args: { detail: 'config.h' } }],
+    });
+
+    expect(TimeTraceParser.parse(legacy, 'source.cpp').headers).toEqual([
+      { name: 'config.h', durationMs: 3, count: 1 },
+    ]);
+  });
+});
\ No newline at end of file
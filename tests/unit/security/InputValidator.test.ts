@@ -28,6 +28,63 @@ describe('InputValidator', () => {
     });
   });
 
+  describe('validateSourceInput', () => {
+    it('should accept a file tree with entry points', () => {
+      const result = InputValidator.validateSourceInput({
+        files: {
+          'include/util.h': 'int helper();',
+          'src/util.cpp': '#include "util.h"\nint helper() { return 1; }',
+          'src/main.cpp': '#include "util.h"\nint main() { return helper(); }',
+        },
+        entryPoints: ['src/main.cpp', 'src/util.cpp'],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject both source code and files', () => {
+      const result = InputValidator.validateSourceInput({
+        sourceCode: 'int main() {}',
+        files: { 'main.cpp': 'int main() {}' },
+      });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('not both');
+    });
+
+    it('should reject path traversal in file names', () => {
+      const result = InputValidator.validateSourceInput({
+        files: { '../escape.cpp': 'int main() {}' },
+      });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('traversal not allowed');
+    });
+
+    it('should reject paths that would be read as compiler options', () => {
+      const result = InputValidator.validateSourceInput({
+        files: { '-fsyntax-only.cpp': '', 'main.cpp': 'int main() {}' },
+      });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('cannot start with a dash');
+    });
+
+    it('should reject files named like generated output', () => {
+      expect(InputValidator.validateSourceInput({
+        files: { 'main.cpp': 'int main() {}', 'fixes.yaml': '' },
+      }).error).toContain('reserved for generated output');
+      expect(InputValidator.validateSourceInput({
+        files: { 'main.cpp': 'int main() {}', 'main.cpp.o': '' },
+      }).error).toContain('reserved for generated output');
+    });
+
+    it('should reject unknown entry points', () => {
+      const result = InputValidator.validateSourceInput({
+        files: { 'main.cpp': 'int main() {}' },
+        entryPoints: ['other.cpp'],
+      });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Entry point not found');
+    });
+  });
+
   describe('validateLanguageStandard', () => {
     it('should accept valid C standards', () => {
       const standards = ['c89', 'c99', 'c11', 'c17', 'c23'];
@@ -47,6 +104,15 @@ describe('InputValidator', () => {
       }
     });
 
+    it('should accept GNU dialects', () => {
+      const standards = ['gnu89', 'gnu11', 'gnu23', 'gnu++98', 'gnu++17', 'gnu++23'];
+      
+      for (const standard of standards) {
+        const result = InputValidator.validateLanguageStandard(standard);
+        expect(result.success).toBe(true);
+      }
+    });
+
     it('should reject invalid standards', () => {
       const result = InputValidator.validateLanguageStandard('c++25');
       expect(result.success).toBe(false);
@@ -71,6 +137,21 @@ describe('InputValidator', () => {
     });
   });
 
+  describe('validateOutputMode', () => {
+    it('should accept valid output modes', () => {
+      for (const mode of ['object', 'llvm-ir', 'assembly', 'disassemble']) {
+        const result = InputValidator.validateOutputMode(mode);
+        expect(result.success).toBe(true);
+      }
+    });
+
+    it('should reject invalid output modes', () => {
+      const result = InputValidator.validateOutputMode('bitcode');
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid output mode');
+    });
+  });
+
   describe('validateDefines', () => {
     it('should accept valid defines', () => {
       const defines = ['NDEBUG', 'VERSION=1', 'MAX_SIZE=100'];
@@ -155,4 +236,214 @@ describe('InputValidator', () => {
       expect(result.error).toContain('must be a number');
     });
   });
+
+  describe('validateProgramArguments', () => {
+    it('should accept string arguments', () => {
+      const result = InputValidator.validateProgramArguments(['--verbose', 'input.txt']);
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject too many arguments', () => {
+      const result = InputValidator.validateProgramArguments(new Array(100).fill('x'));
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Too many program arguments');
+    });
+  });
+
+  describe('validateEnvironment', () => {
+    it('should accept plain variables', () => {
+      const result = InputValidator.validateEnvironment({ LANG: 'C', MY_VAR: '1' });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject loader variables', () => {
+      const result = InputValidator.validateEnvironment({ LD_PRELOAD: '/tmp/evil.so' });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('not allowed');
+    });
+
+    it('should reject invalid variable names', () => {
+      const result = InputValidator.validateEnvironment({ 'BAD-NAME': '1' });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid environment variable name');
+    });
+  });
+
+  describe('validateTarget', () => {
+    it('should accept allow-listed targets with matching CPUs', () => {
+      expect(InputValidator.validateTarget('thumbv7em-none-eabihf', 'cortex-m4').success).toBe(true);
+      expect(InputValidator.validateTarget('riscv64-linux-gnu').success).toBe(true);
+    });
+
+    it('should reject unknown targets', () => {
+      const result = InputValidator.validateTarget('mips-linux-gnu');
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid target');
+    });
+
+    it('should reject CPUs of another target', () => {
+      const result = InputValidator.validateTarget('aarch64-linux-gnu', 'cortex-m4');
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid CPU for target aarch64-linux-gnu');
+    });
+  });
+
+  describe('validateLibraries', () => {
+    it('should accept bundled libraries', () => {
+      expect(InputValidator.validateLibraries(['fmt', 'nlohmann_json', 'doctest']).success).toBe(true);
+    });
+
+    it('should reject unknown libraries', () => {
+      const result = InputValidator.validateLibraries(['fmt', 'boost']);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Unknown library: boost');
+    });
+
+    it('should list every library with its version and header', () => {
+      const fmt = InputValidator.getLibraries().find((library) => library.name === 'fmt');
+      expect(fmt).toMatchObject({ version: '10.2.1', header: 'fmt/format.h', defines: ['FMT_HEADER_ONLY'] });
+    });
+  });
+
+  describe('validateMacroDump', () => {
+    it('should accept valid macro dump modes', () => {
+      for (const mode of ['none', 'final', 'history']) {
+        expect(InputValidator.validateMacroDump(mode).success).toBe(true);
+      }
+    });
+
+    it('should reject unknown macro dump modes', () => {
+      const result = InputValidator.validateMacroDump('all');
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid macro dump mode');
+    });
+  });
+
+  describe('validateRemarkKinds', () => {
+    it('should accept valid remark kinds', () => {
+      const result = InputValidator.validateRemarkKinds(['missed', 'analysis']);
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject unknown remark kinds', () => {
+      const result = InputValidator.validateRemarkKinds(['skipped']);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid remark kind');
+    });
+  });
+
+  describe('validateRemarkPasses', () => {
+    it('should accept pass name patterns', () => {
+      expect(InputValidator.validateRemarkPasses('loop-vectorize|inline').success).toBe(true);
+      expect(InputValidator.validateRemarkPasses('loop-.*').success).toBe(true);
+    });
+
+    it('should reject invalid characters and malformed patterns', () => {
+      expect(InputValidator.validateRemarkPasses('inline; rm -rf /').success).toBe(false);
+      expect(InputValidator.validateRemarkPasses('(inline').error).toContain('Invalid regular expression');
+    });
+  });
+
+  describe('validateSanitizers', () => {
+    it('should accept compatible sanitizers', () => {
+      const result = InputValidator.validateSanitizers(['address', 'undefined', 'leak']);
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject unknown sanitizers', () => {
+      const result = InputValidator.validateSanitizers(['dataflow']);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid sanitizer');
+    });
+
+    it('should reject thread sanitizer combined with address sanitizer', () => {
+      const result = InputValidator.validateSanitizers(['address', 'thread']);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('can only be combined with undefined');
+    });
+  });
+
+  describe('validateTestFilter', () => {
+    it('should accept test name patterns', () => {
+      expect(InputValidator.validateTestFilter('Math.*:-Math.Slow').success).toBe(true);
+      expect(InputValidator.validateTestFilter('parse <int>').success).toBe(true);
+    });
+
+    it('should reject filters that read as options', () => {
+      const result = InputValidator.validateTestFilter('--gtest_also_run_disabled_tests');
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid test filter');
+    });
+  });
+
+  describe('validateSimulationIterations', () => {
+    it('should accept iteration counts within the limit', () => {
+      expect(InputValidator.validateSimulationIterations(1).success).toBe(true);
+      expect(InputValidator.validateSimulationIterations(10000).success).toBe(true);
+    });
+
+    it('should reject fractional and out of range counts', () => {
+      expect(InputValidator.validateSimulationIterations(2.5).error).toContain('must be an integer');
+      expect(InputValidator.validateSimulationIterations(0).error).toContain('between 1 and 10000');
+    });
+  });
+
+  describe('validateCheckers', () => {
+    const available = [
+      { name: 'core.DivideZero', description: 'Check for division by zero', alpha: false },
+      { name: 'cplusplus.NewDelete', description: 'Check for double-free and use-after-free problems', alpha: false },
+      { name: 'optin.performance.Padding', description: 'Check for excessively padded structs', alpha: false },
+    ];
+
+    it('should accept installed checkers and their packages', () => {
+      const result = InputValidator.validateCheckers(['cplusplus.NewDelete', 'optin.performance'], available);
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject checkers the analyzer does not provide', () => {
+      expect(InputValidator.validateCheckers(['core.Divide'], available).error).toContain('Unknown checker');
+    });
+  });
+
+  describe('validateAnalyzerConfig', () => {
+    it('should accept supported settings', () => {
+      const result = InputValidator.validateAnalyzerConfig({
+        mode: 'shallow',
+        ipa: 'basic-inlining',
+        inliningMode: 'all',
+        maxNodes: 10000,
+        aggressiveBinaryOperationSimplification: true,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject unknown values and node budgets out of range', () => {
+      expect(InputValidator.validateAnalyzerConfig({ mode: 'medium' as any }).error).toContain('Invalid analysis mode');
+      expect(InputValidator.validateAnalyzerConfig({ maxNodes: 0 }).error).toContain('between 1 and 1000000');
+    });
+  });
+
+  describe('validateTidyChecks', () => {
+    it('should accept check globs of known modules and negations', () => {
+      const result = InputValidator.validateTidyChecks(['modernize-*', '-modernize-use-trailing-return-type', 'bugprone-use-after-move', '*']);
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject unknown modules and characters that would break the check list', () => {
+      expect(InputValidator.validateTidyChecks(['nonsense-*']).error).toContain('Unknown check');
+      expect(InputValidator.validateTidyChecks(['modernize-*,cert-*']).error).toContain('Invalid check');
+    });
+  });
+
+  describe('validateTidyCheckOptions', () => {
+    it('should accept options keyed by check', () => {
+      const result = InputValidator.validateTidyCheckOptions({ 'readability-identifier-naming.VariableCase': 'camelBack' });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject keys without a check and multi-line values', () => {
+      expect(InputValidator.validateTidyCheckOptions({ VariableCase: 'camelBack' }).error).toContain('Invalid check option');
+      expect(InputValidator.validateTidyCheckOptions({ 'misc-x.Option': 'a\nb' }).error).toContain('Invalid value');
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { OutputSanitizer } from '../../../src/security/OutputSanitizer';
+
+describe('OutputSanitizer', () => {
+  describe('sanitizeStderr', () => {
+    it('should strip temporary work directories', () => {
+      const result = OutputSanitizer.sanitizeStderr(
+        '/tmp/mcp-compilation/1234-abcd/source.cpp:3:4: error: expected \';\''
+      );
+      expect(result).toBe('source.cpp:3:4: error: expected \';\'');
+    });
+
+    it('should keep relative paths inside the source tree', () => {
+      const stderr = 'src/core/parser.cpp:12:5: warning: unused variable\ninclude/parser.h:3:1: note: declared here';
+      expect(OutputSanitizer.sanitizeStderr(stderr)).toBe(stderr);
+    });
+
+    it('should reduce absolute header paths to file names', () => {
+      const result = OutputSanitizer.sanitizeStderr('In file included from /opt/project/include/util.h:10:');
+      expect(result).toBe('In file included from util.h:10:');
+    });
+  });
+});
\ No newline at end of file
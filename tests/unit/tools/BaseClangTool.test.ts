@@ -0,0 +1,165 @@
+import { BaseClangTool, type ProgramExecutionOptions } from '../../../src/tools/BaseClangTool';
+import { promises as fs, readFileSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+class ProgramRunner extends BaseClangTool {
+  run(binary: string, options: ProgramExecutionOptions) {
+    return this.executeProgram(binary, options);
+  }
+}
+
+// Running, or a zombie waiting to be reaped by a parent that does not
+function isAlive(pid: number): boolean {
+  try {
+    return !/^\d+ \(.*\) Z/.test(readFileSync(`/proc/${pid}/stat`, 'utf8'));
+  } catch {
+    return false;
+  }
+}
+
+describe('BaseClangTool', () => {
+  describe('executeProgram', () => {
+    const runner = new ProgramRunner();
+    let workDir: string;
+
+    const writeProgram = async (script: string): Promise<string> => {
+      const binary = path.join(workDir, 'main');
+      await fs.writeFile(binary, `#!/bin/sh\n${script}\n`, { mode: 0o755 });
+      return binary;
+    };
+
+    beforeEach(async () => {
+      workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'clang-mcp-test-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(workDir, { recursive: true, force: true });
+    });
+
+    it('should pass stdin and arguments unchanged', async () => {
+      const binary = await writeProgram('printf "%s|" "$@"; cat');
+
+      const result = await runner.run(binary, {
+        cwd: workDir,
+        timeout: 10,
+        stdin: 'line 1\nline 2\n',
+        args: ['two words', '$HOME', '--flag', ''],
+      });
+
+      expect(result.stdout).toBe('two words|$HOME|--flag||line 1\nline 2\n');
+      expect(result.exitCode).toBe(0);
+      expect(result.signal).toBeNull();
+      expect(result.timedOut).toBe(false);
+    });
+
+    it('should report the exit status and stderr of the program', async () => {
+      const binary = await writeProgram('echo failed >&2; exit 3');
+
+      const result = await runner.run(binary, { cwd: workDir, timeout: 10 });
+
+      expect(result.exitCode).toBe(3);
+      expect(result.signal).toBeNull();
+      expect(result.stderr).toBe('failed\n');
+    });
+
+    it('should report the signal that killed the program', async () => {
+      const binary = await writeProgram('kill -SEGV $$');
+
+      const result = await runner.run(binary, { cwd: workDir, timeout: 10 });
+
+      expect(result.exitCode).toBeNull();
+      expect(result.signal).toBe('SIGSEGV');
+    });
+
+    it('should report an exit status above 128 as an exit code, not a signal', async () => {
+      const binary = await writeProgram('exit 134');
+
+      const result = await runner.run(binary, { cwd: workDir, timeout: 10 });
+
+      expect(result.exitCode).toBe(134);
+      expect(result.signal).toBeNull();
+    });
+
+    it('should not let the program forge its exit status on fd 3', async () => {
+      const binary = await writeProgram(
+        'echo status=0 user=0 system=0 >&3; echo status=0 user=0 system=0 >/proc/$PPID/fd/3; kill -SEGV $$'
+      );
+
+      const result = await runner.run(binary, { cwd: workDir, timeout: 10 });
+
+      expect(result.exitCode).toBeNull();
+      expect(result.signal).toBe('SIGSEGV');
+    });
+
+    it('should read the CPU time reported by times on fd 3', async () => {
+      const binary = await writeProgram('i=0; while [ $i -lt 100000 ]; do i=$((i + 1)); done');
+
+      const result = await runner.run(binary, { cwd: workDir, timeout: 10 });
+
+      expect(result.exitCode).toBe(0);
+      expect(result.cpuTime).not.toBeNull();
+      expect(result.cpuTime!.user + result.cpuTime!.system).toBeGreaterThan(0);
+      expect(result.wallTime).toBeGreaterThan(0);
+    });
+
+    it('should run the program without the server environment', async () => {
+      process.env.MCP_TEST_SECRET = 'secret';
+      const binary = await writeProgram('env');
+
+      try {
+        const result = await runner.run(binary, { cwd: workDir, timeout: 10, env: { GREETING: 'hello' } });
+
+        const names = result.stdout.split('\n').map((line) => line.split('=')[0]);
+        expect(names).toContain('PATH');
+        expect(names).toContain('GREETING');
+        expect(names).not.toContain('MCP_TEST_SECRET');
+        expect(names).not.toContain('HOME');
+      } finally {
+        delete process.env.MCP_TEST_SECRET;
+      }
+    });
+
+    it('should kill the program and its children on timeout', async () => {
+      const binary = await writeProgram('sleep 30 & echo $! > child.pid; wait');
+
+      const result = await runner.run(binary, { cwd: workDir, timeout: 1 });
+
+      expect(result.timedOut).toBe(true);
+      expect(result.exitCode).toBeNull();
+      expect(result.signal).toBe('SIGKILL');
+      expect(result.cpuTime).toBeNull();
+      expect(result.wallTime).toBeLessThan(10);
+
+      const childPid = parseInt(await fs.readFile(path.join(workDir, 'child.pid'), 'utf8'), 10);
+      expect(isAlive(childPid)).toBe(false);
+    });
+
+    it('should not wait for a child that left the process group and keeps the output open', async () => {
+      const binary = await writeProgram('setsid sleep 60 & echo $! > child.pid; wait');
+
+      const result = await runner.run(binary, { cwd: workDir, timeout: 1 });
+      const childPid = parseInt(await fs.readFile(path.join(workDir, 'child.pid'), 'utf8'), 10);
+      try {
+        expect(result.timedOut).toBe(true);
+        expect(result.exitCode).toBeNull();
+        expect(result.signal).toBe('SIGKILL');
+        expect(result.wallTime).toBeLessThan(10);
+      } finally {
+        process.kill(childPid, 'SIGKILL');
+      }
+    });
+
+    it('should kill processes left behind by a program that exited', async () => {
+      const binary = await writeProgram('sleep 30 > /dev/null 2>&1 3>&- & echo $! > child.pid');
+
+      const result = await runner.run(binary, { cwd: workDir, timeout: 10 });
+
+      expect(result.exitCode).toBe(0);
+      expect(result.timedOut).toBe(false);
+
+      const childPid = parseInt(await fs.readFile(path.join(workDir, 'child.pid'), 'utf8'), 10);
+      expect(isAlive(childPid)).toBe(false);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ResultCache } from '../../../src/utils/cache';
+
+describe('ResultCache', () => {
+  it('should create keys independent of property order', () => {
+    const key = ResultCache.createKey({ tool: 'compile_cpp', settings: { optimization: 'O2', flags: ['-g'] } });
+
+    expect(ResultCache.createKey({ settings: { flags: ['-g'], optimization: 'O2' }, tool: 'compile_cpp' })).toBe(key);
+    expect(ResultCache.createKey({ tool: 'compile_cpp', settings: { optimization: 'O2', flags: ['-g'], defines: undefined } })).toBe(key);
+    expect(ResultCache.createKey({ tool: 'compile_cpp', settings: { optimization: 'O3', flags: ['-g'] } })).not.toBe(key);
+  });
+
+  it('should return copies of stored results', async () => {
+    const cache = new ResultCache({ maxSize: 1024, ttl: 60 });
+    const result = { success: true, diagnostics: ['warning'] };
+    await cache.set('key', result);
+    result.diagnostics.push('error');
+
+    const cached = await cache.get<typeof result>('key');
+    expect(cached).toEqual({ success: true, diagnostics: ['warning'] });
+    expect(await cache.get('missing')).toBeUndefined();
+  });
+
+  it('should evict the least recently used results beyond the size limit', async () => {
+    const cache = new ResultCache({ maxSize: 25, ttl: 60 });
+    await cache.set('a', 'x'.repeat(8));
+    await cache.set('b', 'y'.repeat(8));
+    await cache.get('a');
+    await cache.set('c', 'z'.repeat(8));
+
+    expect(await cache.get('a')).toBe('xxxxxxxx');
+    expect(await cache.get('b')).toBeUndefined();
+    expect(await cache.get('c')).toBe('zzzzzzzz');
+  });
+
+  it('should not store results larger than the cache', async () => {
+    const cache = new ResultCache({ maxSize: 10, ttl: 60 });
+    await cache.set('key', 'x'.repeat(20));
+
+    expect(await cache.get('key')).toBeUndefined();
+  });
+
+  it('should expire results after the time to live', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    try {
+      const cache = new ResultCache({ maxSize: 1024, ttl: 60 });
+      await cache.set('key', { success: true });
+
+      now.mockReturnValue(60_999);
+      expect(await cache.get('key')).toEqual({ success: true });
+      now.mockReturnValue(61_000);
+      expect(await cache.get('key')).toBeUndefined();
+    } finally {
+      now.mockRestore();
+    }
+  });
+
+  it('should share results through the cache directory', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'result-cache-'));
+    try {
+      await new ResultCache({ maxSize: 1024, ttl: 60, directory }).set('key', { success: true });
+
+      expect(await fs.readdir(directory)).toEqual(['key.json']);
+      expect(await new ResultCache({ maxSize: 1024, ttl: 60, directory }).get('key')).toEqual({ success: true });
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should bound the cache directory by the size limit and time to live', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'result-cache-'));
+    const age = async (key: string, seconds: number): Promise<void> => {
+      const time = new Date(Date.now() - seconds * 1000);
+      await fs.utimes(path.join(directory, `${key}.json`), time, time);
+    };
+    try {
+      const cache = new ResultCache({ maxSize: 200, ttl: 60, directory });
+      await cache.set('expired', 'x');
+      await age('expired', 120);
+      await cache.set('a', 'x'.repeat(40));
+      await age('a', 30);
+      await cache.set('b', 'y'.repeat(40));
+      await age('b', 20);
+
+      expect((await fs.readdir(directory)).sort()).toEqual(['a.json', 'b.json']);
+
+      await cache.set('c', 'z'.repeat(40));
+
+      expect((await fs.readdir(directory)).sort()).toEqual(['b.json', 'c.json']);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,30 @@
+import { UnifiedDiff } from '../../../src/utils/diff';
+
+describe('UnifiedDiff', () => {
+  it('should return an empty diff for identical text', () => {
+    expect(UnifiedDiff.create('a.cpp', 'int x;\n', 'int x;\n')).toBe('');
+  });
+
+  it('should produce hunks with three lines of context', () => {
+    const before = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10'].map((line) => `${line}\n`).join('');
+    const after = before.replace('5\n', 'five\n');
+
+    expect(UnifiedDiff.create('a.cpp', before, after)).toBe(
+      ['--- a/a.cpp', '+++ b/a.cpp', '@@ -2,7 +2,7 @@', ' 2', ' 3', ' 4', '-5', '+five', ' 6', ' 7', ' 8', ''].join('\n')
+    );
+  });
+
+  it('should split distant changes into separate hunks', () => {
+    const before = Array.from({ length: 20 }, (_, index) => `line ${index + 1}\n`).join('');
+    const after = before.replace('line 2\n', 'line two\n').replace('line 19\n', 'line nineteen\n');
+    const hunks = UnifiedDiff.create('a.cpp', before, after).split('\n').filter((line) => line.startsWith('@@'));
+
+    expect(hunks).toEqual(['@@ -1,5 +1,5 @@', '@@ -16,5 +16,5 @@']);
+  });
+
+  it('should mark a missing newline at end of file', () => {
+    expect(UnifiedDiff.create('a.cpp', 'int x\n', 'int x;')).toBe(
+      ['--- a/a.cpp', '+++ b/a.cpp', '@@ -1 +1 @@', '-int x', '+int x;', '\\ No newline at end of file', ''].join('\n')
+    );
+  });
+});
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { FixItApplier } from '../../../src/utils/fixits';
+import type { DiagnosticMessage, FixIt } from '../../../src/types';
+
+const source = 'struct Point { int x; };\nint length(Point *p) {\n  int total = p.x\n  return total;\n}\n';
+
+function fixIt(line: number, startColumn: number, endColumn: number, replacement: string, file = 'source.cpp'): FixIt {
+  return {
+    range: { start: { file, line, column: startColumn }, end: { file, line, column: endColumn } },
+    replacement,
+  };
+}
+
+function error(...fixIts: FixIt[]): DiagnosticMessage {
+  return { file: 'source.cpp', line: 3, column: 1, message: 'error', severity: 'error', fixIts };
+}
+
+describe('FixItApplier', () => {
+  it('should apply replacements and insertions', () => {
+    const result = FixItApplier.apply({ 'source.cpp': source }, [error(fixIt(3, 16, 17, '->')), error(fixIt(3, 18, 18, ';'))]);
+
+    expect(result.applied).toBe(2);
+    expect(result.skipped).toBe(0);
+    expect(result.files['source.cpp']).toBe(source.replace('p.x\n', 'p->x;\n'));
+  });
+
+  it('should apply duplicate hints from several translation units once', () => {
+    const result = FixItApplier.apply({ 'source.cpp': source }, [error(fixIt(3, 18, 18, ';')), error(fixIt(3, 18, 18, ';'))]);
+
+    expect(result.applied).toBe(1);
+    expect(result.files['source.cpp']).toContain('p.x;\n');
+  });
+
+  it('should skip overlapping hints, hints on notes and files outside the tree', () => {
+    const note: DiagnosticMessage = { ...error(fixIt(1, 1, 7, 'class')), severity: 'note' };
+    const result = FixItApplier.apply({ 'source.cpp': source }, [
+      error(fixIt(3, 15, 18, 'p->x')),
+      error(fixIt(3, 16, 17, '->')),
+      error(fixIt(1, 1, 1, '#include <vector>\n', 'vector')),
+      note,
+    ]);
+
+    expect(result.applied).toBe(1);
+    expect(result.skipped).toBe(2);
+    expect(result.files['source.cpp']).toContain('int total = p->x\n');
+    expect(result.files['source.cpp']).toMatch(/^struct Point/);
+  });
+
+  it('should count columns in bytes', () => {
+    const result = FixItApplier.apply({ 'source.cpp': 'const char *s = "é"\n' }, [error(fixIt(1, 21, 21, ';'))]);
+
+    expect(result.files['source.cpp']).toBe('const char *s = "é";\n');
+  });
+});
\ No newline at end of file